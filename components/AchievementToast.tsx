@@ -0,0 +1,26 @@
+import React from 'react';
+import { Award } from 'lucide-react';
+import { Achievement } from '../services/achievementService';
+import { SKIER_SKINS } from '../constants';
+
+interface AchievementToastProps {
+  achievement: Achievement;
+}
+
+// Slides in at the top of the screen, above the HUD and the result screens
+export const AchievementToast: React.FC<AchievementToastProps> = ({ achievement }) => {
+  const skin = SKIER_SKINS.find(s => s.id === achievement.skin);
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 pointer-events-none animate-bounce">
+      <div className="flex items-center gap-3 bg-slate-800 border-4 border-yellow-500 px-4 py-3 shadow-2xl">
+        <Award size={28} className="text-yellow-400 shrink-0" />
+        <div>
+          <p className="font-retro text-[10px] text-yellow-400">ACHIEVEMENT UNLOCKED</p>
+          <p className="font-retro text-sm text-white">{achievement.name.toUpperCase()}</p>
+          <p className="text-xs text-slate-300">{achievement.description}</p>
+          {skin && <p className="text-xs text-emerald-300">New skier colors: {skin.name}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
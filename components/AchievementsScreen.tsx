@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Award, Lock, RefreshCw, X } from 'lucide-react';
+import { SkierSkin } from '../types';
+import { SKIER_SKINS } from '../constants';
+import {
+  ACHIEVEMENTS, UnlockedAchievements, loadUnlockedAchievements, getUnlockedSkins, syncAchievements
+} from '../services/achievementService';
+
+interface AchievementsScreenProps {
+  playerName: string;
+  selectedSkin: SkierSkin;
+  onSelectSkin: (skin: SkierSkin) => void;
+  onClose: () => void;
+}
+
+// A small standing skier in the skin's colors
+const SkinPreview: React.FC<{ skin: SkierSkin }> = ({ skin }) => (
+  <svg viewBox="0 0 20 32" className="w-6 h-10">
+    <rect x={6} y={0} width={8} height={8} fill="#fce7f3" />
+    <rect x={6} y={2} width={8} height={4} fill="#111" />
+    <rect x={4} y={8} width={12} height={16} fill={skin.suit} />
+    <rect x={2} y={22} width={6} height={10} fill={skin.skis} />
+    <rect x={12} y={22} width={6} height={10} fill={skin.skis} />
+  </svg>
+);
+
+export const AchievementsScreen: React.FC<AchievementsScreenProps> = ({ playerName, selectedSkin, onSelectSkin, onClose }) => {
+  const [unlocked, setUnlocked] = useState<UnlockedAchievements>(loadUnlockedAchievements);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Pull in badges earned under this name elsewhere
+  useEffect(() => {
+    if (!playerName) return;
+    let cancelled = false;
+    setIsSyncing(true);
+    syncAchievements(playerName).then(merged => {
+      if (cancelled) return;
+      setUnlocked(merged);
+      setIsSyncing(false);
+    });
+    return () => { cancelled = true; };
+  }, [playerName]);
+
+  const skins = getUnlockedSkins(unlocked);
+  const earnedCount = ACHIEVEMENTS.filter(a => unlocked[a.id]).length;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-30 p-4 overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border-2 border-slate-600 max-w-2xl w-full shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="flex items-center gap-2 text-2xl font-retro text-yellow-400">
+            <Award size={24} /> ACHIEVEMENTS
+          </h2>
+          <div className="flex items-center gap-3">
+            {isSyncing && <RefreshCw size={14} className="text-slate-400 animate-spin" />}
+            <span className="font-mono text-sm text-slate-300">{earnedCount}/{ACHIEVEMENTS.length}</span>
+            <button onClick={onClose} className="text-slate-400 hover:text-white" title="Back to menu">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-2 mb-4 max-h-80 overflow-y-auto">
+          {ACHIEVEMENTS.map(achievement => {
+            const date = unlocked[achievement.id];
+            const reward = SKIER_SKINS.find(s => s.id === achievement.skin);
+            return (
+              <div
+                key={achievement.id}
+                className={`flex items-start gap-3 p-2 border ${date ? 'bg-slate-900 border-yellow-600' : 'bg-slate-900/50 border-slate-700 opacity-60'}`}
+              >
+                {date ? <Award size={20} className="text-yellow-400 shrink-0" /> : <Lock size={20} className="text-slate-500 shrink-0" />}
+                <div className="text-xs">
+                  <p className="font-retro text-[10px] text-white">{achievement.name.toUpperCase()}</p>
+                  <p className="text-slate-300">{achievement.description}</p>
+                  {reward && <p className="text-emerald-300">Unlocks: {reward.name}</p>}
+                  {date && <p className="text-slate-500 font-mono">{new Date(date).toLocaleDateString()}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="border-t border-slate-600 pt-4">
+          <h3 className="text-yellow-400 font-retro text-xs mb-2">SKIER COLORS</h3>
+          <div className="flex flex-wrap gap-2">
+            {SKIER_SKINS.map(skin => {
+              const available = skins.includes(skin);
+              return (
+                <button
+                  key={skin.id}
+                  onClick={() => onSelectSkin(skin)}
+                  disabled={!available}
+                  title={available ? skin.name : 'Locked'}
+                  className={`flex flex-col items-center gap-1 p-2 border-2 disabled:opacity-30 ${skin.id === selectedSkin.id ? 'border-yellow-500 bg-slate-700' : 'border-slate-600 bg-slate-900 hover:border-slate-400'}`}
+                >
+                  <SkinPreview skin={skin} />
+                  <span className="font-retro text-[8px]">{available ? skin.name.toUpperCase() : '???'}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, X } from 'lucide-react';
+import { Difficulty } from '../types';
+import { getTrail } from '../trails';
+import { getTrackOffset, getTrackWidth } from '../engine/trail';
+import { decodeInput } from '../engine/replay';
+import { Telemetry, NO_YETI, unpackTelemetry, getTelemetryTicks, summarizeTelemetry } from '../engine/telemetry';
+import { RunRecord, loadRunHistory } from '../services/historyService';
+
+interface AnalysisScreenProps {
+  initialRunId: string | null; // null: the newest run with telemetry
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+const LINE_HEIGHT = 180;
+const CHART_PAD = 28;
+const INPUT_STRIP = 14; // Input lanes under the speed chart
+// Long runs are thinned to this many points per chart
+const MAX_POINTS = 600;
+const TRAIL_SAMPLE = 100; // ft between samples of the trail's edges
+
+const COLORS = {
+  axis: '#475569',
+  label: '#94a3b8',
+  trail: '#334155',
+  centerline: '#64748b',
+  line: '#facc15',
+  crash: '#ef4444',
+  pastCrash: '#f87171',
+  tuck: '#facc15',
+  left: '#38bdf8',
+  right: '#f472b6',
+  yeti: '#a78bfa'
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-900 border border-slate-700 p-2">
+    <p className="text-[10px] font-retro text-slate-500">{label}</p>
+    <p className="font-mono text-white">{value}</p>
+  </div>
+);
+
+const Label: React.FC<{ x: number; y: number; anchor?: 'start' | 'end'; children: React.ReactNode }> = ({ x, y, anchor = 'start', children }) => (
+  <text x={x} y={y} fill={COLORS.label} fontSize="9" fontFamily="monospace" textAnchor={anchor}>{children}</text>
+);
+
+const feet = (distance: number) => `${Math.round(distance).toLocaleString()}ft`;
+
+const describeRun = (run: RunRecord) => {
+  const trail = getTrail(run.trailId)?.name ?? run.trailId;
+  const result = run.finished ? `${(run.time / 1000).toFixed(2)}s` : `${run.distance.toLocaleString()}ft`;
+  return `${new Date(run.date).toLocaleString()} · ${trail} ${run.difficulty === Difficulty.HARD ? 'PRO' : 'EASY'} ${run.mode} · ${result}`;
+};
+
+// Every tick of a short run; evenly spaced ticks (and the last) of a long one
+const thin = (ticks: number): number[] => {
+  const stride = Math.max(1, Math.ceil(ticks / MAX_POINTS));
+  const indices: number[] = [];
+  for (let i = 0; i < ticks; i += stride) indices.push(i);
+  if (ticks > 0 && indices[indices.length - 1] !== ticks - 1) indices.push(ticks - 1);
+  return indices;
+};
+
+const toPath = (points: [number, number][]) =>
+  points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`).join(' ');
+
+interface ChartProps {
+  telemetry: Telemetry;
+  indices: number[];
+  toX: (distance: number) => number; // Distance down the trail to chart x, shared by every chart
+  extent: number;
+}
+
+const DistanceAxis: React.FC<{ y: number; extent: number }> = ({ y, extent }) => (
+  <>
+    <line x1={CHART_PAD} y1={y} x2={CHART_WIDTH - CHART_PAD} y2={y} stroke={COLORS.axis} />
+    <Label x={CHART_PAD} y={y + 12}>0ft</Label>
+    <Label x={CHART_WIDTH - CHART_PAD} y={y + 12} anchor="end">{feet(extent)}</Label>
+  </>
+);
+
+// Speed against distance, with what the skier was pressing underneath
+const SpeedChart: React.FC<ChartProps> = ({ telemetry, indices, toX, extent }) => {
+  const top = Math.max(1, ...indices.map(i => telemetry.speed[i]));
+  const base = CHART_HEIGHT - CHART_PAD - INPUT_STRIP;
+  const toY = (speed: number) => base - speed / top * (base - CHART_PAD / 2);
+  const lanes = indices.slice(0, -1).map((i, n) => {
+    const input = decodeInput(telemetry.input[i]);
+    const steer = input.steer ?? (input.left ? -1 : 0) + (input.right ? 1 : 0);
+    return { x: toX(telemetry.y[i]), width: Math.max(0.5, toX(telemetry.y[indices[n + 1]]) - toX(telemetry.y[i])), tuck: input.down, steer };
+  });
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+      <Label x={CHART_PAD - 4} y={toY(top) + 3} anchor="end">{Math.round(top)}</Label>
+      <Label x={CHART_PAD - 4} y={base + 3} anchor="end">0</Label>
+      <line x1={CHART_PAD} y1={base} x2={CHART_WIDTH - CHART_PAD} y2={base} stroke={COLORS.axis} strokeDasharray="2 3" />
+      <path d={toPath(indices.map(i => [toX(telemetry.y[i]), toY(telemetry.speed[i])]))} fill="none" stroke={COLORS.line} strokeWidth={1.5} />
+      {lanes.map((lane, n) => (
+        <React.Fragment key={n}>
+          {lane.steer !== 0 && (
+            <rect x={lane.x} y={base + 2} width={lane.width} height={5} fill={lane.steer < 0 ? COLORS.left : COLORS.right} opacity={Math.min(1, Math.abs(lane.steer))} />
+          )}
+          {lane.tuck && <rect x={lane.x} y={base + 8} width={lane.width} height={5} fill={COLORS.tuck} />}
+        </React.Fragment>
+      ))}
+      <Label x={CHART_WIDTH - CHART_PAD + 4} y={base + 7}>STEER</Label>
+      <Label x={CHART_WIDTH - CHART_PAD + 4} y={base + 13}>TUCK</Label>
+      <DistanceAxis y={CHART_HEIGHT - CHART_PAD + 4} extent={extent} />
+    </svg>
+  );
+};
+
+interface CrashMarker {
+  distance: number;
+  x: number;
+  cause: string;
+}
+
+interface RacingLineProps extends ChartProps {
+  trailId: string;
+  crash: CrashMarker | null; // This run's
+  pastCrashes: CrashMarker[]; // Other recorded runs on the same course
+}
+
+// Looking down on the trail with the skier heading left to right: their own
+// line over the trail's edges and centerline, and where runs ended in a crash
+const RacingLineChart: React.FC<RacingLineProps> = ({ telemetry, indices, toX, extent, trailId, crash, pastCrashes }) => {
+  const trail = getTrail(trailId);
+  const crashes = pastCrashes.filter(marker => marker.distance <= extent);
+  const edges: { distance: number; left: number; right: number }[] = [];
+  if (trail) {
+    for (let distance = 0; distance <= extent; distance += TRAIL_SAMPLE) {
+      const center = getTrackOffset(trail, distance);
+      const half = getTrackWidth(trail, distance) / 2;
+      edges.push({ distance, left: center - half, right: center + half });
+    }
+  }
+
+  const lateral = [
+    ...indices.map(i => telemetry.x[i]),
+    ...edges.flatMap(edge => [edge.left, edge.right]),
+    ...crashes.map(marker => marker.x)
+  ];
+  const low = Math.min(...lateral);
+  const span = Math.max(1, Math.max(...lateral) - low);
+  // Skier's left at the top, as when facing down the trail to the right
+  const toY = (x: number) => CHART_PAD / 2 + (x - low) / span * (LINE_HEIGHT - CHART_PAD * 1.5);
+
+  const edgePath = edges.length > 0
+    ? `${toPath(edges.map(edge => [toX(edge.distance), toY(edge.left)]))} ${toPath([...edges].reverse().map(edge => [toX(edge.distance), toY(edge.right)])).replace(/^M/, 'L')} Z`
+    : null;
+
+  const cross = (marker: CrashMarker, color: string, size: number, key: string) => {
+    const x = toX(marker.distance);
+    const y = toY(marker.x);
+    return (
+      <g key={key} stroke={color} strokeWidth={2}>
+        <line x1={x - size} y1={y - size} x2={x + size} y2={y + size} />
+        <line x1={x - size} y1={y + size} x2={x + size} y2={y - size} />
+        <title>{`${feet(marker.distance)}: ${marker.cause}`}</title>
+      </g>
+    );
+  };
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${LINE_HEIGHT}`} className="w-full">
+      {edgePath && <path d={edgePath} fill={COLORS.trail} />}
+      <path
+        d={toPath(indices.map(i => [toX(telemetry.y[i]), toY(telemetry.x[i] - telemetry.offset[i])]))}
+        fill="none" stroke={COLORS.centerline} strokeDasharray="4 4"
+      />
+      <path d={toPath(indices.map(i => [toX(telemetry.y[i]), toY(telemetry.x[i])]))} fill="none" stroke={COLORS.line} strokeWidth={1.5} />
+      <g opacity={0.5}>
+        {crashes.map((marker, n) => cross(marker, COLORS.pastCrash, 3, `past-${n}`))}
+      </g>
+      {crash && cross(crash, COLORS.crash, 5, 'crash')}
+      <Label x={CHART_PAD - 4} y={CHART_PAD / 2 + 3} anchor="end">L</Label>
+      <Label x={CHART_PAD - 4} y={LINE_HEIGHT - CHART_PAD + 3} anchor="end">R</Label>
+      <DistanceAxis y={LINE_HEIGHT - CHART_PAD / 2 - 4} extent={extent} />
+    </svg>
+  );
+};
+
+// How far ahead of the yeti the skier stayed, once it was awake
+const YetiGapChart: React.FC<ChartProps> = ({ telemetry, indices, toX, extent }) => {
+  const awake = indices.filter(i => telemetry.yetiGap[i] !== NO_YETI);
+  if (awake.length === 0) return <p className="text-slate-500 text-xs italic">The yeti never woke up.</p>;
+
+  const widest = Math.max(1, ...awake.map(i => telemetry.yetiGap[i]));
+  const base = CHART_HEIGHT - CHART_PAD;
+  const toY = (gap: number) => base - gap / widest * (base - CHART_PAD / 2);
+  // Separate stretches wherever it was asleep in between
+  const stretches: number[][] = [];
+  indices.forEach((i, n) => {
+    if (telemetry.yetiGap[i] === NO_YETI) return;
+    if (n === 0 || telemetry.yetiGap[indices[n - 1]] === NO_YETI) stretches.push([]);
+    stretches[stretches.length - 1].push(i);
+  });
+  const closest = awake.reduce((best, i) => (telemetry.yetiGap[i] < telemetry.yetiGap[best] ? i : best));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+      <Label x={CHART_PAD - 4} y={toY(widest) + 3} anchor="end">{Math.round(widest)}</Label>
+      <Label x={CHART_PAD - 4} y={base + 3} anchor="end">0</Label>
+      {stretches.map((stretch, n) => (
+        <path key={n} d={toPath(stretch.map(i => [toX(telemetry.y[i]), toY(telemetry.yetiGap[i])]))} fill="none" stroke={COLORS.yeti} strokeWidth={1.5} />
+      ))}
+      <circle cx={toX(telemetry.y[closest])} cy={toY(telemetry.yetiGap[closest])} r={3} fill={COLORS.crash}>
+        <title>{`Closest: ${feet(telemetry.yetiGap[closest])} at ${feet(telemetry.y[closest])}`}</title>
+      </circle>
+      <DistanceAxis y={base + 4} extent={extent} />
+    </svg>
+  );
+};
+
+// Where a run ended, from the last sample of its telemetry
+const getCrashMarker = (run: RunRecord, telemetry: Telemetry | null): CrashMarker | null => {
+  if (run.finished || !telemetry || getTelemetryTicks(telemetry) === 0) return null;
+  const last = getTelemetryTicks(telemetry) - 1;
+  return { distance: run.distance, x: telemetry.x[last], cause: run.causeOfDeath ?? 'Crashed' };
+};
+
+export const AnalysisScreen: React.FC<AnalysisScreenProps> = ({ initialRunId, onClose }) => {
+  // Newest first
+  const [runs] = useState<RunRecord[]>(() => loadRunHistory().filter(run => run.telemetry).reverse());
+  const [runId, setRunId] = useState<string | null>(() =>
+    runs.find(run => run.id === initialRunId)?.id ?? runs[0]?.id ?? null);
+
+  const run = runs.find(r => r.id === runId) ?? null;
+  const telemetry = useMemo(() => (run?.telemetry ? unpackTelemetry(run.telemetry) : null), [run]);
+  const pastCrashes = useMemo(() => runs
+    .filter(r => run && r !== run && r.trailId === run.trailId && r.difficulty === run.difficulty && r.mode === run.mode)
+    .map(r => getCrashMarker(r, r.telemetry ? unpackTelemetry(r.telemetry) : null))
+    .filter((marker): marker is CrashMarker => marker !== null), [runs, run]);
+
+  const ticks = telemetry ? getTelemetryTicks(telemetry) : 0;
+  const indices = useMemo(() => thin(ticks), [ticks]);
+  const summary = telemetry ? summarizeTelemetry(telemetry) : null;
+  const extent = telemetry && ticks > 0 ? Math.max(1, run!.distance, telemetry.y[ticks - 1]) : 1;
+  const toX = (distance: number) => CHART_PAD + distance / extent * (CHART_WIDTH - CHART_PAD * 2);
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-30 p-4 overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border-2 border-slate-600 max-w-3xl w-full shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="flex items-center gap-2 text-2xl font-retro text-yellow-400">
+            <LineChart size={24} /> ANALYSIS
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Back">
+            <X size={20} />
+          </button>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="text-slate-400 text-sm font-mono">
+            No runs with telemetry yet. Every run you ski from now on is recorded tick by tick.
+          </p>
+        ) : (
+          <>
+            <select
+              value={runId ?? ''}
+              onChange={(e) => setRunId(e.target.value)}
+              className="w-full mb-4 bg-slate-900 border border-slate-600 text-white px-3 py-2 font-mono text-xs focus:border-yellow-400 outline-none"
+            >
+              {runs.map(r => <option key={r.id} value={r.id}>{describeRun(r)}</option>)}
+            </select>
+
+            {!run || !telemetry || !summary || ticks === 0 ? (
+              <p className="text-red-400 text-sm font-mono">This run's telemetry can't be read.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+                  <Stat label="TIME" value={`${(run.time / 1000).toFixed(2)}s`} />
+                  <Stat label="DISTANCE" value={feet(run.distance)} />
+                  <Stat label="AVG SPEED" value={`${summary.averageSpeed.toFixed(1)} mph`} />
+                  <Stat label="TOP SPEED" value={`${run.topSpeed} mph`} />
+                  <Stat label="TUCKED" value={`${Math.round(summary.tuckShare * 100)}%`} />
+                  <Stat label="OFF THE LINE" value={`${Math.round(summary.averageOffset)}ft avg`} />
+                  <Stat label="CLOSEST YETI" value={summary.closestYeti === null ? '—' : feet(summary.closestYeti)} />
+                  <Stat label="RESULT" value={run.finished ? 'FINISHED' : (run.causeOfDeath ?? 'CRASHED').toUpperCase()} />
+                </div>
+
+                <div className="space-y-4">
+                  <div>
+                    <h3 className="text-yellow-400 font-retro text-xs mb-2">SPEED (MPH)</h3>
+                    <SpeedChart telemetry={telemetry} indices={indices} toX={toX} extent={extent} />
+                  </div>
+                  <div>
+                    <h3 className="text-yellow-400 font-retro text-xs mb-2">RACING LINE</h3>
+                    <RacingLineChart
+                      telemetry={telemetry}
+                      indices={indices}
+                      toX={toX}
+                      extent={extent}
+                      trailId={run.trailId}
+                      crash={getCrashMarker(run, telemetry)}
+                      pastCrashes={pastCrashes}
+                    />
+                    {pastCrashes.length > 0 && (
+                      <p className="text-slate-500 text-xs font-mono mt-1">Faded crosses: where your other recorded runs on this course crashed.</p>
+                    )}
+                  </div>
+                  <div>
+                    <h3 className="text-yellow-400 font-retro text-xs mb-2">YETI GAP (FT)</h3>
+                    <YetiGapChart telemetry={telemetry} indices={indices} toX={toX} extent={extent} />
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
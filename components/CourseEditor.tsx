@@ -0,0 +1,561 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Difficulty, ObstacleType } from '../types';
+import { COLORS } from '../constants';
+import { TrailDefinition, PlaceableObstacleType, validateTrail, getTrackOffset, getTrackWidth, getLodgePosition } from '../engine/trail';
+import { TRAILS, isBuiltInTrail } from '../trails';
+import { createDraftFrom, downloadTrail, readTrailFile } from '../services/trailService';
+import { MousePointer, Plus, MoveHorizontal, TreePine, Eraser, ZoomIn, ZoomOut, Download, Upload, Play, X } from 'lucide-react';
+
+interface CourseEditorProps {
+  trail: TrailDefinition;
+  onChange: (trail: TrailDefinition) => void;
+  onTestSki: (trail: TrailDefinition, difficulty: Difficulty) => void;
+  onExit: () => void;
+}
+
+type EditorTool = 'SELECT' | 'POINT' | 'WIDTH' | PlaceableObstacleType | 'ERASE';
+
+type DragTarget =
+  | { kind: 'centerline'; index: number }
+  | { kind: 'obstacle'; index: number }
+  | { kind: 'lodge' }
+  | { kind: 'yeti'; difficulty: Difficulty }
+  | { kind: 'pan'; screenX: number; screenY: number; viewX: number; viewY: number }
+  | { kind: 'paint' };
+
+interface View {
+  x: number; // World x at the horizontal center of the screen
+  y: number; // World y at the top of the screen
+  zoom: number; // Screen pixels per foot
+}
+
+const TOOLS: { tool: EditorTool; label: string; icon: React.ReactNode }[] = [
+  { tool: 'SELECT', label: 'MOVE', icon: <MousePointer size={14} /> },
+  { tool: 'POINT', label: 'ADD POINT', icon: <Plus size={14} /> },
+  { tool: 'WIDTH', label: 'WIDTH', icon: <MoveHorizontal size={14} /> },
+  { tool: ObstacleType.TREE, label: 'TREE', icon: <TreePine size={14} /> },
+  { tool: ObstacleType.ROCK, label: 'ROCK', icon: <span className="w-3 h-3 rounded-full bg-slate-500 inline-block" /> },
+  { tool: ObstacleType.STUMP, label: 'STUMP', icon: <span className="w-3 h-3 bg-amber-800 inline-block" /> },
+  { tool: ObstacleType.RAMP, label: 'RAMP', icon: <span className="w-3 h-2 bg-slate-300 border-b-2 border-slate-400 inline-block" /> },
+  { tool: ObstacleType.MOGULS, label: 'MOGULS', icon: <span className="w-3 h-3 rounded-full bg-slate-200 border border-slate-400 inline-block" /> },
+  { tool: 'ERASE', label: 'ERASE', icon: <Eraser size={14} /> },
+];
+
+const WIDTH_STEP = 250; // Width is painted onto a fixed grid down the trail
+const LODGE_CLEARANCE = 200; // Finish line sits this far above the lodge, as on the built-in trails
+const MIN_ZOOM = 0.02;
+const MAX_ZOOM = 1;
+const HIT_RADIUS = 10; // Screen pixels
+
+const lodgeIconSize = (zoom: number) => Math.max(12, 120 * zoom);
+
+// Inserts or replaces a point in a list kept sorted by y
+const upsertByY = <T extends { y: number }>(points: T[], point: T): T[] =>
+  [...points.filter(p => p.y !== point.y), point].sort((a, b) => a.y - b.y);
+
+export const CourseEditor: React.FC<CourseEditorProps> = ({ trail, onChange, onTestSki, onExit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragTarget | null>(null);
+  const [tool, setTool] = useState<EditorTool>('SELECT');
+  const [brushWidth, setBrushWidth] = useState(900);
+  const [view, setView] = useState<View>(() => ({ x: trail.centerline[0].x, y: -200, zoom: 0.15 }));
+  const [importError, setImportError] = useState<string | null>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  const errors = validateTrail(trail);
+  if (isBuiltInTrail(trail.id)) errors.push(`id "${trail.id}" belongs to a built-in trail; pick a new one`);
+
+  const toScreen = (wx: number, wy: number) => ({
+    x: canvasSize.width / 2 + (wx - view.x) * view.zoom,
+    y: (wy - view.y) * view.zoom
+  });
+
+  const toWorld = (sx: number, sy: number) => ({
+    x: view.x + (sx - canvasSize.width / 2) / view.zoom,
+    y: view.y + sy / view.zoom
+  });
+
+  useEffect(() => {
+    const handleResize = () => setCanvasSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // --- Rendering ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height } = canvasSize;
+
+    ctx.fillStyle = COLORS.SNOW_SHADOW;
+    ctx.fillRect(0, 0, width, height);
+
+    const top = view.y;
+    const bottom = view.y + height / view.zoom;
+    const lodge = getLodgePosition(trail);
+    const trailTop = Math.max(top, trail.centerline[0].y);
+    const trailBottom = Math.min(bottom, lodge.y + 400);
+
+    // --- Trail Surface ---
+    const step = Math.max(5, 8 / view.zoom);
+    const left: { x: number; y: number }[] = [];
+    const right: { x: number; y: number }[] = [];
+    for (let y = trailTop; y <= trailBottom + step; y += step) {
+      const center = getTrackOffset(trail, y);
+      const half = getTrackWidth(trail, y) / 2;
+      left.push(toScreen(center - half, y));
+      right.push(toScreen(center + half, y));
+    }
+    if (left.length > 1) {
+      ctx.fillStyle = COLORS.SNOW;
+      ctx.beginPath();
+      left.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      [...right].reverse().forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+      ctx.strokeStyle = COLORS.TREE_DARK;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+
+    // Hazard zones (PRO runs scatter rocks and stumps through these)
+    ctx.fillStyle = 'rgba(249, 115, 22, 0.35)';
+    trail.hazardZones.forEach(zone => {
+      const a = toScreen(0, zone.from);
+      const b = toScreen(0, zone.to);
+      ctx.fillRect(0, a.y, 6, b.y - a.y);
+    });
+
+    // --- Distance Grid ---
+    ctx.strokeStyle = 'rgba(100, 116, 139, 0.25)';
+    ctx.fillStyle = '#64748b';
+    ctx.font = '10px "Press Start 2P"';
+    ctx.lineWidth = 1;
+    const gridStep = view.zoom < 0.05 ? 5000 : 1000;
+    for (let gy = Math.floor(top / gridStep) * gridStep; gy < bottom; gy += gridStep) {
+      const sy = toScreen(0, gy).y;
+      ctx.beginPath();
+      ctx.moveTo(0, sy);
+      ctx.lineTo(width, sy);
+      ctx.stroke();
+      ctx.fillText(`${gy}ft`, width - 90, sy - 4);
+    }
+
+    // --- Width Profile Marks ---
+    ctx.fillStyle = '#0ea5e9';
+    trail.width.forEach(w => {
+      const center = getTrackOffset(trail, w.y);
+      const l = toScreen(center - w.width / 2, w.y);
+      const r = toScreen(center + w.width / 2, w.y);
+      ctx.fillRect(l.x - 3, l.y - 3, 6, 6);
+      ctx.fillRect(r.x - 3, r.y - 3, 6, 6);
+    });
+
+    // --- Centerline Spline & Control Points ---
+    ctx.strokeStyle = '#94a3b8';
+    ctx.setLineDash([6, 6]);
+    ctx.beginPath();
+    for (let y = trailTop; y <= trailBottom + step; y += step) {
+      const p = toScreen(getTrackOffset(trail, y), y);
+      if (y === trailTop) ctx.moveTo(p.x, p.y);
+      else ctx.lineTo(p.x, p.y);
+    }
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = '#2563eb';
+    trail.centerline.forEach(point => {
+      const p = toScreen(point.x, point.y);
+      if (p.y < -HIT_RADIUS || p.y > height + HIT_RADIUS) return;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    // --- Hand-Placed Obstacles ---
+    const obstacleSize = Math.max(4, 30 * view.zoom);
+    (trail.obstacles ?? []).forEach(o => {
+      const p = toScreen(o.x, o.y);
+      if (p.y < -obstacleSize * 2 || p.y > height + obstacleSize * 2) return;
+      if (o.type === ObstacleType.TREE) {
+        ctx.fillStyle = COLORS.TREE_LIGHT;
+        ctx.beginPath();
+        ctx.moveTo(p.x, p.y - obstacleSize * 1.5);
+        ctx.lineTo(p.x + obstacleSize, p.y + obstacleSize / 2);
+        ctx.lineTo(p.x - obstacleSize, p.y + obstacleSize / 2);
+        ctx.fill();
+      } else if (o.type === ObstacleType.ROCK) {
+        ctx.fillStyle = COLORS.ROCK;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, obstacleSize / 2, 0, Math.PI * 2);
+        ctx.fill();
+      } else if (o.type === ObstacleType.RAMP) {
+        ctx.fillStyle = COLORS.TRACK_BORDER;
+        ctx.fillRect(p.x - obstacleSize, p.y - obstacleSize / 2, obstacleSize * 2, obstacleSize);
+        ctx.fillStyle = COLORS.ROCK;
+        ctx.fillRect(p.x - obstacleSize, p.y + obstacleSize / 2 - 2, obstacleSize * 2, 2);
+      } else if (o.type === ObstacleType.MOGULS) {
+        ctx.strokeStyle = COLORS.TRACK_BORDER;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.ellipse(p.x, p.y, obstacleSize * 2.5, obstacleSize, 0, 0, Math.PI * 2);
+        ctx.stroke();
+      } else {
+        ctx.fillStyle = '#78350f';
+        ctx.fillRect(p.x - obstacleSize / 2, p.y - obstacleSize / 2, obstacleSize, obstacleSize);
+      }
+    });
+
+    // --- Yeti Trigger Lines ---
+    ctx.font = '10px "Press Start 2P"';
+    [Difficulty.EASY, Difficulty.HARD].forEach(d => {
+      const distance = trail.yetiStartDistance[d];
+      if (distance === null) return;
+      const sy = toScreen(0, distance).y;
+      ctx.strokeStyle = d === Difficulty.HARD ? '#dc2626' : '#16a34a';
+      ctx.fillStyle = ctx.strokeStyle;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([12, 6]);
+      ctx.beginPath();
+      ctx.moveTo(300, sy);
+      ctx.lineTo(width, sy);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillText(`YETI ${d === Difficulty.HARD ? 'PRO' : 'EASY'}`, 310, sy - 6);
+    });
+
+    // --- Finish Line & Lodge ---
+    const finishY = toScreen(0, trail.length).y;
+    ctx.strokeStyle = '#10b981';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(300, finishY);
+    ctx.lineTo(width, finishY);
+    ctx.stroke();
+    ctx.fillStyle = '#10b981';
+    ctx.fillText('FINISH', 310, finishY - 6);
+
+    const lodgePos = toScreen(lodge.x, lodge.y);
+    const lodgeSize = lodgeIconSize(view.zoom);
+    ctx.fillStyle = COLORS.LODGE_WOOD;
+    ctx.fillRect(lodgePos.x - lodgeSize / 2, lodgePos.y - lodgeSize / 2, lodgeSize, lodgeSize / 2);
+    ctx.fillStyle = COLORS.LODGE_ROOF;
+    ctx.beginPath();
+    ctx.moveTo(lodgePos.x - lodgeSize * 0.6, lodgePos.y - lodgeSize / 2);
+    ctx.lineTo(lodgePos.x, lodgePos.y - lodgeSize);
+    ctx.lineTo(lodgePos.x + lodgeSize * 0.6, lodgePos.y - lodgeSize / 2);
+    ctx.fill();
+  }, [trail, view, canvasSize]);
+
+  // --- Hit Testing ---
+  const findDragTarget = (sx: number, sy: number): DragTarget | null => {
+    const near = (wx: number, wy: number, radius = HIT_RADIUS) => {
+      const p = toScreen(wx, wy);
+      return Math.hypot(p.x - sx, p.y - sy) <= radius;
+    };
+
+    const lodge = toScreen(getLodgePosition(trail).x, trail.lodge.y);
+    const lodgeSize = lodgeIconSize(view.zoom);
+    if (Math.abs(sx - lodge.x) <= lodgeSize * 0.6 && sy <= lodge.y && sy >= lodge.y - lodgeSize) {
+      return { kind: 'lodge' };
+    }
+
+    const obstacleIndex = (trail.obstacles ?? []).findIndex(o => near(o.x, o.y));
+    if (obstacleIndex !== -1) return { kind: 'obstacle', index: obstacleIndex };
+
+    const pointIndex = trail.centerline.findIndex(p => near(p.x, p.y));
+    if (pointIndex !== -1) return { kind: 'centerline', index: pointIndex };
+
+    for (const d of [Difficulty.EASY, Difficulty.HARD]) {
+      const distance = trail.yetiStartDistance[d];
+      if (distance !== null && sx > 300 && Math.abs(toScreen(0, distance).y - sy) <= HIT_RADIUS / 2) {
+        return { kind: 'yeti', difficulty: d };
+      }
+    }
+    return null;
+  };
+
+  // --- Edits ---
+  const moveTarget = (target: DragTarget, wx: number, wy: number) => {
+    const y = Math.round(wy);
+    const x = Math.round(wx);
+    switch (target.kind) {
+      case 'centerline': {
+        // A point can't pass its neighbours, the spline needs y strictly increasing
+        const points = trail.centerline;
+        const minY = target.index > 0 ? points[target.index - 1].y + 1 : -Infinity;
+        const maxY = target.index < points.length - 1 ? points[target.index + 1].y - 1 : Infinity;
+        const centerline = [...points];
+        centerline[target.index] = { x, y: Math.min(Math.max(y, minY), maxY) };
+        onChange({ ...trail, centerline });
+        break;
+      }
+      case 'obstacle': {
+        const obstacles = [...(trail.obstacles ?? [])];
+        obstacles[target.index] = { ...obstacles[target.index], x, y };
+        onChange({ ...trail, obstacles });
+        break;
+      }
+      case 'lodge': {
+        const lodgeY = Math.max(y, LODGE_CLEARANCE + 1);
+        onChange({ ...trail, lodge: { x, y: lodgeY }, length: lodgeY - LODGE_CLEARANCE });
+        break;
+      }
+      case 'yeti':
+        onChange({ ...trail, yetiStartDistance: { ...trail.yetiStartDistance, [target.difficulty]: Math.max(0, y) } });
+        break;
+    }
+  };
+
+  const paintWidth = (wy: number) => {
+    const y = Math.max(0, Math.round(wy / WIDTH_STEP) * WIDTH_STEP);
+    if (trail.width.some(w => w.y === y && w.width === brushWidth)) return;
+    onChange({ ...trail, width: upsertByY(trail.width, { y, width: brushWidth }) });
+  };
+
+  const erase = (sx: number, sy: number) => {
+    const target = findDragTarget(sx, sy);
+    if (target?.kind === 'obstacle') {
+      onChange({ ...trail, obstacles: (trail.obstacles ?? []).filter((_, i) => i !== target.index) });
+    } else if (target?.kind === 'centerline' && trail.centerline.length > 2) {
+      onChange({ ...trail, centerline: trail.centerline.filter((_, i) => i !== target.index) });
+    }
+  };
+
+  // --- Pointer Input ---
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const sx = e.nativeEvent.offsetX;
+    const sy = e.nativeEvent.offsetY;
+    const world = toWorld(sx, sy);
+
+    switch (tool) {
+      case 'SELECT':
+        dragRef.current = findDragTarget(sx, sy)
+          ?? { kind: 'pan', screenX: sx, screenY: sy, viewX: view.x, viewY: view.y };
+        break;
+      case 'POINT':
+        onChange({ ...trail, centerline: upsertByY(trail.centerline, { x: Math.round(world.x), y: Math.round(world.y) }) });
+        break;
+      case 'WIDTH':
+        dragRef.current = { kind: 'paint' };
+        paintWidth(world.y);
+        break;
+      case 'ERASE':
+        erase(sx, sy);
+        break;
+      default:
+        onChange({ ...trail, obstacles: [...(trail.obstacles ?? []), { type: tool, x: Math.round(world.x), y: Math.round(world.y) }] });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const sx = e.nativeEvent.offsetX;
+    const sy = e.nativeEvent.offsetY;
+
+    if (drag.kind === 'pan') {
+      setView(v => ({
+        ...v,
+        x: drag.viewX - (sx - drag.screenX) / v.zoom,
+        y: drag.viewY - (sy - drag.screenY) / v.zoom
+      }));
+      return;
+    }
+    const world = toWorld(sx, sy);
+    if (drag.kind === 'paint') paintWidth(world.y);
+    else moveTarget(drag, world.x, world.y);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Wheel scrolls down the mountain; shift or ctrl + wheel zooms around the cursor
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    if (e.shiftKey || e.ctrlKey) {
+      zoomBy(e.deltaY < 0 ? 1.2 : 1 / 1.2, e.nativeEvent.offsetY);
+    } else {
+      setView(v => ({ ...v, y: v.y + e.deltaY / v.zoom }));
+    }
+  };
+
+  // Zooms while keeping the world y under the anchor row fixed on screen
+  const zoomBy = (factor: number, anchorY = canvasSize.height / 2) => {
+    setView(v => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, v.zoom * factor));
+      const anchorWorldY = v.y + anchorY / v.zoom;
+      return { ...v, zoom, y: anchorWorldY - anchorY / zoom };
+    });
+  };
+
+  const setYetiDistance = (difficulty: Difficulty, value: string) => {
+    const distance = value.trim() === '' ? null : Math.max(0, Math.round(Number(value)) || 0);
+    onChange({ ...trail, yetiStartDistance: { ...trail.yetiStartDistance, [difficulty]: distance } });
+  };
+
+  const importTrail = async (file: File) => {
+    try {
+      const imported = await readTrailFile(file);
+      onChange({ ...imported, obstacles: imported.obstacles ?? [] });
+      setImportError(null);
+    } catch (e) {
+      setImportError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900">
+      <canvas
+        ref={canvasRef}
+        width={canvasSize.width}
+        height={canvasSize.height}
+        className="block w-full h-full touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onWheel={handleWheel}
+      />
+
+      <div className="absolute top-0 left-0 h-full w-72 overflow-y-auto bg-black/80 text-white p-4 space-y-4 font-mono text-xs">
+        <div className="flex justify-between items-center">
+          <h2 className="font-retro text-yellow-400 text-sm">COURSE EDITOR</h2>
+          <button onClick={onExit} className="text-slate-400 hover:text-white" title="Back to menu">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-slate-400">START FROM</label>
+          <select
+            value=""
+            onChange={(e) => {
+              const source = TRAILS.find(t => t.id === e.target.value);
+              if (source) onChange(createDraftFrom(source));
+            }}
+            className="w-full bg-slate-900 border border-slate-600 px-2 py-1"
+          >
+            <option value="">Copy a built-in trail...</option>
+            {TRAILS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          <label className="block text-slate-400">NAME</label>
+          <input
+            type="text"
+            value={trail.name}
+            onChange={(e) => onChange({ ...trail, name: e.target.value })}
+            className="w-full bg-slate-900 border border-slate-600 px-2 py-1 focus:border-yellow-400 outline-none"
+          />
+          <label className="block text-slate-400">ID</label>
+          <input
+            type="text"
+            value={trail.id}
+            onChange={(e) => onChange({ ...trail, id: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '') })}
+            className="w-full bg-slate-900 border border-slate-600 px-2 py-1 focus:border-yellow-400 outline-none"
+          />
+        </div>
+
+        <div>
+          <p className="text-slate-400 mb-2">TOOLS</p>
+          <div className="grid grid-cols-2 gap-1">
+            {TOOLS.map(t => (
+              <button
+                key={t.tool}
+                onClick={() => setTool(t.tool)}
+                className={`flex items-center gap-2 px-2 py-1 border-2 font-retro text-[10px] ${tool === t.tool ? 'bg-yellow-500 border-yellow-600 text-black' : 'bg-slate-800 border-slate-600 text-slate-300'}`}
+              >
+                {t.icon} {t.label}
+              </button>
+            ))}
+          </div>
+          {tool === 'WIDTH' && (
+            <label className="block mt-2 text-slate-400">
+              BRUSH WIDTH: <span className="text-white">{brushWidth}ft</span>
+              <input
+                type="range"
+                min={300}
+                max={1600}
+                step={50}
+                value={brushWidth}
+                onChange={(e) => setBrushWidth(Number(e.target.value))}
+                className="w-full accent-yellow-400"
+              />
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-slate-400">YETI WAKES AT (BLANK = NO YETI)</p>
+          {[Difficulty.EASY, Difficulty.HARD].map(d => (
+            <label key={d} className="flex items-center justify-between gap-2">
+              <span className={d === Difficulty.HARD ? 'text-red-300' : 'text-green-300'}>{d === Difficulty.HARD ? 'PRO' : 'EASY'}</span>
+              <input
+                type="number"
+                min={0}
+                step={250}
+                value={trail.yetiStartDistance[d] ?? ''}
+                onChange={(e) => setYetiDistance(d, e.target.value)}
+                className="w-28 bg-slate-900 border border-slate-600 px-2 py-1 text-right"
+              />
+            </label>
+          ))}
+          <p className="text-slate-500">Finish {trail.length}ft · drag the lodge to move it</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={() => zoomBy(1.5)} className="p-1 bg-slate-800 border-2 border-slate-600" title="Zoom in">
+            <ZoomIn size={16} />
+          </button>
+          <button onClick={() => zoomBy(1 / 1.5)} className="p-1 bg-slate-800 border-2 border-slate-600" title="Zoom out">
+            <ZoomOut size={16} />
+          </button>
+          <span className="text-slate-500">Wheel scrolls · Shift+wheel zooms</span>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="space-y-1 text-red-400">
+            {errors.map(error => <li key={error}>• {error}</li>)}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            {[Difficulty.EASY, Difficulty.HARD].map(d => (
+              <button
+                key={d}
+                onClick={() => onTestSki(trail, d)}
+                disabled={errors.length > 0}
+                className="flex-1 flex items-center justify-center gap-1 bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black border-2 border-yellow-600 py-2 font-retro text-[10px]"
+              >
+                <Play size={12} /> TEST {d === Difficulty.HARD ? 'PRO' : 'EASY'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => downloadTrail(trail)}
+            disabled={errors.length > 0}
+            className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 border-2 border-slate-500 py-2 font-retro text-[10px]"
+          >
+            <Download size={12} /> EXPORT JSON
+          </button>
+          <label className="w-full flex items-center justify-center gap-2 cursor-pointer bg-slate-700 hover:bg-slate-600 border-2 border-slate-500 py-2 font-retro text-[10px]">
+            <Upload size={12} /> IMPORT JSON
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importTrail(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {importError && <p className="text-red-400">{importError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
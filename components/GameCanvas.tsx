@@ -1,18 +1,95 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GameState, Player, Obstacle, ObstacleType, GameStats, LeaderboardEntry, Difficulty } from '../types';
-import { GAME_CONFIG, COLORS } from '../constants';
-import { getSkiCoachCommentary } from '../services/geminiService';
+import { GameState, Obstacle, ObstacleType, GameStats, LeaderboardEntry, Difficulty, GameMode, SkierSkin } from '../types';
+import { GAME_CONFIG, COLORS, PLAYER_TWO_SKIN, SKIER_SKINS, DEFAULT_SKIN } from '../constants';
+import { getSkiCoachCommentary } from '../services/coachService';
 import { audioService } from '../services/audioService';
-import { Play, RotateCcw, Trophy, ChevronLeft, ChevronRight, Flame, Volume2, VolumeX } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-// --- Game Logic Helpers ---
+import { Play, RotateCcw, Trophy, ChevronLeft, ChevronRight, Flame, Volume2, VolumeX, Film, Upload, Trash2, Ghost as GhostIcon, X, Pencil, Pause, Settings, BarChart3, Award, Globe, LineChart } from 'lucide-react';
+import { BoardKind, SubmitResult, loadLeaderboard, submitToLeaderboard, syncLeaderboardQueue, getQueuedCount, loadPlayerName, savePlayerName } from '../services/leaderboardService';
+import { randomSeed } from '../lib/random';
+import { TrailDefinition, getLodgePosition, isJumpObstacle } from '../engine/trail';
+import { Hitbox, getObstacleHitbox, getPlayerHitboxes, getYetiHitbox } from '../engine/collision';
+import { YetiBehavior, getYetiGap } from '../engine/yeti';
+import { SCORE_LABELS, ScoreKind } from '../engine/scoring';
+import { Gate, MISSED_GATE_PENALTY_MS } from '../engine/slalom';
+import { getSplitDelta } from '../engine/splits';
+import { DEFAULT_TRAIL, TRAILS, getTrail, isBuiltInTrail, registerCustomTrail } from '../trails';
+import { SimState, SimEvent, MPH_PER_SPEED, getElapsedTime, getRaceTime } from '../engine/simulation';
+import { RaceState, createRace, advanceRace, isRaceOver, getChasedSim, getStandings } from '../engine/race';
+import {
+  Lobby, LobbyPlayer, RemoteSkier, SkierState, OnlineStanding, NET_TICK_MS,
+  createRemoteSkier, addSnapshot, getRemoteFrame, getSkierState, getOnlineStandings
+} from '../engine/online';
+import { Replay, ReplayPlayback, createReplay, wasPaused, getReplayMode, recordInput, createPlayback, advancePlayback, seekPlayback, isPlaybackAtEnd } from '../engine/replay';
+import { Ghost, createGhost, getGhostFrame, getGhostDelta } from '../engine/ghost';
+import { analyzeRun } from '../engine/analysis';
+import { createTelemetry, recordTelemetry, packTelemetry } from '../engine/telemetry';
+import { SavedReplay, loadSavedReplays, saveReplay, deleteReplay, downloadReplay, readReplayFile, loadPersonalBest, updatePersonalBest } from '../services/replayService';
+import { createDraftFrom, loadTrailDraft, saveTrailDraft } from '../services/trailService';
+import { recordRun } from '../services/historyService';
+import { Achievement, RunProgress, createRunProgress, trackRunEvent, checkAchievements, loadSelectedSkin, saveSelectedSkin, syncAchievements } from '../services/achievementService';
+import { multiplayerService } from '../services/multiplayerService';
+import { ReplayControls } from './ReplayControls';
+import { LeaderboardTable } from './LeaderboardTable';
+import { ScoreBreakdownList } from './ScoreBreakdownList';
+import { SplitTable } from './SplitTable';
+import { RaceResults, RacerResult } from './RaceResults';
+import { LeaderboardScreen } from './LeaderboardScreen';
+import { StatsScreen } from './StatsScreen';
+import { AnalysisScreen } from './AnalysisScreen';
+import { AchievementsScreen } from './AchievementsScreen';
+import { AchievementToast } from './AchievementToast';
+import { LobbyScreen } from './LobbyScreen';
+import { OnlineStandings } from './OnlineStandings';
+import { CourseEditor } from './CourseEditor';
+import { SettingsScreen } from './SettingsScreen';
+import { InputAction, inputService, describeKey } from '../services/inputService';
+
+// A recorded run to race against as a ghost
+interface GhostSource {
+  label: string;
+  replay: Replay;
+}
+
+// An online race: everyone else in it, and when we last told them where we are
+interface OnlineRun {
+  self: LobbyPlayer;
+  remotes: RemoteSkier[];
+  lastSentAt: number | null; // Frame time, ms
+}
+
+// The yeti warning (arrow and heartbeat) kicks in inside this gap
+const YETI_WARNING_GAP = 700;
+
+// Points text that floats up from where it was earned
+interface ScorePopup {
+  text: string;
+  color: string;
+  x: number; // World position
+  y: number;
+  createdAt: number; // Date.now()
+}
+
+// How long the split time stays up after passing a checkpoint
+const SPLIT_DISPLAY_MS = 4000;
+
+// How long each achievement toast stays up; several queue one after another
+const TOAST_MS = 4000;
+
+const POPUP_MS = 1000;
+const POPUP_RISE = 40;
+
+const BOARD_TITLES: Record<BoardKind, string> = {
+  fastest: 'FASTEST FINISHES',
+  furthest: 'FURTHEST CRASHES',
+  score: 'HIGH SCORES',
+  slalom: 'SLALOM TIMES'
+};
 
-// The "Nile Mile" Switchback curve function
-// z is distance in meters (pixels in game coordinates)
-const getTrackOffset = (z: number): number => {
-  // Broad, sweeping turns for the "Nile Mile"
-  return Math.sin(z * 0.0015) * 600;
+const POPUP_COLORS: Record<ScoreKind, string> = {
+  NEAR_MISS: '#f59e0b',
+  GAP: '#8b5cf6',
+  SPEED: '#0ea5e9',
+  YETI_ESCAPE: '#10b981'
 };
 
 export const GameCanvas: React.FC = () => {
@@ -22,221 +99,374 @@ export const GameCanvas: React.FC = () => {
   // React State for UI Overlay
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.HARD);
+  const [mode, setMode] = useState<GameMode>(GameMode.FREERIDE);
+  const [players, setPlayers] = useState(1); // 2 for split screen
+  const [trailId, setTrailId] = useState<string>(DEFAULT_TRAIL.id);
   const [countdown, setCountdown] = useState(3);
   const [stats, setStats] = useState<GameStats>({ score: 0, distance: 0, topSpeed: 0, causeOfDeath: null });
   const [coachComment, setCoachComment] = useState<string>("");
   const [isLoadingCoach, setIsLoadingCoach] = useState(false);
+  // Bumped per review, so a slow reply for an earlier run is dropped
+  const coachRequestRef = useRef(0);
   const [isMuted, setIsMuted] = useState(false);
 
   // Leaderboard State
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
-  const [playerName, setPlayerName] = useState("");
+  const [playerName, setPlayerName] = useState(loadPlayerName);
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submittedEntryId, setSubmittedEntryId] = useState<string | null>(null);
+  const [submitQueued, setSubmitQueued] = useState(false);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [resultBoard, setResultBoard] = useState<{ trailId: string; difficulty: Difficulty; board: BoardKind }>({
+    trailId: DEFAULT_TRAIL.id, difficulty: Difficulty.HARD, board: 'fastest'
+  });
+  const [scoreBoard, setScoreBoard] = useState<LeaderboardEntry[]>([]);
+
+  // Replay State
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [savedReplays, setSavedReplays] = useState<SavedReplay[]>([]);
+  const [showReplays, setShowReplays] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [replayTick, setReplayTick] = useState(0);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayIsSaved, setReplayIsSaved] = useState(false);
+  const [replayReturnState, setReplayReturnState] = useState<GameState>(GameState.MENU);
+  const replayRef = useRef<ReplayPlayback | null>(null);
+
+  // Analysis State
+  const [lastRunId, setLastRunId] = useState<string | null>(null); // Player 1's latest run in the history
+  const [analysisRunId, setAnalysisRunId] = useState<string | null>(null);
+  const [analysisReturnState, setAnalysisReturnState] = useState<GameState>(GameState.MENU);
+
+  // Debug State (read by the draw loop, so a ref rather than state)
+  const showHitboxesRef = useRef(false);
+  // When the last yeti heartbeat played (frame time, ms)
+  const yetiCueRef = useRef(0);
+  const scorePopupsRef = useRef<ScorePopup[]>([]);
+
+  // Achievement State
+  const runProgressRef = useRef<RunProgress>(createRunProgress(DEFAULT_TRAIL.id, Difficulty.HARD, GameMode.FREERIDE));
+  const [toasts, setToasts] = useState<Achievement[]>([]);
+  const [skin, setSkin] = useState<SkierSkin>(loadSelectedSkin);
+  const skinRef = useRef(skin); // Read by the draw loop
+
+  // Split Screen State
+  const [raceResults, setRaceResults] = useState<{ racers: RacerResult[]; standings: number[] } | null>(null);
+
+  // Online State
+  const [lobby, setLobby] = useState<Lobby | null>(null);
+  const [lobbyNotice, setLobbyNotice] = useState<string | null>(null);
+
+  // Ghost State
+  const [racePersonalBest, setRacePersonalBest] = useState(false);
+  const [raceTarget, setRaceTarget] = useState<GhostSource | null>(null);
+  const [isNewBest, setIsNewBest] = useState(false);
+
+  // Editor State
+  const [editorTrail, setEditorTrail] = useState<TrailDefinition>(() => loadTrailDraft() ?? createDraftFrom(DEFAULT_TRAIL));
+
+  const selectedTrail = getTrail(trailId) ?? DEFAULT_TRAIL;
+  // Editor trails only exist in this browser, so the verifier can't check runs on them
+  const isCustomTrail = !isBuiltInTrail(selectedTrail.id);
+  const menuTrails = isCustomTrail ? [...TRAILS, selectedTrail] : TRAILS;
+  const isPausedProRun = lastReplay !== null && lastReplay.difficulty === Difficulty.HARD && wasPaused(lastReplay);
 
   // Mutable Game State (Refs for performance to avoid React re-renders during loop)
   const stateRef = useRef({
-    player: { x: 0, y: 0, speed: 0, direction: 0, state: 'skiing' } as Player,
-    obstacles: [] as Obstacle[],
-    lastObstacleY: 0,
-    keys: { left: false, right: false, down: false },
-    startTime: 0,
-    yeti: { active: false, x: 0, y: -1000, speed: 0 },
-    finished: false,
-    topSpeed: 0
+    race: createRace(0, Difficulty.HARD, DEFAULT_TRAIL, GameMode.FREERIDE),
+    inputLogs: [[]] as number[][], // One per skier, in seat order
+    ghost: null as Ghost | null,
+    bestSplits: null as number[] | null, // Splits of the personal best on this course, if it has them
+    pauses: [] as number[],
+    online: null as OnlineRun | null,
+    telemetry: createTelemetry(), // Player 1's run, tick by tick
+    lastFrameTime: null as number | null
   });
 
-  // Load Leaderboard on mount
+  // Result screens show the board the run just landed on: finishes race the
+  // clock, crashes compete on distance. Either way the run also has a score.
+  const refreshLeaderboard = useCallback(async () => {
+    const [board, scores] = await Promise.all([
+      loadLeaderboard(resultBoard.trailId, resultBoard.difficulty, resultBoard.board),
+      loadLeaderboard(resultBoard.trailId, resultBoard.difficulty, 'score')
+    ]);
+    setLeaderboard(board);
+    setScoreBoard(scores);
+  }, [resultBoard]);
+
   useEffect(() => {
-    const loadLeaderboard = async () => {
-      if (supabase) {
-        // Load from Supabase
-        const { data, error } = await supabase
-          .from('leaderboard')
-          .select('*')
-          .order('time', { ascending: true })
-          .limit(10);
-
-        if (error) {
-          console.error('Error loading leaderboard:', error);
-        } else if (data) {
-          setLeaderboard(data.map(entry => ({
-            name: entry.name,
-            time: entry.time,
-            date: new Date(entry.created_at).toLocaleDateString(),
-            difficulty: entry.difficulty
-          })));
-        }
-      } else {
-        // Fallback to localStorage
-        const saved = localStorage.getItem('nileMileLeaderboard');
-        if (saved) {
-          try {
-            setLeaderboard(JSON.parse(saved));
-          } catch (e) {
-            console.error("Failed to load leaderboard");
-          }
-        }
+    refreshLeaderboard();
+  }, [refreshLeaderboard]);
+
+  // Push runs that were queued while offline on load and whenever we reconnect
+  useEffect(() => {
+    const sync = async () => {
+      if (getQueuedCount() === 0) return;
+      const report = await syncLeaderboardQueue();
+      if (report.rejected.length > 0) {
+        setSyncNotice(report.rejected.map(r => `${r.name}'s queued run was rejected: ${r.reason}`).join(' '));
       }
+      if (report.synced > 0 || report.rejected.length > 0) refreshLeaderboard();
     };
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [refreshLeaderboard]);
 
-    loadLeaderboard();
+  useEffect(() => {
+    setSavedReplays(loadSavedReplays());
   }, []);
 
-  const saveToLeaderboard = async () => {
-    if (!playerName.trim() || hasSubmitted) return;
-
-    const newEntry: LeaderboardEntry = {
-      name: playerName.trim().substring(0, 10),
-      time: stats.time || 0,
-      date: new Date().toLocaleDateString(),
-      difficulty: difficulty === Difficulty.HARD ? 'HARD' : 'EASY',
-      distance: Math.floor(stats.distance || 0)
-    };
+  useEffect(() => {
+    saveTrailDraft(editorTrail);
+  }, [editorTrail]);
 
-    if (supabase) {
-      // Save to Supabase
-      const { error, data } = await supabase
-        .from('leaderboard')
-        .insert({
-          name: newEntry.name,
-          time: newEntry.time,
-          difficulty: newEntry.difficulty,
-          distance: newEntry.distance
-        });
+  useEffect(() => {
+    if (toasts.length === 0) return;
+    const timer = setTimeout(() => setToasts(queue => queue.slice(1)), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toasts]);
+
+  const selectSkin = (selected: SkierSkin) => {
+    skinRef.current = selected;
+    setSkin(selected);
+    saveSelectedSkin(selected);
+  };
 
-      if (error) {
-        console.error('Error saving to Supabase leaderboard:', error);
-        // Fallback to localStorage on error
-        const newBoard = [...leaderboard, newEntry]
-          .sort((a, b) => a.time - b.time)
-          .slice(0, 10);
-        setLeaderboard(newBoard);
-        localStorage.setItem('nileMileLeaderboard', JSON.stringify(newBoard));
-      } else {
-        console.log('Successfully saved to Supabase leaderboard');
-        // Reload leaderboard from Supabase
-        const { data: freshData, error: fetchError } = await supabase
-          .from('leaderboard')
-          .select('*')
-          .order('time', { ascending: true })
-          .limit(10);
-        if (fetchError) {
-          console.error('Error fetching leaderboard after insert:', fetchError);
-        } else if (freshData) {
-          setLeaderboard(freshData.map(entry => ({
-            name: entry.name,
-            time: entry.time,
-            date: new Date(entry.created_at).toLocaleDateString(),
-            difficulty: entry.difficulty
-          })));
-        }
-      }
-    } else {
-      // Fallback to localStorage
-      const newBoard = [...leaderboard, newEntry]
-        .sort((a, b) => a.time - b.time)
-        .slice(0, 10);
-      setLeaderboard(newBoard);
-      localStorage.setItem('nileMileLeaderboard', JSON.stringify(newBoard));
+  const saveToLeaderboard = async () => {
+    if (!playerName.trim() || hasSubmitted || isSubmitting || !lastReplay) return;
+
+    const [sim] = stateRef.current.race.sims;
+    const name = playerName.trim().substring(0, 10);
+    // The verifier re-simulates the replay and stores the run if it checks out
+    setIsSubmitting(true);
+    setSubmitError(null);
+    let result: SubmitResult;
+    try {
+      result = await submitToLeaderboard({
+        name,
+        trail: sim.trail.id,
+        difficulty: sim.difficulty,
+        time: stats.time || 0,
+        distance: Math.floor(stats.distance || 0),
+        score: stats.score,
+        seed: sim.seed,
+        replay: lastReplay
+      });
+    } catch (e) {
+      // Storage full or the database refused the insert; the run can be tried again
+      console.error('Leaderboard submission failed:', e);
+      setSubmitError((e as Error).message);
+      return;
+    } finally {
+      setIsSubmitting(false);
     }
 
+    if (result.status === 'rejected') {
+      console.warn('Leaderboard submission rejected:', result.reason);
+      setSubmitError(result.reason);
+      return;
+    }
+
+    savePlayerName(name);
+    syncAchievements(name);
+    setSubmittedEntryId(result.entry.id ?? null);
+    setSubmitQueued(result.status === 'queued');
     setHasSubmitted(true);
+    await refreshLeaderboard();
   };
 
-  const generateObstacles = useCallback((startY: number, endY: number) => {
-    const { lastObstacleY } = stateRef.current;
+  // Racing a ghost puts you on the ghost's course: same trail, seed, difficulty and mode.
+  // Split-screen races have more than one skier and no ghost. Online races
+  // use the seed the server dealt and draw everyone else in the lobby.
+  const beginRun = useCallback((
+    runTrail: TrailDefinition, runDifficulty: Difficulty, runMode: GameMode, ghostSource: GhostSource | null, racers: number = 1,
+    online: { seed: number; self: LobbyPlayer; others: LobbyPlayer[] } | null = null
+  ) => {
+    const ghostTrail = ghostSource ? getTrail(ghostSource.replay.trailId) : null;
+    const trail = ghostTrail ?? runTrail;
+    const seed = online ? online.seed : ghostSource && ghostTrail ? ghostSource.replay.seed : randomSeed();
+    stateRef.current = {
+      race: createRace(seed, runDifficulty, trail, runMode, racers),
+      inputLogs: Array.from({ length: racers }, () => []),
+      ghost: ghostSource && ghostTrail ? createGhost(ghostSource.replay, ghostSource.label, ghostTrail) : null,
+      bestSplits: loadPersonalBest(trail.id, runDifficulty, runMode)?.result.splits ?? null,
+      pauses: [],
+      online: online ? { self: online.self, remotes: online.others.map(createRemoteSkier), lastSentAt: null } : null,
+      telemetry: createTelemetry(),
+      lastFrameTime: null
+    };
+    runProgressRef.current = createRunProgress(trail.id, runDifficulty, runMode);
 
-    // Stop generating obstacles near the finish line (Lodge area)
-    const MAX_GEN_Y = GAME_CONFIG.TRACK_LENGTH - 300;
+    setStats({ score: 0, distance: 0, topSpeed: 0, causeOfDeath: null });
+    scorePopupsRef.current = [];
+    coachRequestRef.current++;
+    setCoachComment("");
+    setIsLoadingCoach(false);
+    setHasSubmitted(false);
+    setSubmitError(null);
+    setSubmittedEntryId(null);
+    setSubmitQueued(false);
+    setLastReplay(null);
+    setLastRunId(null);
+    setRaceResults(null);
+    setIsNewBest(false);
+    setCountdown(3);
+    setGameState(GameState.COUNTDOWN);
+  }, []);
 
-    let currentY = Math.max(startY, lastObstacleY + 40);
+  const startGame = useCallback(() => {
+    // Online, the host starts the next race from the lobby
+    if (lobby) {
+      setGameState(GameState.LOBBY);
+      return;
+    }
+    if (players > 1) {
+      beginRun(selectedTrail, difficulty, mode, null, players);
+      return;
+    }
+    const personalBest = racePersonalBest ? loadPersonalBest(selectedTrail.id, difficulty, mode) : null;
+    const source = raceTarget ?? (personalBest && { label: 'PB', replay: personalBest });
+    beginRun(selectedTrail, source ? source.replay.difficulty : difficulty, source ? getReplayMode(source.replay) : mode, source);
+  }, [selectedTrail, difficulty, mode, players, racePersonalBest, raceTarget, lobby, beginRun]);
+
+  const raceGhost = (label: string, replay: Replay) => {
+    const source = { label, replay };
+    setRaceTarget(source);
+    setDifficulty(replay.difficulty);
+    setMode(getReplayMode(replay));
+    setTrailId(replay.trailId);
+    beginRun(selectedTrail, replay.difficulty, getReplayMode(replay), source);
+  };
 
-    while (currentY < endY) {
-      if (currentY > MAX_GEN_Y) break;
+  // --- Online Races ---
+  // The server deals the seed and starts everyone's countdown at once. Each
+  // skier runs their own simulation, so an online run is a solo run with the
+  // rest of the lobby drawn over it.
+  useEffect(() => multiplayerService.subscribe(event => {
+    switch (event.type) {
+      case 'LOBBY':
+        setLobby(event.lobby);
+        break;
+      case 'COUNTDOWN': {
+        const trail = getTrail(event.settings.trailId);
+        const selfId = multiplayerService.getId();
+        const self = event.racers.find(racer => racer.id === selfId);
+        if (!trail || !self) return;
+        setTrailId(trail.id);
+        setDifficulty(event.settings.difficulty);
+        setMode(event.settings.mode);
+        setRaceTarget(null);
+        setLobbyNotice(null);
+        beginRun(trail, event.settings.difficulty, event.settings.mode, null, 1, {
+          seed: event.seed,
+          self,
+          others: event.racers.filter(racer => racer !== self)
+        });
+        break;
+      }
+      case 'STATE': {
+        const remote = stateRef.current.online?.remotes.find(r => r.id === event.id);
+        if (remote) addSnapshot(remote, event.state, performance.now());
+        break;
+      }
+      case 'ERROR':
+        setLobbyNotice(event.reason);
+        break;
+      case 'DISCONNECTED':
+        // A run in progress carries on; the others just stop moving
+        setLobby(null);
+        setLobbyNotice(event.reason);
+        break;
+    }
+  }), [beginRun]);
 
-      // Determine track bounds at this Y
-      const trackCenter = getTrackOffset(currentY);
-      const halfWidth = GAME_CONFIG.TRACK_WIDTH / 2;
-      const leftBoundary = trackCenter - halfWidth;
-      const rightBoundary = trackCenter + halfWidth;
+  // Leaving for the main menu leaves the lobby too
+  useEffect(() => {
+    if (gameState === GameState.MENU) multiplayerService.disconnect();
+  }, [gameState]);
 
-      // --- Left Tree Line (The Forest) ---
-      stateRef.current.obstacles.push({
-        id: Math.random(),
-        x: leftBoundary - 20 - Math.random() * 60,
-        y: currentY,
-        type: ObstacleType.TREE,
-        width: 60 + Math.random() * 30,
-        height: 90 + Math.random() * 50,
-      });
-      stateRef.current.obstacles.push({
-        id: Math.random(),
-        x: leftBoundary - 100 - Math.random() * 200,
-        y: currentY + Math.random() * 20,
-        type: ObstacleType.TREE,
-        width: 50,
-        height: 80,
-      });
+  const openLobby = () => {
+    setLobbyNotice(null);
+    setGameState(GameState.LOBBY);
+  };
 
-      // --- Right Tree Line (The Forest) ---
-      stateRef.current.obstacles.push({
-        id: Math.random(),
-        x: rightBoundary + 20 + Math.random() * 60,
-        y: currentY,
-        type: ObstacleType.TREE,
-        width: 60 + Math.random() * 30,
-        height: 90 + Math.random() * 50,
-      });
-      stateRef.current.obstacles.push({
-        id: Math.random(),
-        x: rightBoundary + 100 + Math.random() * 200,
-        y: currentY + Math.random() * 20,
-        type: ObstacleType.TREE,
-        width: 50,
-        height: 80,
-      });
+  // Everyone in the online race, from first to last
+  const getLiveStandings = (): OnlineStanding[] => {
+    const { race: { sims: [sim] }, online } = stateRef.current;
+    if (!online) return [];
+    return getOnlineStandings({ id: null, name: online.self.name, skin: online.self.skin, state: getSkierState(sim) }, online.remotes);
+  };
 
-      // --- On-Track Obstacles (Nile Mile Hazards) ---
-      // Only in HARD mode
-      if (difficulty === Difficulty.HARD && Math.random() < 0.15) {
-        const lane = (Math.random() - 0.5) * 0.9;
-        stateRef.current.obstacles.push({
-          id: Math.random(),
-          x: trackCenter + lane * GAME_CONFIG.TRACK_WIDTH,
-          y: currentY,
-          type: Math.random() > 0.6 ? ObstacleType.ROCK : ObstacleType.STUMP,
-          width: 30,
-          height: 30,
-        });
-      }
+  // Ski the editor's trail as it stands; results stay local
+  const testSki = (trail: TrailDefinition, runDifficulty: Difficulty) => {
+    registerCustomTrail(trail);
+    setTrailId(trail.id);
+    setDifficulty(runDifficulty);
+    setRaceTarget(null);
+    beginRun(trail, runDifficulty, mode, null);
+  };
 
-      currentY += 35; // Tighter spacing for tree walls
-      stateRef.current.lastObstacleY = currentY; // Update progress loop
-    }
-  }, [difficulty]);
+  const describeKeys = (keys: string[]) => keys.map(describeKey).join(' ').toUpperCase() || 'UNBOUND';
 
-  const startGame = useCallback(() => {
-    stateRef.current = {
-      player: { x: 0, y: 0, speed: 0, direction: 0, state: 'skiing' },
-      obstacles: [],
-      lastObstacleY: 0,
-      keys: { left: false, right: false, down: false },
-      startTime: Date.now(),
-      yeti: { active: false, x: 0, y: -1000, speed: 0 },
-      finished: false,
-      topSpeed: 0
-    };
+  const steerKeys = (action: InputAction) => describeKeys(inputService.getBindings().keyboard[action]);
 
-    // Seed initial obstacles
-    generateObstacles(0, GAME_CONFIG.VIEW_DISTANCE);
+  const seatKeys = (seat: number) => {
+    const keys = inputService.getBindings().seats[seat];
+    return `${describeKeys(keys.LEFT)} / ${describeKeys(keys.RIGHT)} STEER, ${describeKeys(keys.DOWN)} TUCK`;
+  };
 
-    setStats({ score: 0, distance: 0, topSpeed: 0, causeOfDeath: null });
-    setCoachComment("");
-    setHasSubmitted(false);
-    setPlayerName("");
+  const openEditor = () => {
+    setGameState(GameState.EDITOR);
+  };
+
+  // --- Pause ---
+  // The run clock is tick-based, so paused time never counts. Pauses are
+  // logged on the replay so the leaderboard can flag them.
+  const pauseGame = useCallback(() => {
+    if (gameState !== GameState.PLAYING && gameState !== GameState.COUNTDOWN) return;
+    const { race, pauses, online } = stateRef.current;
+    // The rest of the lobby won't wait
+    if (online) return;
+    // Ticks of whoever has skied longest; each skier's replay clamps them to its own length
+    if (gameState === GameState.PLAYING) pauses.push(Math.max(...race.sims.map(sim => sim.tick)));
+    audioService.suspend();
+    setGameState(GameState.PAUSED);
+  }, [gameState]);
+
+  // Resuming counts back in so nobody restarts mid-turn by surprise
+  const resumeGame = useCallback(() => {
+    audioService.resume();
     setCountdown(3);
     setGameState(GameState.COUNTDOWN);
-  }, [generateObstacles]);
+  }, []);
+
+  const restartFromPause = () => {
+    audioService.resume();
+    startGame();
+  };
+
+  const quitFromPause = async () => {
+    await audioService.resume();
+    setGameState(GameState.MENU);
+    audioService.playMenuTheme();
+  };
+
+  // Auto-pause when the tab is hidden or the window loses focus
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pauseGame);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pauseGame);
+    };
+  }, [pauseGame]);
 
   // Countdown Logic
   useEffect(() => {
@@ -246,186 +476,331 @@ export const GameCanvas: React.FC = () => {
         return () => clearTimeout(timer);
       } else {
         setGameState(GameState.PLAYING);
-        stateRef.current.startTime = Date.now();
       }
     }
   }, [gameState, countdown]);
 
   // --- Input Handling ---
+  // Steering is read from inputService every tick; START and PAUSE arrive
+  // here as actions from whichever keyboard key or gamepad button is bound
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowLeft' || e.key === 'a') stateRef.current.keys.left = true;
-      if (e.key === 'ArrowRight' || e.key === 'd') stateRef.current.keys.right = true;
-      if (e.key === 'ArrowDown' || e.key === 's') stateRef.current.keys.down = true;
-    };
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowLeft' || e.key === 'a') stateRef.current.keys.left = false;
-      if (e.key === 'ArrowRight' || e.key === 'd') stateRef.current.keys.right = false;
-      if (e.key === 'ArrowDown' || e.key === 's') stateRef.current.keys.down = false;
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, []);
+    const handleAction = (action: InputAction) => {
+      if (gameState === GameState.REPLAY) return; // Replay has its own keys below
 
-  // Handle Enter and ESC keys
-  useEffect(() => {
-    const handleGlobalKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Enter') {
-        if (gameState === GameState.MENU || gameState === GameState.GAME_OVER || gameState === GameState.VICTORY) {
+      if (action === 'START') {
+        if (gameState === GameState.MENU || gameState === GameState.GAME_OVER || gameState === GameState.VICTORY || gameState === GameState.RACE_OVER) {
           startGame();
+        } else if (gameState === GameState.PAUSED) {
+          resumeGame();
         }
+        return;
       }
-      if (e.key === 'Escape') {
-        // Return to menu from any state
+
+      if (gameState === GameState.PLAYING || gameState === GameState.COUNTDOWN) {
+        pauseGame();
+      } else if (gameState === GameState.PAUSED) {
+        resumeGame();
+      } else if (gameState === GameState.ANALYSIS) {
+        // Back to the result screen or stats it was opened from
+        setGameState(analysisReturnState);
+      } else if (gameState !== GameState.MENU) {
+        // Back out to the menu from any other screen
         setGameState(GameState.MENU);
         audioService.playMenuTheme();
       }
     };
-    window.addEventListener('keydown', handleGlobalKeyDown);
-    return () => window.removeEventListener('keydown', handleGlobalKeyDown);
-  }, [gameState, startGame]);
+    return inputService.subscribe(handleAction);
+  }, [gameState, analysisReturnState, startGame, pauseGame, resumeGame]);
 
-  const gameOver = async (cause: string) => {
-    audioService.playGameOver();
-    setGameState(GameState.GAME_OVER);
-    const finalStats = {
-      score: Math.floor(stateRef.current.player.y),
-      distance: stateRef.current.player.y,
-      topSpeed: stateRef.current.topSpeed,
-      causeOfDeath: cause,
-      time: Date.now() - stateRef.current.startTime
+  // Debug overlay: F2 outlines every hitbox
+  useEffect(() => {
+    const handleDebugKey = (e: KeyboardEvent) => {
+      if (e.key !== 'F2') return;
+      e.preventDefault();
+      showHitboxesRef.current = !showHitboxesRef.current;
     };
-    setStats(finalStats);
+    window.addEventListener('keydown', handleDebugKey);
+    return () => window.removeEventListener('keydown', handleDebugKey);
+  }, []);
+
+  // Replay transport keys
+  useEffect(() => {
+    if (gameState !== GameState.REPLAY) return;
+    const handleReplayKeyDown = (e: KeyboardEvent) => {
+      if (e.key === ' ') toggleReplayPause();
+      if (e.key === 'Escape') exitReplay();
+    };
+    window.addEventListener('keydown', handleReplayKeyDown);
+    return () => window.removeEventListener('keydown', handleReplayKeyDown);
+  }, [gameState, replayReturnState]);
+
+  // --- Replay Playback ---
+  const watchReplay = (replay: Replay, isSaved: boolean) => {
+    const trail = getTrail(replay.trailId);
+    if (!trail) {
+      setReplayError(`Replay is on an unknown trail: ${replay.trailId}`);
+      return;
+    }
+    replayRef.current = createPlayback(replay, trail);
+    setReplayTick(0);
+    setReplayPaused(false);
+    setReplaySpeed(1);
+    setReplayIsSaved(isSaved);
+    setReplayError(null);
+    setReplayReturnState(gameState);
+    setGameState(GameState.REPLAY);
+  };
+
+  // --- Telemetry Analysis ---
+  const openAnalysis = (runId: string | null) => {
+    setAnalysisRunId(runId);
+    setAnalysisReturnState(gameState);
+    setGameState(GameState.ANALYSIS);
+  };
+
+  const exitReplay = () => {
+    replayRef.current = null;
+    setGameState(replayReturnState);
+    if (replayReturnState === GameState.MENU) {
+      audioService.playMenuTheme();
+    }
+  };
+
+  const toggleReplayPause = () => {
+    const playback = replayRef.current;
+    if (!playback) return;
+    // Restart from the top if playback already ran out
+    if (playback.paused && isPlaybackAtEnd(playback)) {
+      seekPlayback(playback, 0);
+    }
+    playback.paused = !playback.paused;
+    setReplayPaused(playback.paused);
+  };
+
+  const seekReplay = (tick: number) => {
+    const playback = replayRef.current;
+    if (!playback) return;
+    seekPlayback(playback, tick);
+    setReplayTick(playback.sim.tick);
+  };
+
+  const changeReplaySpeed = (speed: number) => {
+    if (replayRef.current) replayRef.current.speed = speed;
+    setReplaySpeed(speed);
+  };
+
+  const saveCurrentReplay = () => {
+    if (!replayRef.current) return;
+    setSavedReplays(saveReplay(replayRef.current.replay));
+    setReplayIsSaved(true);
+  };
+
+  const loadReplayFile = async (file: File) => {
+    try {
+      watchReplay(await readReplayFile(file), false);
+    } catch (e) {
+      setReplayError((e as Error).message);
+    }
+  };
 
+  const gateStats = ({ slalom }: SimState): Partial<GameStats> => slalom ? {
+    gatesCleared: slalom.cleared,
+    gatesMissed: slalom.missed,
+    gatePenalty: slalom.missed * MISSED_GATE_PENALTY_MS
+  } : {};
+
+  const getFinalStats = (sim: SimState): GameStats => ({
+    score: sim.score.total,
+    breakdown: { ...sim.score.breakdown },
+    distance: sim.player.y,
+    topSpeed: sim.topSpeed,
+    causeOfDeath: sim.causeOfDeath,
+    time: getRaceTime(sim),
+    splits: [...sim.splits],
+    ...gateStats(sim)
+  });
+
+  // Chuck reviews the run from its replay, win or lose
+  const coachRun = async (finalStats: GameStats, replay: Replay, trail: TrailDefinition) => {
+    const request = ++coachRequestRef.current;
     setIsLoadingCoach(true);
-    const comment = await getSkiCoachCommentary(finalStats);
+    const comment = await getSkiCoachCommentary(finalStats, analyzeRun(replay, trail), {
+      trailName: trail.name, difficulty: replay.difficulty, mode: getReplayMode(replay)
+    });
+    if (request !== coachRequestRef.current) return;
     setCoachComment(comment);
     setIsLoadingCoach(false);
   };
 
+  const gameOver = () => {
+    audioService.playGameOver();
+    setGameState(GameState.GAME_OVER);
+    const { race: { sims: [sim] }, inputLogs: [inputLog], pauses, telemetry } = stateRef.current;
+    setResultBoard({ trailId: sim.trail.id, difficulty: sim.difficulty, board: sim.slalom ? 'slalom' : 'furthest' });
+    const replay = createReplay(sim, inputLog, pauses);
+    setLastReplay(replay);
+    const finalStats = getFinalStats(sim);
+    setStats(finalStats);
+    setLastRunId(recordRun({
+      trailId: sim.trail.id, difficulty: sim.difficulty, mode: sim.mode, stats: finalStats, telemetry: packTelemetry(telemetry)
+    }).id);
+    coachRun(finalStats, replay, sim.trail);
+  };
+
   const finishGame = () => {
     audioService.playVictory();
     setGameState(GameState.VICTORY);
-    const finalTime = Date.now() - stateRef.current.startTime;
-    const finalStats = {
-      score: Math.floor(stateRef.current.player.y),
-      distance: stateRef.current.player.y,
-      topSpeed: stateRef.current.topSpeed,
-      causeOfDeath: null,
-      time: finalTime
-    };
+    const { race: { sims: [sim] }, inputLogs: [inputLog], pauses, telemetry } = stateRef.current;
+    setResultBoard({ trailId: sim.trail.id, difficulty: sim.difficulty, board: sim.slalom ? 'slalom' : 'fastest' });
+    const replay = createReplay(sim, inputLog, pauses);
+    setLastReplay(replay);
+    setIsNewBest(updatePersonalBest(replay));
+    const finalStats = getFinalStats(sim);
     setStats(finalStats);
+    setLastRunId(recordRun({
+      trailId: sim.trail.id, difficulty: sim.difficulty, mode: sim.mode, stats: finalStats, telemetry: packTelemetry(telemetry)
+    }).id);
+    coachRun(finalStats, replay, sim.trail);
   };
 
-  const update = () => {
-    if (gameState !== GameState.PLAYING) return;
+  // Split screen ends once every skier has crashed or finished. Each run gets
+  // its own replay, carrying the others' input so the shared yeti reproduces.
+  // Player 1's run goes into this browser's history like a solo run.
+  const endRace = () => {
+    const { race, inputLogs, pauses, telemetry } = stateRef.current;
+    if (race.sims.some(sim => sim.status === 'finished')) audioService.playVictory();
+    else audioService.playGameOver();
+
+    const racers = race.sims.map((sim, seat): RacerResult => ({
+      label: `P${seat + 1}`,
+      color: seatSkin(seat).suit,
+      stats: getFinalStats(sim),
+      replay: createReplay(
+        sim,
+        inputLogs[seat],
+        pauses.map(tick => Math.min(tick, sim.tick)),
+        { seat, rivals: inputLogs.filter((_, i) => i !== seat) }
+      )
+    }));
+    setRaceResults({ racers, standings: getStandings(race) });
+    setLastRunId(recordRun({
+      trailId: race.sims[0].trail.id, difficulty: race.sims[0].difficulty, mode: race.sims[0].mode,
+      stats: racers[0].stats, telemetry: packTelemetry(telemetry)
+    }).id);
+    setGameState(GameState.RACE_OVER);
+  };
 
-    const state = stateRef.current;
-    const { player, keys } = state;
+  // Player 1 skis in their chosen colors, player 2 in fixed ones
+  const seatSkin = (seat: number): SkierSkin => (seat === 0 ? skinRef.current : PLAYER_TWO_SKIN);
 
-    // --- Win Condition ---
-    if (player.y >= GAME_CONFIG.TRACK_LENGTH) {
-      // Decelerate in the pub zone
-      state.finished = true;
-      player.speed *= 0.85;
+  const addPopup = (text: string, color: string, x: number, y: number) => {
+    scorePopupsRef.current.push({ text, color, x, y, createdAt: Date.now() });
+  };
 
-      if (player.speed < 1.5) {
-        player.speed = 0;
-        finishGame();
+  const handleSimEvent = (event: SimEvent, seat: number) => {
+    const { race } = stateRef.current;
+    const sim = race.sims[seat];
+    switch (event.type) {
+      case 'SCORE':
+        addPopup(`+${event.award.points} ${SCORE_LABELS[event.award.kind]}`, POPUP_COLORS[event.award.kind], event.award.x, event.award.y);
+        break;
+      case 'GATE': {
+        const { gate } = event;
+        if (gate.result === 'cleared') {
+          audioService.playGate();
+          addPopup(`GATE ${gate.number}`, '#10b981', gate.x, gate.y);
+        } else {
+          // PRO runs end here, EASY ones take the penalty
+          const penalty = sim.difficulty === Difficulty.HARD ? '' : ` +${MISSED_GATE_PENALTY_MS / 1000}s`;
+          audioService.playGateMiss();
+          addPopup(`MISSED${penalty}`, '#ef4444', gate.x, gate.y);
+        }
+        break;
       }
-      player.x += player.direction * GAME_CONFIG.BASE_SPEED * 0.5;
-      player.y += player.speed;
-      return;
+      case 'COMBO_BREAK': {
+        addPopup('COMBO BROKEN', '#ef4444', sim.player.x, sim.player.y);
+        break;
+      }
+      case 'YETI_SPAWN':
+        audioService.playYetiChase();
+        break;
+      case 'YETI_LUNGE':
+        audioService.playYetiRoar();
+        break;
+      case 'JUMP':
+        audioService.playJump();
+        break;
+      case 'LAND':
+        audioService.playLand();
+        break;
+      // In a race the others ski on; the race ends in update() once everyone is down
+      case 'CRASH':
+        if (race.sims.length > 1) audioService.playCrash();
+        else gameOver();
+        break;
+      case 'FINISH':
+        if (race.sims.length > 1) audioService.playFinishLine();
+        else finishGame();
+        break;
     }
+  };
 
-    // --- Physics Tuning ---
-    // Max speed based on difficulty
-    const targetMaxSpeed = difficulty === Difficulty.EASY ? 8 : GAME_CONFIG.MAX_SPEED;
-
-    // Acceleration
-    if (player.speed < targetMaxSpeed) {
-      player.speed += GAME_CONFIG.ACCELERATION;
+  // Feed this frame's input into the fixed-step simulation
+  const update = (time: number) => {
+    const state = stateRef.current;
+    if (gameState !== GameState.PLAYING && gameState !== GameState.REPLAY) {
+      state.lastFrameTime = null;
+      return;
     }
 
-    // Turning
-    let turn = 0;
-    if (keys.left) turn -= 1;
-    if (keys.right) turn += 1;
+    const frameMs = state.lastFrameTime === null ? 0 : time - state.lastFrameTime;
+    state.lastFrameTime = time;
 
-    // Physics - Tuned to be balanced (not icy, not heavy)
-    if (turn !== 0) {
-      player.direction += turn * 0.065; // (Halfway between 0.03 and 0.1)
-      player.speed -= 0.05;
-    } else {
-      player.direction *= 0.95; // (Halfway between 0.98 and 0.92)
-    }
-    // Clamp direction
-    player.direction = Math.max(-1.5, Math.min(1.5, player.direction));
-
-    // Update Position with moderate lateral sensitivity
-    player.x += player.direction * GAME_CONFIG.BASE_SPEED * 2.0; // (Halfway between 1.5 and 2.5)
-    player.y += player.speed;
-
-    // Track top speed
-    const currentSpeedMph = player.speed * 5;
-    if (currentSpeedMph > stateRef.current.topSpeed) {
-      stateRef.current.topSpeed = currentSpeedMph;
-      setStats(prev => ({ ...prev, topSpeed: currentSpeedMph }));
+    if (gameState === GameState.REPLAY) {
+      const playback = replayRef.current;
+      if (!playback) return;
+      advancePlayback(playback, frameMs);
+      setReplayTick(playback.sim.tick);
+      setReplayPaused(playback.paused);
+      return;
     }
 
-    // --- Track Management ---
-    if (state.lastObstacleY < player.y + GAME_CONFIG.VIEW_DISTANCE) {
-      generateObstacles(state.lastObstacleY, player.y + GAME_CONFIG.VIEW_DISTANCE + 500);
+    const { race } = state;
+    const inputs = race.sims.length === 1
+      ? [inputService.getSnapshot()]
+      : race.sims.map((_, seat) => inputService.getSeatSnapshot(seat));
+    const events = advanceRace(race, frameMs, inputs, (seat, input) => {
+      recordInput(state.inputLogs[seat], input);
+      if (seat === 0) recordTelemetry(state.telemetry, race.sims[0], input);
+    });
+    // Achievements follow player 1, who owns this browser's profile
+    events[0].forEach(event => trackRunEvent(runProgressRef.current, event, race.sims[0]));
+    events.forEach((seatEvents, seat) => seatEvents.forEach(event => handleSimEvent(event, seat)));
+    // Tell the lobby where we are every net tick, and straight away once the run is over
+    const { online } = state;
+    if (online && (online.lastSentAt === null || time - online.lastSentAt >= NET_TICK_MS || race.sims[0].status !== 'running')) {
+      online.lastSentAt = time;
+      multiplayerService.sendState(getSkierState(race.sims[0]));
     }
-
-    // Culling - FIX: Keep obstacles longer so they don't pop off top of screen
-    state.obstacles = state.obstacles.filter(o => o.y > player.y - 1500);
-
-    // --- Collision Detection ---
-    for (const obs of state.obstacles) {
-      const dy = obs.y - player.y;
-      const dx = obs.x - player.x;
-
-      if (dy > -10 && dy < 30) {
-        if (Math.abs(dx) < (obs.width / 2)) {
-          state.player.state = 'crashed';
-          gameOver(`Hit a ${obs.type.toLowerCase()}`);
-          return;
-        }
-      }
+    if (race.sims.length > 1 && events.some(seatEvents => seatEvents.length > 0) && isRaceOver(race)) {
+      endRace();
     }
-
-    // --- Yeti Logic ---
-    // Yeti only appears in HARD mode or very late in EASY mode
-    const yetiStartDistance = difficulty === Difficulty.EASY ? 20000 : GAME_CONFIG.YETI_START_DISTANCE;
-    if (!state.yeti.active && player.y > yetiStartDistance) {
-      state.yeti.active = true;
-      state.yeti.y = player.y - 800; // Start 800px behind to give player more time
-      state.yeti.x = player.x; // Start aligned with player
-      audioService.playYetiChase();
+    if (events[0].length > 0) {
+      const unlocked = checkAchievements(runProgressRef.current);
+      if (unlocked.length > 0) {
+        audioService.playAchievement();
+        setToasts(queue => [...queue, ...unlocked]);
+      }
     }
 
-    if (state.yeti.active) {
-      // Reduced speed bonus to make it more escapable
-      const yetiSpeedBonus = difficulty === Difficulty.EASY ? 0.1 : 0.15;
-      state.yeti.speed = player.speed + yetiSpeedBonus;
-      state.yeti.y += state.yeti.speed;
-
-      const dx = player.x - state.yeti.x;
-      state.yeti.x += dx * 0.025;
-
-      // Check collision - Yeti must be close in both X and Y
-      const distanceX = Math.abs(player.x - state.yeti.x);
-      const distanceY = Math.abs(player.y - state.yeti.y);
-
-      if (distanceX < 40 && distanceY < 40) {
-        state.player.state = 'crashed';
-        gameOver("Caught by the Yeti");
-        return;
+    // Heartbeat that quickens as the yeti closes the gap on whoever it's chasing
+    const chased = getChasedSim(race);
+    const gap = chased ? getYetiGap(race.yeti, chased.player) : null;
+    if (gap !== null && gap < YETI_WARNING_GAP) {
+      const interval = 150 + 850 * Math.max(0, gap) / YETI_WARNING_GAP;
+      if (time - yetiCueRef.current >= interval) {
+        yetiCueRef.current = time;
+        audioService.playYetiProximity();
       }
     }
   };
@@ -441,12 +816,69 @@ export const GameCanvas: React.FC = () => {
     const height = canvas.height;
     ctx.clearRect(0, 0, width, height);
 
+    // One viewport per skier, side by side in split screen. A replay follows
+    // its own skier, with anyone they raced drawn alongside.
+    const playback = gameState === GameState.REPLAY ? replayRef.current : null;
+    const race = playback ? playback.race : stateRef.current.race;
+    const viewed = playback ? [playback.sim] : race.sims;
+    const viewWidth = width / viewed.length;
+    viewed.forEach((sim, i) => {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(i * viewWidth, 0, viewWidth, height);
+      ctx.clip();
+      ctx.translate(i * viewWidth, 0);
+      drawView(ctx, viewWidth, height, sim, race, playback !== null);
+      ctx.restore();
+    });
+    for (let i = 1; i < viewed.length; i++) {
+      ctx.fillStyle = '#1e293b';
+      ctx.fillRect(i * viewWidth - 2, 0, 4, height);
+    }
+
+    // --- Overlays ---
+    // Countdown
+    if (gameState === GameState.COUNTDOWN) {
+      ctx.fillStyle = 'rgba(0,0,0,0.5)';
+      ctx.fillRect(0, 0, width, height);
+      ctx.fillStyle = '#fbbf24';
+      ctx.font = '80px "Press Start 2P"';
+      ctx.textAlign = 'center';
+      ctx.fillText(countdown.toString(), width / 2, height / 2);
+      ctx.strokeStyle = '#fff';
+      ctx.lineWidth = 4;
+      ctx.strokeText(countdown.toString(), width / 2, height / 2);
+      ctx.textAlign = 'left';
+    }
+
+    if (gameState === GameState.REPLAY) {
+      ctx.fillStyle = '#ef4444';
+      ctx.font = '16px "Press Start 2P"';
+      ctx.textAlign = 'right';
+      ctx.fillText('● REPLAY', width - 80, 40);
+      ctx.textAlign = 'left';
+    }
+  };
+
+  // Everything one skier sees: the slope around them and their HUD
+  const drawView = (ctx: CanvasRenderingContext2D, width: number, height: number, sim: SimState, race: RaceState, isReplay: boolean) => {
     // Dynamic Zoom for Mobile
     const scale = width < 768 ? 0.6 : 1;
     const virtualWidth = width / scale;
     const virtualHeight = height / scale;
 
-    const { player, obstacles, yeti } = stateRef.current;
+    const { player, obstacles, yeti, finished, trail, slalom } = sim;
+    const seat = race.sims.indexOf(sim);
+    const isRace = race.sims.length > 1;
+    const rivals = race.sims.filter(other => other !== sim);
+    const ghost = isReplay ? null : stateRef.current.ghost;
+    const ghostFrame = ghost ? getGhostFrame(ghost, sim.tick) : null;
+    const online = isReplay ? null : stateRef.current.online;
+    const remoteTime = performance.now();
+    const remotes = online ? online.remotes.flatMap(remote => {
+      const frame = getRemoteFrame(remote, remoteTime);
+      return frame ? [{ remote, frame }] : [];
+    }) : [];
 
     // --- Camera ---
     // Keep player centered horizontally and positioned lower on screen to see more ahead
@@ -482,6 +914,10 @@ export const GameCanvas: React.FC = () => {
     // --- Draw Entities ---
     const renderList = [
       ...obstacles,
+      ...(slalom ? slalom.gates.map(gate => ({ x: gate.x, y: gate.y, type: 'GATE', gate })) : []),
+      ...(ghostFrame ? [{ ...ghostFrame, type: 'GHOST', width: 20, height: 30 }] : []),
+      ...rivals.map(rival => ({ ...rival.player, type: 'RIVAL', width: 20, height: 30, seat: race.sims.indexOf(rival) })),
+      ...remotes.map(({ remote, frame }) => ({ x: frame.x, y: frame.y, type: 'REMOTE', width: 20, height: 30, remote, frame })),
       { ...player, type: 'PLAYER', width: 20, height: 30 },
       ...(yeti.active ? [{ ...yeti, type: 'YETI', width: 40, height: 50 }] : [])
     ];
@@ -494,27 +930,71 @@ export const GameCanvas: React.FC = () => {
       if (pos.y < -300 || pos.y > virtualHeight + 100) return;
 
       if (entity.type === 'PLAYER') {
-        drawPlayer(ctx, pos.x, pos.y, player.direction, player.state === 'crashed');
+        drawPlayer(ctx, pos.x, pos.y, player.direction, player.state === 'crashed', player.altitude, 1, seatSkin(seat));
+      } else if (entity.type === 'RIVAL') {
+        const rivalSeat = (entity as { seat: number }).seat;
+        const rival = race.sims[rivalSeat].player;
+        drawPlayer(ctx, pos.x, pos.y, rival.direction, rival.state === 'crashed', rival.altitude, 1, seatSkin(rivalSeat));
+      } else if (entity.type === 'REMOTE') {
+        const { remote, frame } = entity as { remote: RemoteSkier; frame: SkierState };
+        const remoteSkin = SKIER_SKINS.find(s => s.id === remote.skin) ?? DEFAULT_SKIN;
+        drawPlayer(ctx, pos.x, pos.y, frame.direction, frame.status === 'crashed', frame.altitude, 0.6, remoteSkin);
+        ctx.font = '8px "Press Start 2P"';
+        ctx.textAlign = 'center';
+        ctx.fillStyle = remoteSkin.suit;
+        ctx.fillText(remote.name, pos.x, pos.y - 24 - frame.altitude);
+        ctx.textAlign = 'left';
+      } else if (entity.type === 'GHOST' && ghostFrame) {
+        drawPlayer(ctx, pos.x, pos.y, ghostFrame.direction, ghostFrame.crashed, ghostFrame.altitude, 0.35);
+      } else if (entity.type === 'GATE') {
+        drawGate(ctx, pos.x, pos.y, (entity as { gate: Gate }).gate);
       } else if (entity.type === 'YETI') {
-        drawYeti(ctx, pos.x, pos.y);
+        drawYeti(ctx, pos.x, pos.y, yeti.behavior);
       } else if (entity.type === ObstacleType.TREE) {
         drawTree(ctx, pos.x, pos.y, (entity as Obstacle).width);
       } else if (entity.type === ObstacleType.ROCK) {
         drawRock(ctx, pos.x, pos.y);
       } else if (entity.type === ObstacleType.STUMP) {
         drawStump(ctx, pos.x, pos.y);
+      } else if (entity.type === ObstacleType.RAMP) {
+        drawRamp(ctx, pos.x, pos.y, (entity as Obstacle).width);
+      } else if (entity.type === ObstacleType.MOGULS) {
+        drawMoguls(ctx, pos.x, pos.y, (entity as Obstacle).width, (entity as Obstacle).height);
       }
     });
 
+    // --- Debug Hitboxes ---
+    if (showHitboxesRef.current) {
+      obstacles.forEach(obs => drawHitbox(ctx, getObstacleHitbox(obs), toScreen, isJumpObstacle(obs.type) ? '#10b981' : '#ef4444'));
+      getPlayerHitboxes(player).forEach(h => drawHitbox(ctx, h, toScreen, '#2563eb'));
+      if (yeti.active) drawHitbox(ctx, getYetiHitbox(yeti), toScreen, '#9333ea');
+    }
+
     // --- Draw "Trail's End" Pub ---
-    const pubPos = toScreen(getTrackOffset(GAME_CONFIG.PUB_Y), GAME_CONFIG.PUB_Y);
+    const lodge = getLodgePosition(trail);
+    const pubPos = toScreen(lodge.x, lodge.y);
     if (pubPos.y > -500 && pubPos.y < virtualHeight + 500) {
       drawPub(ctx, pubPos.x, pubPos.y);
     }
 
+    // --- Score Popups ---
+    const now = Date.now();
+    scorePopupsRef.current = scorePopupsRef.current.filter(popup => now - popup.createdAt < POPUP_MS);
+    ctx.font = '10px "Press Start 2P"';
+    ctx.textAlign = 'center';
+    scorePopupsRef.current.forEach(popup => {
+      const age = (now - popup.createdAt) / POPUP_MS;
+      const pos = toScreen(popup.x, popup.y);
+      ctx.globalAlpha = 1 - age;
+      ctx.fillStyle = popup.color;
+      ctx.fillText(popup.text, pos.x, pos.y - 30 - age * POPUP_RISE);
+    });
+    ctx.globalAlpha = 1;
+    ctx.textAlign = 'left';
+
     // Floating Finish Text
-    if (stateRef.current.finished) {
-      const finishY = toScreen(0, GAME_CONFIG.TRACK_LENGTH).y;
+    if (finished) {
+      const finishY = toScreen(0, trail.length).y;
       ctx.fillStyle = '#10b981';
       ctx.font = '40px "Press Start 2P"';
       ctx.textAlign = 'center';
@@ -524,53 +1004,157 @@ export const GameCanvas: React.FC = () => {
 
     ctx.restore();
 
-    // --- Overlays ---
-    // Countdown
-    if (gameState === GameState.COUNTDOWN) {
-      ctx.fillStyle = 'rgba(0,0,0,0.5)';
-      ctx.fillRect(0, 0, width, height);
-      ctx.fillStyle = '#fbbf24';
-      ctx.font = '80px "Press Start 2P"';
-      ctx.textAlign = 'center';
-      ctx.fillText(countdown.toString(), width / 2, height / 2);
-      ctx.strokeStyle = '#fff';
-      ctx.lineWidth = 4;
-      ctx.strokeText(countdown.toString(), width / 2, height / 2);
-      ctx.textAlign = 'left';
-    }
-
     // Score Overlay (In Game)
-    if (gameState === GameState.PLAYING || gameState === GameState.COUNTDOWN) {
+    if (gameState === GameState.PLAYING || gameState === GameState.COUNTDOWN || gameState === GameState.PAUSED || gameState === GameState.REPLAY) {
       ctx.fillStyle = '#1e293b';
       ctx.font = '16px "Press Start 2P"';
       const distanceFeet = Math.floor(player.y);
-      const speedMph = Math.floor(player.speed * 5); // Convert to mph
-      ctx.fillText(`${distanceFeet}ft / ${GAME_CONFIG.TRACK_LENGTH}ft`, 20, 40);
+      const speedMph = Math.floor(player.speed * MPH_PER_SPEED);
+      ctx.fillText(`${distanceFeet}ft / ${trail.length}ft`, 20, 40);
       ctx.fillText(`${speedMph} mph`, 20, 70);
 
       // Speedometer
       ctx.fillStyle = player.speed > 10 ? '#ef4444' : '#10b981';
       ctx.fillRect(20, 80, player.speed * 10, 10);
+
+      // Score, with the combo multiplier while one is running
+      ctx.font = '14px "Press Start 2P"';
+      ctx.fillStyle = '#1e293b';
+      ctx.fillText(`SCORE ${sim.score.total}`, 20, 118);
+      if (sim.score.multiplier > 1) {
+        ctx.fillStyle = '#f59e0b';
+        ctx.fillText(`x${sim.score.multiplier}`, 30 + ctx.measureText(`SCORE ${sim.score.total}`).width, 118);
+      }
+
+      let lineY = 146;
+      if (slalom) {
+        ctx.fillStyle = '#1e293b';
+        ctx.fillText(`GATES ${slalom.cleared}/${slalom.gates.length}`, 20, lineY);
+        if (slalom.missed > 0) {
+          ctx.fillStyle = '#ef4444';
+          ctx.fillText(`MISSED ${slalom.missed}`, 30 + ctx.measureText(`GATES ${slalom.cleared}/${slalom.gates.length}`).width, lineY);
+        }
+        lineY += 28;
+      }
+
+      // Ghost split: + is behind the ghost, - is ahead
+      if (ghost && ghostFrame) {
+        const delta = getGhostDelta(ghost, player.y, sim.tick);
+        ctx.font = '14px "Press Start 2P"';
+        if (delta !== null) {
+          ctx.fillStyle = delta > 0 ? '#ef4444' : '#10b981';
+          ctx.fillText(`${ghost.label} ${delta > 0 ? '+' : '-'}${(Math.abs(delta) / 1000).toFixed(2)}s`, 20, lineY);
+        } else if (ghostFrame.crashed) {
+          ctx.fillStyle = '#64748b';
+          ctx.fillText(`${ghost.label} WIPED OUT`, 20, lineY);
+        }
+      }
+    }
+
+    // Split time for a few seconds after each checkpoint; red behind the PB, green ahead
+    const lastSplit = sim.splits.length - 1;
+    if (lastSplit >= 0 && sim.status === 'running' && getElapsedTime(sim) - sim.splits[lastSplit] < SPLIT_DISPLAY_MS) {
+      const delta = getSplitDelta(sim.splits, isReplay || isRace ? null : stateRef.current.bestSplits, lastSplit);
+      ctx.textAlign = 'center';
+      ctx.font = '12px "Press Start 2P"';
+      ctx.fillStyle = '#1e293b';
+      ctx.fillText(`SPLIT ${lastSplit + 1}  ${(sim.splits[lastSplit] / 1000).toFixed(2)}s`, width / 2, 80);
+      if (delta !== null) {
+        ctx.font = '20px "Press Start 2P"';
+        ctx.fillStyle = delta > 0 ? '#ef4444' : '#10b981';
+        ctx.fillText(`${delta > 0 ? '+' : '-'}${(Math.abs(delta) / 1000).toFixed(2)}s`, width / 2, 110);
+      }
+      ctx.textAlign = 'left';
+    }
+
+    // Off-screen yeti: an arrow on the top edge, brighter the closer it is
+    const yetiGap = getYetiGap(yeti, player);
+    const yetiScreen = toScreen(yeti.x, yeti.y);
+    if (yetiGap !== null && yetiScreen.y < 0 && sim.status === 'running') {
+      const closeness = Math.max(0, Math.min(1, 1 - yetiGap / YETI_WARNING_GAP));
+      const arrowX = Math.max(40, Math.min(width - 40, yetiScreen.x * scale));
+      const pulse = 0.75 + 0.25 * Math.sin(Date.now() / (220 - closeness * 140));
+      ctx.save();
+      ctx.globalAlpha = 0.4 + 0.6 * closeness * pulse;
+      ctx.fillStyle = closeness > 0.6 ? '#ef4444' : '#f97316';
+      ctx.beginPath();
+      ctx.moveTo(arrowX, 8);
+      ctx.lineTo(arrowX + 14, 30);
+      ctx.lineTo(arrowX - 14, 30);
+      ctx.fill();
+      ctx.font = '10px "Press Start 2P"';
+      ctx.textAlign = 'center';
+      ctx.fillText(`YETI ${Math.floor(yetiGap)}ft`, arrowX, 46);
+      ctx.restore();
+    }
+
+    // Split screen: who's who and where they stand, and a banner once they're done
+    if (isRace) {
+      const place = getStandings(race).indexOf(seat) + 1;
+      ctx.font = '14px "Press Start 2P"';
+      ctx.fillStyle = seatSkin(seat).suit;
+      ctx.fillText(`P${seat + 1}  ${place}/${race.sims.length}`, 20, height - 30);
+
+      if (sim.status !== 'running') {
+        ctx.fillStyle = 'rgba(15, 23, 42, 0.6)';
+        ctx.fillRect(0, height / 2 - 40, width, 80);
+        ctx.textAlign = 'center';
+        ctx.font = '20px "Press Start 2P"';
+        ctx.fillStyle = sim.status === 'finished' ? '#10b981' : '#ef4444';
+        ctx.fillText(sim.status === 'finished' ? `FINISHED ${(getRaceTime(sim) / 1000).toFixed(2)}s` : 'WIPED OUT', width / 2, height / 2 + 10);
+        ctx.textAlign = 'left';
+      }
+    }
+
+    // Online: live standings down the right-hand side, you in yellow
+    if (online) {
+      ctx.font = '10px "Press Start 2P"';
+      ctx.textAlign = 'right';
+      getLiveStandings().forEach((racer, place) => {
+        const status = racer.state?.status;
+        const result = status === 'finished' ? `${(racer.state!.time / 1000).toFixed(2)}s` : status === 'crashed' ? 'OUT' : `${Math.floor(racer.state?.y ?? 0)}ft`;
+        ctx.fillStyle = racer.id === null ? '#f59e0b' : status === 'crashed' ? '#94a3b8' : '#1e293b';
+        ctx.fillText(`${place + 1}. ${racer.name} ${result}`, width - 20, 90 + place * 18);
+      });
+      ctx.textAlign = 'left';
     }
   };
 
   // --- Drawing Helpers ---
 
-  const drawPlayer = (ctx: CanvasRenderingContext2D, x: number, y: number, dir: number, crashed: boolean) => {
+  const drawPlayer = (
+    ctx: CanvasRenderingContext2D, x: number, y: number, dir: number, crashed: boolean,
+    altitude: number = 0, alpha: number = 1, skin: SkierSkin = skinRef.current
+  ) => {
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    if (altitude > 0) {
+      // Shadow stays on the snow; the skier rises off it and looms larger
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.2)';
+      ctx.beginPath();
+      ctx.ellipse(x, y + 12, 12, 5, 0, 0, Math.PI * 2);
+      ctx.fill();
+      const lift = 1 + altitude / 100;
+      ctx.translate(x, y - altitude);
+      ctx.scale(lift, lift);
+      ctx.translate(-x, -y);
+    }
+    const { suit, skis } = skin;
     if (crashed) {
-      ctx.fillStyle = COLORS.PLAYER_SUIT;
+      ctx.fillStyle = suit;
       ctx.fillRect(x - 10, y - 5, 20, 10);
-      ctx.fillStyle = COLORS.PLAYER_SKIS;
+      ctx.fillStyle = skis;
       ctx.save();
       ctx.translate(x, y);
       ctx.rotate(Math.PI / 4);
       ctx.fillRect(-15, -2, 30, 4);
       ctx.restore();
+      ctx.restore();
       return;
     }
 
     // Skis
-    ctx.fillStyle = COLORS.PLAYER_SKIS;
+    ctx.fillStyle = skis;
     // Rotation: Counter-Clockwise when turning right
     const skiAngle = -dir * 0.5;
     ctx.save();
@@ -581,7 +1165,7 @@ export const GameCanvas: React.FC = () => {
     ctx.restore();
 
     // Body
-    ctx.fillStyle = COLORS.PLAYER_SUIT;
+    ctx.fillStyle = suit;
     ctx.fillRect(x - 6, y - 10, 12, 16);
 
     // Head
@@ -590,6 +1174,29 @@ export const GameCanvas: React.FC = () => {
     // Goggles
     ctx.fillStyle = '#111';
     ctx.fillRect(x - 4, y - 16, 8, 4);
+    ctx.restore();
+  };
+
+  const drawHitbox = (
+    ctx: CanvasRenderingContext2D,
+    hitbox: Hitbox,
+    toScreen: (x: number, y: number) => { x: number; y: number },
+    color: string
+  ) => {
+    const pos = toScreen(hitbox.x, hitbox.y);
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.translate(pos.x, pos.y);
+    if (hitbox.kind === 'circle') {
+      ctx.beginPath();
+      ctx.arc(0, 0, hitbox.radius, 0, Math.PI * 2);
+      ctx.stroke();
+    } else {
+      ctx.rotate(hitbox.angle);
+      ctx.strokeRect(-hitbox.halfWidth, -hitbox.halfHeight, hitbox.halfWidth * 2, hitbox.halfHeight * 2);
+    }
+    ctx.restore();
   };
 
   const drawTree = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number = 40) => {
@@ -633,7 +1240,78 @@ export const GameCanvas: React.FC = () => {
     ctx.fill();
   };
 
-  const drawYeti = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
+  const drawRamp = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number = 60) => {
+    const half = width / 2;
+    // Kicker: shaded face rising to a lip on the downhill side
+    ctx.fillStyle = COLORS.SNOW_SHADOW;
+    ctx.beginPath();
+    ctx.moveTo(x - half, y - 15);
+    ctx.lineTo(x + half, y - 15);
+    ctx.lineTo(x + half - 6, y + 15);
+    ctx.lineTo(x - half + 6, y + 15);
+    ctx.fill();
+    ctx.fillStyle = COLORS.TRACK_BORDER;
+    ctx.fillRect(x - half + 6, y + 11, width - 12, 4);
+  };
+
+  const drawMoguls = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number = 160, height: number = 60) => {
+    // Staggered bumps, each with a shadow on its downhill side
+    for (let row = 0; row < 3; row++) {
+      const by = y - height / 2 + (row + 0.5) * (height / 3);
+      const offset = row % 2 === 0 ? 0 : width / 8;
+      for (let bx = x - width / 2 + width / 8 + offset; bx < x + width / 2; bx += width / 4) {
+        ctx.fillStyle = COLORS.SNOW_SHADOW;
+        ctx.beginPath();
+        ctx.ellipse(bx, by + 3, 14, 7, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#fff';
+        ctx.beginPath();
+        ctx.ellipse(bx, by, 12, 6, 0, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  };
+
+  // Two poles with a banner between them; missed gates fade out
+  const drawGate = (ctx: CanvasRenderingContext2D, x: number, y: number, gate: Gate) => {
+    const color = gate.color === 'red' ? '#dc2626' : '#2563eb';
+    const half = gate.width / 2;
+    ctx.save();
+    if (gate.result === 'missed') ctx.globalAlpha = 0.3;
+
+    ctx.fillStyle = 'rgba(0,0,0,0.15)';
+    ctx.beginPath();
+    ctx.ellipse(x - half, y, 5, 2, 0, 0, Math.PI * 2);
+    ctx.ellipse(x + half, y, 5, 2, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(x - half, y);
+    ctx.lineTo(x - half, y - 34);
+    ctx.moveTo(x + half, y);
+    ctx.lineTo(x + half, y - 34);
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    ctx.fillRect(x - half + 2, y - 34, gate.width - 4, 10);
+    ctx.fillStyle = '#fff';
+    ctx.font = '8px "Press Start 2P"';
+    ctx.textAlign = 'center';
+    ctx.fillText(gate.result === 'cleared' ? '✓' : String(gate.number), x, y - 26);
+    ctx.restore();
+  };
+
+  const drawYeti = (ctx: CanvasRenderingContext2D, x: number, y: number, behavior: YetiBehavior) => {
+    ctx.save();
+    if (behavior === 'stumbling') {
+      // Knocked sideways
+      ctx.translate(x, y);
+      ctx.rotate(0.9);
+      ctx.translate(-x, -y);
+    }
+
     // Draw outline first
     ctx.strokeStyle = '#000';
     ctx.lineWidth = 3;
@@ -649,26 +1327,28 @@ export const GameCanvas: React.FC = () => {
     ctx.arc(x, y, 20, 0, Math.PI * 2);
     ctx.fill();
 
-    // Arms
+    // Arms - swinging while it runs, both thrust downhill in a lunge
     const time = Date.now() / 100;
-    const armY = Math.sin(time) * 10;
+    const sway = Math.sin(time) * 10;
+    const leftArmY = behavior === 'lunging' ? 20 : sway;
+    const rightArmY = behavior === 'lunging' ? 20 : -sway;
 
     ctx.lineWidth = 8;
     ctx.strokeStyle = COLORS.YETI_FUR;
     ctx.lineCap = 'round';
     ctx.beginPath();
     ctx.moveTo(x - 15, y - 10);
-    ctx.lineTo(x - 30, y - 10 + armY);
+    ctx.lineTo(x - 30, y - 10 + leftArmY);
     ctx.stroke();
 
     ctx.beginPath();
     ctx.moveTo(x + 15, y - 10);
-    ctx.lineTo(x + 30, y - 10 - armY);
+    ctx.lineTo(x + 30, y - 10 + rightArmY);
     ctx.stroke();
 
     // Claws on left arm
     const leftClawX = x - 30;
-    const leftClawY = y - 10 + armY;
+    const leftClawY = y - 10 + leftArmY;
     ctx.strokeStyle = '#333';
     ctx.lineWidth = 2;
     ctx.lineCap = 'round';
@@ -681,7 +1361,7 @@ export const GameCanvas: React.FC = () => {
 
     // Claws on right arm
     const rightClawX = x + 30;
-    const rightClawY = y - 10 - armY;
+    const rightClawY = y - 10 + rightArmY;
     for (let i = 0; i < 3; i++) {
       ctx.beginPath();
       ctx.moveTo(rightClawX, rightClawY);
@@ -697,6 +1377,7 @@ export const GameCanvas: React.FC = () => {
     ctx.fillRect(x + 1, y - 23, 4, 4);
     ctx.fillStyle = '#000';
     ctx.fillRect(x - 6, y - 18, 12, 2);
+    ctx.restore();
   };
 
   const drawPub = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
@@ -752,7 +1433,7 @@ export const GameCanvas: React.FC = () => {
 
   const loop = (time: number) => {
     try {
-      update();
+      update(time);
       draw();
     } catch (e) {
       console.error("Game Loop Error:", e);
@@ -778,14 +1459,8 @@ export const GameCanvas: React.FC = () => {
   }, []);
 
   // --- Mobile Controls ---
-  const handleTouchStart = (dir: 'left' | 'right') => {
-    if (dir === 'left') stateRef.current.keys.left = true;
-    else stateRef.current.keys.right = true;
-  };
-  const handleTouchEnd = (dir: 'left' | 'right') => {
-    if (dir === 'left') stateRef.current.keys.left = false;
-    else stateRef.current.keys.right = false;
-  };
+  const handleTouchStart = (dir: 'left' | 'right') => inputService.setTouch(dir, true);
+  const handleTouchEnd = (dir: 'left' | 'right') => inputService.setTouch(dir, false);
 
   return (
     <div className="relative w-full h-screen bg-slate-900 overflow-hidden">
@@ -807,6 +1482,17 @@ export const GameCanvas: React.FC = () => {
         {isMuted ? <VolumeX size={24} /> : <Volume2 size={24} />}
       </button>
 
+      {/* Pause Button */}
+      {(gameState === GameState.PLAYING || gameState === GameState.COUNTDOWN) && !stateRef.current.online && (
+        <button
+          onClick={pauseGame}
+          className="absolute top-4 right-16 z-50 p-2 bg-black/50 rounded-full text-white hover:bg-black/70 transition-colors"
+          title="Pause (Esc)"
+        >
+          <Pause size={24} />
+        </button>
+      )}
+
       {/* Mobile Controls */}
       <div className="absolute bottom-6 left-0 w-full flex justify-between px-8 pb-4 md:hidden pointer-events-auto z-20">
         <button
@@ -837,13 +1523,31 @@ export const GameCanvas: React.FC = () => {
 
           <div className="mb-6 text-center">
             <p className="hidden md:block text-yellow-200 font-mono text-sm">
-              CONTROLS: ARROW KEYS / WASD TO STEER
+              {players > 1
+                ? `P1: ${seatKeys(0)} · P2: ${seatKeys(1)} · OR ONE GAMEPAD EACH`
+                : `CONTROLS: ${steerKeys('LEFT')} / ${steerKeys('RIGHT')} TO STEER, OR USE A GAMEPAD`}
             </p>
             <p className="md:hidden text-yellow-200 font-mono text-sm">
               CONTROLS: TAP LEFT / RIGHT TO STEER
             </p>
           </div>
 
+          <div className="flex flex-wrap justify-center gap-2 mb-4">
+            {menuTrails.map(trail => (
+              <button
+                key={trail.id}
+                onClick={() => {
+                  setTrailId(trail.id);
+                  setRaceTarget(null);
+                }}
+                className={`px-4 py-2 font-retro text-xs border-4 transition-transform hover:scale-105 ${trail.id === selectedTrail.id ? 'bg-yellow-500 border-yellow-700 text-black' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              >
+                {trail.name.toUpperCase()}
+                <span className="block mt-1 text-[10px] opacity-70">{trail.length.toLocaleString()} FT</span>
+              </button>
+            ))}
+          </div>
+
           <div className="flex gap-4 mb-8">
             <button
               onClick={() => setDifficulty(Difficulty.EASY)}
@@ -859,16 +1563,297 @@ export const GameCanvas: React.FC = () => {
             </button>
           </div>
 
+          <div className="flex gap-2 -mt-4 mb-8 font-retro text-xs">
+            <button
+              onClick={() => setMode(GameMode.FREERIDE)}
+              className={`px-3 py-2 border-2 ${mode === GameMode.FREERIDE ? 'bg-slate-200 border-white text-black' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+            >
+              FREERIDE
+            </button>
+            <button
+              onClick={() => setMode(GameMode.SLALOM)}
+              className={`px-3 py-2 border-2 ${mode === GameMode.SLALOM ? 'bg-slate-200 border-white text-black' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              title={difficulty === Difficulty.HARD ? 'Miss a gate and you are disqualified' : `Every missed gate adds ${MISSED_GATE_PENALTY_MS / 1000}s`}
+            >
+              SLALOM
+            </button>
+            <span className="w-4" />
+            <button
+              onClick={() => setPlayers(1)}
+              className={`px-3 py-2 border-2 ${players === 1 ? 'bg-slate-200 border-white text-black' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+            >
+              1P
+            </button>
+            <button
+              onClick={() => setPlayers(2)}
+              className={`px-3 py-2 border-2 ${players === 2 ? 'bg-slate-200 border-white text-black' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              title="Split screen on one keyboard or two gamepads"
+            >
+              2P
+            </button>
+          </div>
+
+          <div className="flex items-center gap-4 mb-8 font-retro text-xs">
+            {players > 1 ? (
+              <span className="text-slate-300">SPLIT SCREEN: THE YETI CHASES WHOEVER IS BEHIND</span>
+            ) : raceTarget ? (
+              <span className="flex items-center gap-2 text-slate-200">
+                <GhostIcon size={14} /> RACING {raceTarget.label.toUpperCase()}
+                <button onClick={() => setRaceTarget(null)} className="text-slate-400 hover:text-white" title="Stop racing this ghost">
+                  <X size={14} />
+                </button>
+              </span>
+            ) : (
+              <button
+                onClick={() => setRacePersonalBest(v => !v)}
+                className={`flex items-center gap-2 px-3 py-2 border-2 ${racePersonalBest ? 'bg-slate-200 border-white text-black' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              >
+                <GhostIcon size={14} /> RACE MY BEST: {racePersonalBest ? 'ON' : 'OFF'}
+              </button>
+            )}
+          </div>
+
           <button
-            onClick={startGame}
+            onClick={() => startGame()}
             className="flex items-center gap-2 bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-4 px-10 rounded-none border-4 border-yellow-600 font-retro text-xl transition-transform hover:scale-110 shadow-xl"
           >
             <Play size={24} /> START RUN
           </button>
           <p className="mt-6 text-sm text-slate-400 animate-pulse">Press ENTER to Start</p>
+
+          <button
+            onClick={openLobby}
+            className="mt-6 flex items-center gap-2 text-slate-300 hover:text-white font-retro text-xs"
+          >
+            <Globe size={14} /> ONLINE RACE
+          </button>
+
+          <button
+            onClick={() => setShowReplays(v => !v)}
+            className="mt-3 flex items-center gap-2 text-slate-300 hover:text-white font-retro text-xs"
+          >
+            <Film size={14} /> REPLAYS
+          </button>
+
+          <button
+            onClick={openEditor}
+            className="mt-3 flex items-center gap-2 text-slate-300 hover:text-white font-retro text-xs"
+          >
+            <Pencil size={14} /> COURSE EDITOR
+          </button>
+
+          <button
+            onClick={() => setGameState(GameState.SETTINGS)}
+            className="mt-3 flex items-center gap-2 text-slate-300 hover:text-white font-retro text-xs"
+          >
+            <Settings size={14} /> SETTINGS
+          </button>
+
+          <button
+            onClick={() => setGameState(GameState.LEADERBOARD)}
+            className="mt-3 flex items-center gap-2 text-slate-300 hover:text-white font-retro text-xs"
+          >
+            <Trophy size={14} /> LEADERBOARD
+          </button>
+
+          <button
+            onClick={() => setGameState(GameState.STATS)}
+            className="mt-3 flex items-center gap-2 text-slate-300 hover:text-white font-retro text-xs"
+          >
+            <BarChart3 size={14} /> STATS
+          </button>
+
+          <button
+            onClick={() => setGameState(GameState.ACHIEVEMENTS)}
+            className="mt-3 flex items-center gap-2 text-slate-300 hover:text-white font-retro text-xs"
+          >
+            <Award size={14} /> ACHIEVEMENTS
+          </button>
+
+          {showReplays && (
+            <div className="mt-3 bg-slate-800 p-4 rounded-lg border-2 border-slate-600 max-w-md w-full">
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {savedReplays.length === 0 ? (
+                  <p className="text-slate-500 text-xs italic">No saved replays yet.</p>
+                ) : (
+                  savedReplays.map(({ id, replay }) => (
+                    <div key={id} className="flex justify-between items-center text-sm font-mono text-slate-300">
+                      <button onClick={() => watchReplay(replay, true)} className="flex items-center gap-2 hover:text-yellow-300">
+                        <Play size={12} />
+                        <span>{new Date(replay.date).toLocaleDateString()}</span>
+                        <span className={`text-xs px-1 py-0.5 rounded ${replay.difficulty === Difficulty.HARD ? 'bg-red-900 text-red-200' : 'bg-green-900 text-green-200'}`}>
+                          {replay.difficulty === Difficulty.HARD ? 'H' : 'E'}
+                        </span>
+                        {getReplayMode(replay) === GameMode.SLALOM && (
+                          <span className="text-xs px-1 py-0.5 rounded bg-blue-900 text-blue-200">S</span>
+                        )}
+                      </button>
+                      <div className="flex items-center gap-3">
+                        <span>{replay.result.causeOfDeath ? `${replay.result.distance}ft` : `${(replay.result.time / 1000).toFixed(2)}s`}</span>
+                        <button onClick={() => setSavedReplays(deleteReplay(id))} className="text-slate-500 hover:text-red-400" title="Delete replay">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+              <label className="mt-3 flex items-center justify-center gap-2 cursor-pointer bg-slate-700 hover:bg-slate-600 border-2 border-slate-500 py-2 font-retro text-xs">
+                <Upload size={14} /> LOAD FILE
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadReplayFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {replayError && <p className="mt-2 text-red-400 text-xs font-mono">{replayError}</p>}
+            </div>
+          )}
+
+          {syncNotice && (
+            <p className="mt-4 max-w-md text-center text-red-300 text-xs font-mono">
+              {syncNotice}
+              <button onClick={() => setSyncNotice(null)} className="ml-2 text-slate-400 hover:text-white" title="Dismiss">
+                <X size={12} className="inline" />
+              </button>
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Pause Menu */}
+      {gameState === GameState.PAUSED && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 text-white z-30">
+          <h2 className="text-4xl font-retro text-yellow-400 mb-8 drop-shadow-md">PAUSED</h2>
+          <div className="flex flex-col gap-4 w-64">
+            <button
+              onClick={resumeGame}
+              className="flex items-center justify-center gap-2 bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-3 border-4 border-yellow-600 font-retro transition-transform hover:scale-105"
+            >
+              <Play size={20} /> RESUME
+            </button>
+            <button
+              onClick={restartFromPause}
+              className="flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+            >
+              <RotateCcw size={20} /> RESTART
+            </button>
+            <button
+              onClick={quitFromPause}
+              className="flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+            >
+              <X size={20} /> QUIT
+            </button>
+          </div>
+          {difficulty === Difficulty.HARD && stateRef.current.pauses.length > 0 && (
+            <p className="mt-6 text-red-300 text-xs font-mono">Paused PRO runs can't be submitted to the leaderboard.</p>
+          )}
+          <p className="mt-4 text-sm text-slate-400">Press ESC to resume</p>
         </div>
       )}
 
+      {/* Controls Settings */}
+      {gameState === GameState.SETTINGS && (
+        <SettingsScreen onClose={() => setGameState(GameState.MENU)} />
+      )}
+
+      {/* Leaderboard Browser */}
+      {gameState === GameState.LEADERBOARD && (
+        <LeaderboardScreen
+          initialTrailId={isCustomTrail ? DEFAULT_TRAIL.id : selectedTrail.id}
+          initialDifficulty={difficulty}
+          playerName={loadPlayerName()}
+          onRaceGhost={raceGhost}
+          onClose={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {/* Career Stats */}
+      {gameState === GameState.STATS && (
+        <StatsScreen
+          initialTrailId={isCustomTrail ? DEFAULT_TRAIL.id : selectedTrail.id}
+          initialDifficulty={difficulty}
+          onAnalyze={openAnalysis}
+          onClose={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {/* Telemetry Analysis */}
+      {gameState === GameState.ANALYSIS && (
+        <AnalysisScreen initialRunId={analysisRunId} onClose={() => setGameState(analysisReturnState)} />
+      )}
+
+      {/* Achievements Gallery */}
+      {gameState === GameState.ACHIEVEMENTS && (
+        <AchievementsScreen
+          playerName={loadPlayerName()}
+          selectedSkin={skin}
+          onSelectSkin={selectSkin}
+          onClose={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {/* Online Lobby */}
+      {gameState === GameState.LOBBY && (
+        <LobbyScreen
+          lobby={lobby}
+          selfId={multiplayerService.getId()}
+          skin={skin}
+          initialSettings={{ trailId: isCustomTrail ? DEFAULT_TRAIL.id : selectedTrail.id, difficulty, mode }}
+          notice={lobbyNotice}
+          onClose={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {/* Achievement Toast */}
+      {toasts.length > 0 && <AchievementToast key={toasts[0].id} achievement={toasts[0]} />}
+
+      {/* Course Editor */}
+      {gameState === GameState.EDITOR && (
+        <CourseEditor
+          trail={editorTrail}
+          onChange={setEditorTrail}
+          onTestSki={testSki}
+          onExit={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {/* Replay Controls */}
+      {gameState === GameState.REPLAY && replayRef.current && (
+        <ReplayControls
+          tick={replayTick}
+          totalTicks={replayRef.current.replay.ticks}
+          paused={replayPaused}
+          speed={replaySpeed}
+          isSaved={replayIsSaved}
+          onTogglePause={toggleReplayPause}
+          onSeek={seekReplay}
+          onSpeedChange={changeReplaySpeed}
+          onSave={saveCurrentReplay}
+          onDownload={() => replayRef.current && downloadReplay(replayRef.current.replay)}
+          onExit={exitReplay}
+        />
+      )}
+
+      {/* Split-Screen Results */}
+      {gameState === GameState.RACE_OVER && raceResults && (
+        <RaceResults
+          racers={raceResults.racers}
+          standings={raceResults.standings}
+          onWatchReplay={replay => watchReplay(replay, false)}
+          onRematch={startGame}
+          onMenu={() => {
+            setGameState(GameState.MENU);
+            audioService.playMenuTheme();
+          }}
+        />
+      )}
+
       {/* Game Over Screen */}
       {gameState === GameState.GAME_OVER && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-red-900/80 backdrop-blur-sm text-white z-30 p-4">
@@ -877,12 +1862,28 @@ export const GameCanvas: React.FC = () => {
           <div className="bg-slate-800 p-6 rounded-lg border-2 border-slate-600 max-w-md w-full shadow-2xl">
             <div className="mb-4 space-y-2 font-mono text-sm text-slate-300">
               <p className="flex justify-between"><span>DISTANCE:</span> <span className="text-white">{Math.floor(stats.distance)}ft</span></p>
-              <p className="flex justify-between"><span>SCORE:</span> <span className="text-white">{stats.score}</span></p>
+              <p className="flex justify-between"><span>SCORE:</span> <span className="text-white">{stats.score.toLocaleString()}</span></p>
+              {stats.breakdown && <ScoreBreakdownList breakdown={stats.breakdown} />}
               <p className="flex justify-between"><span>TOP SPEED:</span> <span className="text-white">{Math.floor(stats.topSpeed)} mph</span></p>
+              {stats.gatesCleared !== undefined && (
+                <p className="flex justify-between"><span>GATES:</span> <span className="text-white">{stats.gatesCleared} cleared, {stats.gatesMissed} missed</span></p>
+              )}
               <p className="flex justify-between text-red-300"><span>CAUSE:</span> <span>{stats.causeOfDeath}</span></p>
             </div>
 
-            {!hasSubmitted ? (
+            {isCustomTrail ? (
+              <div className="border-t border-slate-600 pt-4 mt-4 mb-4 text-center text-slate-400 font-mono text-xs">
+                Custom trails aren't ranked. Export it from the editor to share it.
+              </div>
+            ) : resultBoard.board === 'slalom' ? (
+              <div className="border-t border-slate-600 pt-4 mt-4 mb-4 text-center text-slate-400 font-mono text-xs">
+                Slalom runs are only ranked when they reach the finish.
+              </div>
+            ) : isPausedProRun ? (
+              <div className="border-t border-slate-600 pt-4 mt-4 mb-4 text-center text-slate-400 font-mono text-xs">
+                Paused PRO runs can't be submitted to the leaderboard.
+              </div>
+            ) : !hasSubmitted ? (
               <div className="border-t border-slate-600 pt-4 mt-4 mb-4">
                 <label className="block text-xs font-retro text-slate-400 mb-2">ENTER NAME FOR LEADERBOARD</label>
                 <div className="flex gap-2">
@@ -896,49 +1897,58 @@ export const GameCanvas: React.FC = () => {
                   />
                   <button
                     onClick={saveToLeaderboard}
-                    disabled={!playerName}
+                    disabled={!playerName || isSubmitting}
                     className="bg-yellow-600 hover:bg-yellow-500 disabled:opacity-50 text-white px-4 py-2 font-bold font-retro text-xs"
                   >
-                    SUBMIT
+                    {isSubmitting ? 'CHECKING...' : 'SUBMIT'}
                   </button>
                 </div>
+                {submitError && (
+                  <p className="mt-2 text-red-400 text-xs font-mono">REJECTED: {submitError}</p>
+                )}
               </div>
             ) : (
-              <div className="border-t border-slate-600 pt-4 mt-4 mb-4 text-center text-green-400 font-retro text-sm">
-                SCORE SUBMITTED!
+              <div className={`border-t border-slate-600 pt-4 mt-4 mb-4 text-center font-retro text-sm ${submitQueued ? 'text-amber-400' : 'text-green-400'}`}>
+                {submitQueued ? 'SAVED OFFLINE. WILL SYNC WHEN ONLINE.' : 'SCORE SUBMITTED!'}
               </div>
             )}
 
             <div className="border-t border-slate-600 pt-4">
               <h3 className="flex items-center gap-2 text-yellow-400 font-retro text-xs mb-3">
-                <Trophy size={14} /> LEADERBOARD
+                <Trophy size={14} /> {BOARD_TITLES[resultBoard.board]}
+                <span className="text-slate-400">· {resultBoard.difficulty === Difficulty.HARD ? 'PRO' : 'EASY'}</span>
               </h3>
-              <div className="space-y-2 max-h-40 overflow-y-auto">
-                {leaderboard.length === 0 ? (
-                  <p className="text-slate-500 text-xs italic">No records yet. Be the first!</p>
-                ) : (
-                  leaderboard.map((entry, idx) => (
-                    <div key={idx} className={`flex justify-between items-center text-sm font-mono ${entry.name === playerName && hasSubmitted ? 'text-yellow-300' : 'text-slate-300'}`}>
-                      <div className="flex items-center gap-2">
-                        <span>{idx + 1}. {entry.name}</span>
-                        {entry.difficulty && (
-                          <span className={`text-xs px-1 py-0.5 rounded ${entry.difficulty === 'HARD' ? 'bg-red-900 text-red-200' : 'bg-green-900 text-green-200'}`}>
-                            {entry.difficulty === 'HARD' ? 'H' : 'E'}
-                          </span>
-                        )}
-                      </div>
-                      <div className="flex gap-4">
-                        {entry.distance !== undefined && entry.distance < GAME_CONFIG.TRACK_LENGTH && (
-                          <span className="text-slate-500 text-xs">{Math.floor(entry.distance)}ft</span>
-                        )}
-                        <span>{(entry.time / 1000).toFixed(2)}s</span>
-                      </div>
-                    </div>
-                  ))
-                )}
-              </div>
+              <LeaderboardTable
+                entries={leaderboard}
+                board={resultBoard.board}
+                highlightId={submittedEntryId}
+                onRaceGhost={raceGhost}
+                className="max-h-40 overflow-y-auto"
+              />
             </div>
 
+            {resultBoard.board !== 'slalom' && (
+              <div className="border-t border-slate-600 pt-4 mt-4">
+                <h3 className="flex items-center gap-2 text-yellow-400 font-retro text-xs mb-3">
+                  <Trophy size={14} /> {BOARD_TITLES.score}
+                  <span className="text-slate-400">· {resultBoard.difficulty === Difficulty.HARD ? 'PRO' : 'EASY'}</span>
+                </h3>
+                <LeaderboardTable
+                  entries={scoreBoard}
+                  board="score"
+                  highlightId={submittedEntryId}
+                  onRaceGhost={raceGhost}
+                  className="max-h-40 overflow-y-auto"
+                />
+              </div>
+            )}
+
+            {stateRef.current.online && (
+              <div className="border-t border-slate-600 pt-4 mt-4">
+                <OnlineStandings getStandings={getLiveStandings} />
+              </div>
+            )}
+
             <div className="border-t border-slate-600 pt-4 mt-4">
               <h3 className="text-yellow-400 font-retro text-sm mb-2">CHUCK'S TIPS:</h3>
               <p className="italic text-lg leading-relaxed text-slate-200 min-h-[60px]">
@@ -949,11 +1959,35 @@ export const GameCanvas: React.FC = () => {
 
           <div className="mt-8 flex flex-col sm:flex-row gap-4 items-center justify-center">
             <button
-              onClick={startGame}
+              onClick={() => startGame()}
               className="flex items-center gap-2 bg-white hover:bg-slate-200 text-red-900 font-bold py-3 px-8 border-4 border-slate-300 font-retro transition-transform hover:scale-105"
             >
-              <RotateCcw size={24} /> TRY AGAIN
+              <RotateCcw size={24} /> {lobby ? 'LOBBY' : 'TRY AGAIN'}
             </button>
+            {lastReplay && (
+              <button
+                onClick={() => watchReplay(lastReplay, false)}
+                className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-8 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+              >
+                <Film size={24} /> REPLAY
+              </button>
+            )}
+            {lastRunId && (
+              <button
+                onClick={() => openAnalysis(lastRunId)}
+                className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-8 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+              >
+                <LineChart size={24} /> ANALYSIS
+              </button>
+            )}
+            {isCustomTrail && (
+              <button
+                onClick={openEditor}
+                className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-8 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+              >
+                <Pencil size={24} /> EDITOR
+              </button>
+            )}
             <button
               onClick={() => {
                 setGameState(GameState.MENU);
@@ -973,16 +2007,56 @@ export const GameCanvas: React.FC = () => {
           <div className="text-center mb-6">
             <Flame className="w-12 h-12 text-orange-500 mx-auto mb-2 animate-bounce" />
             <h2 className="text-3xl md:text-5xl font-retro text-yellow-400 drop-shadow-md">TRAIL'S END</h2>
-            <p className="text-green-200 mt-2">You survived Nile Mile!</p>
+            <p className="text-green-200 mt-2">You survived {selectedTrail.name}!</p>
           </div>
 
           <div className="bg-slate-800 p-6 rounded-lg border-2 border-yellow-600 max-w-md w-full shadow-2xl">
             <div className="text-center mb-6">
               <p className="text-slate-400 text-sm">FINAL TIME</p>
               <p className="text-4xl font-mono text-white">{(stats.time! / 1000).toFixed(2)}s</p>
+              {isNewBest && <p className="mt-2 text-yellow-400 font-retro text-xs animate-pulse">NEW PERSONAL BEST!</p>}
+            </div>
+
+            {stateRef.current.online && (
+              <div className="mb-6">
+                <OnlineStandings getStandings={getLiveStandings} />
+              </div>
+            )}
+
+            {stats.splits && stats.splits.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-yellow-400 font-retro text-xs mb-2">SPLITS</h3>
+                <SplitTable
+                  splits={stats.splits}
+                  checkpoints={stateRef.current.race.sims[0].checkpoints}
+                  bestSplits={stateRef.current.bestSplits}
+                />
+              </div>
+            )}
+
+            <div className="mb-6 space-y-2 font-mono text-sm text-slate-300">
+              {stats.gatesCleared !== undefined && (
+                <>
+                  <p className="flex justify-between"><span>GATES CLEARED:</span> <span className="text-white">{stats.gatesCleared}</span></p>
+                  <p className={`flex justify-between ${stats.gatesMissed ? 'text-red-300' : ''}`}>
+                    <span>GATES MISSED:</span>
+                    <span>{stats.gatesMissed}{stats.gatePenalty ? ` (+${(stats.gatePenalty / 1000).toFixed(2)}s)` : ''}</span>
+                  </p>
+                </>
+              )}
+              <p className="flex justify-between"><span>SCORE:</span> <span className="text-white">{stats.score.toLocaleString()}</span></p>
+              {stats.breakdown && <ScoreBreakdownList breakdown={stats.breakdown} />}
             </div>
 
-            {!hasSubmitted ? (
+            {isCustomTrail ? (
+              <div className="mb-6 text-center text-slate-400 font-mono text-xs">
+                Custom trails aren't ranked. Export it from the editor to share it.
+              </div>
+            ) : isPausedProRun ? (
+              <div className="mb-6 text-center text-slate-400 font-mono text-xs">
+                Paused PRO runs can't be submitted to the leaderboard.
+              </div>
+            ) : !hasSubmitted ? (
               <div className="mb-6">
                 <label className="block text-xs font-retro text-slate-400 mb-2">ENTER NAME FOR LEADERBOARD</label>
                 <div className="flex gap-2">
@@ -996,57 +2070,89 @@ export const GameCanvas: React.FC = () => {
                   />
                   <button
                     onClick={saveToLeaderboard}
-                    disabled={!playerName}
+                    disabled={!playerName || isSubmitting}
                     className="bg-yellow-600 hover:bg-yellow-500 disabled:opacity-50 text-white px-4 py-2 font-bold font-retro text-xs"
                   >
-                    SUBMIT
+                    {isSubmitting ? 'CHECKING...' : 'SUBMIT'}
                   </button>
                 </div>
+                {submitError && (
+                  <p className="mt-2 text-red-400 text-xs font-mono">REJECTED: {submitError}</p>
+                )}
               </div>
             ) : (
-              <div className="mb-6 text-center text-green-400 font-retro text-sm">
-                SCORE SUBMITTED!
+              <div className={`mb-6 text-center font-retro text-sm ${submitQueued ? 'text-amber-400' : 'text-green-400'}`}>
+                {submitQueued ? 'SAVED OFFLINE. WILL SYNC WHEN ONLINE.' : 'SCORE SUBMITTED!'}
               </div>
             )}
 
             <div className="border-t border-slate-600 pt-4">
               <h3 className="flex items-center gap-2 text-yellow-400 font-retro text-xs mb-3">
-                <Trophy size={14} /> LEADERBOARD
+                <Trophy size={14} /> {BOARD_TITLES[resultBoard.board]}
+                <span className="text-slate-400">· {resultBoard.difficulty === Difficulty.HARD ? 'PRO' : 'EASY'}</span>
               </h3>
-              <div className="space-y-2">
-                {leaderboard.length === 0 ? (
-                  <p className="text-slate-500 text-xs italic">No records yet. Be the first!</p>
-                ) : (
-                  leaderboard.map((entry, idx) => (
-                    <div key={idx} className={`flex justify-between items-center text-sm font-mono ${entry.name === playerName && hasSubmitted ? 'text-yellow-300' : 'text-slate-300'}`}>
-                      <div className="flex items-center gap-2">
-                        <span>{idx + 1}. {entry.name}</span>
-                        {entry.difficulty && (
-                          <span className={`text-xs px-1 py-0.5 rounded ${entry.difficulty === 'HARD' ? 'bg-red-900 text-red-200' : 'bg-green-900 text-green-200'}`}>
-                            {entry.difficulty === 'HARD' ? 'H' : 'E'}
-                          </span>
-                        )}
-                      </div>
-                      <div className="flex gap-4">
-                        {entry.distance !== undefined && entry.distance < GAME_CONFIG.TRACK_LENGTH && (
-                          <span className="text-slate-500 text-xs">{Math.floor(entry.distance)}ft</span>
-                        )}
-                        <span>{(entry.time / 1000).toFixed(2)}s</span>
-                      </div>
-                    </div>
-                  ))
-                )}
+              <LeaderboardTable
+                entries={leaderboard}
+                board={resultBoard.board}
+                highlightId={submittedEntryId}
+                onRaceGhost={raceGhost}
+              />
+            </div>
+
+            {resultBoard.board !== 'slalom' && (
+              <div className="border-t border-slate-600 pt-4 mt-4">
+                <h3 className="flex items-center gap-2 text-yellow-400 font-retro text-xs mb-3">
+                  <Trophy size={14} /> {BOARD_TITLES.score}
+                  <span className="text-slate-400">· {resultBoard.difficulty === Difficulty.HARD ? 'PRO' : 'EASY'}</span>
+                </h3>
+                <LeaderboardTable
+                  entries={scoreBoard}
+                  board="score"
+                  highlightId={submittedEntryId}
+                  onRaceGhost={raceGhost}
+                />
               </div>
+            )}
+
+            <div className="border-t border-slate-600 pt-4 mt-4">
+              <h3 className="text-yellow-400 font-retro text-sm mb-2">CHUCK'S TIPS:</h3>
+              <p className="italic text-lg leading-relaxed text-slate-200 min-h-[60px]">
+                {isLoadingCoach ? "Chuck is radioing in..." : `"${coachComment}"`}
+              </p>
             </div>
           </div>
 
           <div className="mt-8 flex flex-col sm:flex-row gap-4 items-center justify-center">
             <button
-              onClick={startGame}
+              onClick={() => startGame()}
               className="flex items-center gap-2 bg-white hover:bg-slate-200 text-green-900 font-bold py-3 px-8 border-4 border-slate-300 font-retro transition-transform hover:scale-105"
             >
-              <RotateCcw size={24} /> SKI AGAIN
+              <RotateCcw size={24} /> {lobby ? 'LOBBY' : 'SKI AGAIN'}
             </button>
+            {lastReplay && (
+              <button
+                onClick={() => watchReplay(lastReplay, false)}
+                className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-8 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+              >
+                <Film size={24} /> REPLAY
+              </button>
+            )}
+            {lastRunId && (
+              <button
+                onClick={() => openAnalysis(lastRunId)}
+                className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-8 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+              >
+                <LineChart size={24} /> ANALYSIS
+              </button>
+            )}
+            {isCustomTrail && (
+              <button
+                onClick={openEditor}
+                className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-8 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+              >
+                <Pencil size={24} /> EDITOR
+              </button>
+            )}
             <button
               onClick={() => setGameState(GameState.MENU)}
               className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-8 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
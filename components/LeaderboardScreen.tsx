@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Trophy, X } from 'lucide-react';
+import { Difficulty, LeaderboardEntry } from '../types';
+import { Replay } from '../engine/replay';
+import { TRAILS } from '../trails';
+import {
+  BoardKind, TimeWindow, LeaderboardQuery, RankedEntry, loadLeaderboardPage, findPlayerRank
+} from '../services/leaderboardService';
+import { LeaderboardTable, LeaderboardRow } from './LeaderboardTable';
+
+interface LeaderboardScreenProps {
+  initialTrailId: string;
+  initialDifficulty: Difficulty;
+  playerName: string; // Empty when this device has never submitted a run
+  onRaceGhost: (name: string, replay: Replay) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const WINDOWS: { window: TimeWindow; label: string }[] = [
+  { window: 'today', label: 'TODAY' },
+  { window: 'week', label: 'THIS WEEK' },
+  { window: 'all', label: 'ALL TIME' },
+];
+
+const BOARDS: { board: BoardKind; label: string }[] = [
+  { board: 'fastest', label: 'FASTEST FINISH' },
+  { board: 'furthest', label: 'FURTHEST CRASH' },
+  { board: 'score', label: 'HIGH SCORE' },
+  { board: 'slalom', label: 'SLALOM' },
+];
+
+const tabClass = (active: boolean) =>
+  `px-3 py-2 font-retro text-[10px] border-2 ${active ? 'bg-yellow-500 border-yellow-600 text-black' : 'bg-slate-800 border-slate-600 text-slate-400 hover:text-white'}`;
+
+export const LeaderboardScreen: React.FC<LeaderboardScreenProps> = ({
+  initialTrailId, initialDifficulty, playerName, onRaceGhost, onClose
+}) => {
+  const [trailId, setTrailId] = useState(initialTrailId);
+  const [difficulty, setDifficulty] = useState(initialDifficulty);
+  const [board, setBoard] = useState<BoardKind>('fastest');
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>('all');
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [playerRank, setPlayerRank] = useState<RankedEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Any filter change starts over from the first page
+  const filterBy = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setPage(0);
+  };
+  const selectTrail = filterBy(setTrailId);
+  const selectDifficulty = filterBy(setDifficulty);
+  const selectBoard = filterBy(setBoard);
+  const selectWindow = filterBy(setTimeWindow);
+
+  useEffect(() => {
+    let cancelled = false;
+    const query: LeaderboardQuery = { trailId, difficulty, board, window: timeWindow, offset: page * PAGE_SIZE, limit: PAGE_SIZE };
+    setIsLoading(true);
+    Promise.all([
+      loadLeaderboardPage(query),
+      playerName ? findPlayerRank(query, playerName) : Promise.resolve(null)
+    ]).then(([result, rank]) => {
+      if (cancelled) return;
+      setEntries(result.entries);
+      setTotal(result.total);
+      setPlayerRank(rank);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [trailId, difficulty, board, timeWindow, page, playerName]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const firstRank = page * PAGE_SIZE + 1;
+  // Pin the player's own row when it isn't on the page being shown
+  const showPinnedRank = playerRank !== null
+    && (playerRank.rank < firstRank || playerRank.rank >= firstRank + entries.length);
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-30 p-4 overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border-2 border-slate-600 max-w-2xl w-full shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="flex items-center gap-2 text-2xl font-retro text-yellow-400">
+            <Trophy size={24} /> LEADERBOARD
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Back to menu">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1 mb-2">
+          {TRAILS.map(trail => (
+            <button key={trail.id} onClick={() => selectTrail(trail.id)} className={tabClass(trail.id === trailId)}>
+              {trail.name.toUpperCase()}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2 mb-2">
+          <div className="flex gap-1">
+            <button onClick={() => selectDifficulty(Difficulty.HARD)} className={tabClass(difficulty === Difficulty.HARD)}>PRO</button>
+            <button onClick={() => selectDifficulty(Difficulty.EASY)} className={tabClass(difficulty === Difficulty.EASY)}>EASY</button>
+          </div>
+          <div className="flex gap-1">
+            {WINDOWS.map(w => (
+              <button key={w.window} onClick={() => selectWindow(w.window)} className={tabClass(timeWindow === w.window)}>
+                {w.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-1 mb-4">
+          {BOARDS.map(b => (
+            <button key={b.board} onClick={() => selectBoard(b.board)} className={tabClass(board === b.board)}>
+              {b.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="min-h-[280px]">
+          {isLoading ? (
+            <p className="text-slate-500 text-xs italic">Loading...</p>
+          ) : (
+            <LeaderboardTable
+              entries={entries}
+              board={board}
+              startRank={firstRank}
+              highlightId={playerRank?.entry.id ?? null}
+              onRaceGhost={onRaceGhost}
+            />
+          )}
+        </div>
+
+        {!isLoading && showPinnedRank && (
+          <div className="mt-2 pt-2 border-t-2 border-dashed border-slate-600">
+            <LeaderboardRow
+              entry={playerRank!.entry}
+              rank={playerRank!.rank}
+              board={board}
+              isHighlighted
+              onRaceGhost={onRaceGhost}
+            />
+          </div>
+        )}
+
+        <div className="mt-4 flex items-center justify-center gap-4 font-mono text-xs text-slate-400">
+          <button
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0}
+            className="p-1 border-2 border-slate-600 disabled:opacity-30 hover:text-white"
+            title="Previous page"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span>PAGE {page + 1} / {pageCount}</span>
+          <button
+            onClick={() => setPage(p => p + 1)}
+            disabled={page + 1 >= pageCount}
+            className="p-1 border-2 border-slate-600 disabled:opacity-30 hover:text-white"
+            title="Next page"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Clock, HardDrive, Pause, Ghost as GhostIcon } from 'lucide-react';
+import { LeaderboardEntry } from '../types';
+import { Replay, validateReplay, wasPaused } from '../engine/replay';
+import { BoardKind } from '../services/leaderboardService';
+
+interface LeaderboardTableProps {
+  entries: LeaderboardEntry[];
+  board: BoardKind;
+  startRank?: number; // Rank of the first row when showing a later page
+  highlightId: string | null; // The player's own just-submitted entry
+  onRaceGhost: (name: string, replay: Replay) => void;
+  className?: string;
+}
+
+export const LeaderboardTable: React.FC<LeaderboardTableProps> = ({ entries, board, startRank = 1, highlightId, onRaceGhost, className = '' }) => (
+  <div className={`space-y-2 ${className}`}>
+    {entries.length === 0 ? (
+      <p className="text-slate-500 text-xs italic">No records yet. Be the first!</p>
+    ) : (
+      entries.map((entry, idx) => (
+        <LeaderboardRow
+          key={entry.id ?? idx}
+          entry={entry}
+          rank={startRank + idx}
+          board={board}
+          isHighlighted={highlightId !== null && entry.id === highlightId}
+          onRaceGhost={onRaceGhost}
+        />
+      ))
+    )}
+  </div>
+);
+
+interface LeaderboardRowProps {
+  entry: LeaderboardEntry;
+  rank: number;
+  board: BoardKind;
+  isHighlighted: boolean;
+  onRaceGhost: (name: string, replay: Replay) => void;
+}
+
+export const LeaderboardRow: React.FC<LeaderboardRowProps> = ({ entry, rank, board, isHighlighted, onRaceGhost }) => (
+  <div className={`flex justify-between items-center text-sm font-mono ${isHighlighted ? 'text-yellow-300' : 'text-slate-300'}`}>
+    <div className="flex items-center gap-2">
+      <span>{rank}. {entry.name}</span>
+      {entry.difficulty && (
+        <span className={`text-xs px-1 py-0.5 rounded ${entry.difficulty === 'HARD' ? 'bg-red-900 text-red-200' : 'bg-green-900 text-green-200'}`}>
+          {entry.difficulty === 'HARD' ? 'H' : 'E'}
+        </span>
+      )}
+      {entry.replay && wasPaused(entry.replay) && (
+        <span className="text-slate-500" title="Paused during the run"><Pause size={12} /></span>
+      )}
+      {entry.syncStatus === 'pending' && (
+        <span className="text-amber-400" title="Waiting to sync. Not verified yet."><Clock size={12} /></span>
+      )}
+      {entry.syncStatus === 'local' && (
+        <span className="text-slate-500" title="Saved on this device only"><HardDrive size={12} /></span>
+      )}
+    </div>
+    <div className="flex items-center gap-4">
+      {board === 'furthest' ? (
+        <>
+          <span className="text-slate-500 text-xs">{(entry.time / 1000).toFixed(2)}s</span>
+          <span>{Math.floor(entry.distance ?? 0)}ft</span>
+        </>
+      ) : board === 'score' ? (
+        <>
+          <span className="text-slate-500 text-xs">{(entry.time / 1000).toFixed(2)}s</span>
+          <span>{(entry.score ?? 0).toLocaleString()}</span>
+        </>
+      ) : (
+        <span>{(entry.time / 1000).toFixed(2)}s</span>
+      )}
+      {entry.replay && validateReplay(entry.replay) === null && (
+        <button onClick={() => onRaceGhost(entry.name, entry.replay!)} className="text-slate-500 hover:text-white" title={`Race ${entry.name}'s ghost`}>
+          <GhostIcon size={14} />
+        </button>
+      )}
+    </div>
+  </div>
+);
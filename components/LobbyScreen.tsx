@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Check, Crown, Globe, Play, X } from 'lucide-react';
+import { Difficulty, GameMode, SkierSkin } from '../types';
+import { SKIER_SKINS, DEFAULT_SKIN } from '../constants';
+import { TRAILS } from '../trails';
+import { Lobby, RaceSettings, LOBBY_SIZE } from '../engine/online';
+import { multiplayerService, loadRaceServerDetails } from '../services/multiplayerService';
+import { loadPlayerName, savePlayerName } from '../services/leaderboardService';
+
+interface LobbyScreenProps {
+  lobby: Lobby | null; // null until we've joined one
+  selfId: string | null;
+  skin: SkierSkin;
+  initialSettings: RaceSettings; // What the menu had picked, for a new lobby
+  notice: string | null; // Why we were dropped, or what the server refused
+  onClose: () => void;
+}
+
+const skinFor = (id: string) => SKIER_SKINS.find(skin => skin.id === id) ?? DEFAULT_SKIN;
+
+const optionClass = (selected: boolean) =>
+  `px-3 py-2 border-2 disabled:cursor-default ${selected ? 'bg-slate-200 border-white text-black' : 'bg-slate-800 border-slate-600 text-slate-400'}`;
+
+export const LobbyScreen: React.FC<LobbyScreenProps> = ({ lobby, selfId, skin, initialSettings, notice, onClose }) => {
+  const [details, setDetails] = useState(loadRaceServerDetails);
+  const [name, setName] = useState(loadPlayerName);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [connectError, setConnectError] = useState<string | null>(null);
+
+  const connect = async () => {
+    const trimmed = name.trim().substring(0, 10);
+    if (!trimmed || isConnecting) return;
+    setIsConnecting(true);
+    setConnectError(null);
+    try {
+      savePlayerName(trimmed);
+      await multiplayerService.connect(
+        { url: details.url.trim(), room: details.room.trim().toUpperCase() }, trimmed, skin.id, initialSettings
+      );
+    } catch (e) {
+      setConnectError((e as Error).message);
+    }
+    setIsConnecting(false);
+  };
+
+  const self = lobby?.players.find(player => player.id === selfId) ?? null;
+  const isHost = lobby !== null && lobby.hostId === selfId;
+  const everyoneReady = lobby !== null && lobby.players.every(player => player.ready);
+  const changeSettings = (change: Partial<RaceSettings>) => {
+    if (lobby) multiplayerService.setSettings({ ...lobby.settings, ...change });
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-30 p-4 overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border-2 border-slate-600 max-w-xl w-full shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="flex items-center gap-2 text-2xl font-retro text-yellow-400">
+            <Globe size={24} /> ONLINE RACE
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Leave and go back to the menu">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!lobby ? (
+          <div className="space-y-3 font-mono text-sm">
+            <label className="block">
+              <span className="block text-xs font-retro text-slate-400 mb-1">SERVER</span>
+              <input
+                type="text"
+                value={details.url}
+                onChange={(e) => setDetails({ ...details, url: e.target.value })}
+                className="w-full bg-slate-900 border border-slate-600 text-white px-3 py-2 focus:border-yellow-400 outline-none"
+                placeholder="ws://192.168.1.20:8788"
+              />
+            </label>
+            <div className="flex gap-3">
+              <label className="flex-1">
+                <span className="block text-xs font-retro text-slate-400 mb-1">ROOM</span>
+                <input
+                  type="text"
+                  value={details.room}
+                  onChange={(e) => setDetails({ ...details, room: e.target.value })}
+                  maxLength={12}
+                  className="w-full bg-slate-900 border border-slate-600 text-white px-3 py-2 uppercase focus:border-yellow-400 outline-none"
+                />
+              </label>
+              <label className="flex-1">
+                <span className="block text-xs font-retro text-slate-400 mb-1">NAME</span>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={10}
+                  className="w-full bg-slate-900 border border-slate-600 text-white px-3 py-2 uppercase focus:border-yellow-400 outline-none"
+                  placeholder="AAA"
+                />
+              </label>
+            </div>
+            <button
+              onClick={connect}
+              disabled={!name.trim() || !details.url.trim() || isConnecting}
+              className="w-full bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black font-bold py-3 border-4 border-yellow-600 font-retro"
+            >
+              {isConnecting ? 'CONNECTING...' : 'JOIN LOBBY'}
+            </button>
+            {(connectError ?? notice) && <p className="text-red-400 text-xs">{connectError ?? notice}</p>}
+            <p className="text-slate-500 text-xs">
+              Start the relay with <span className="text-slate-300">npm run race-server</span> on any machine on the network.
+              Everyone who joins the same room races together, up to {LOBBY_SIZE} skiers.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-between font-mono text-sm text-slate-300">
+              <span>ROOM <span className="text-white">{lobby.room}</span></span>
+              <span>{lobby.players.length}/{LOBBY_SIZE}</span>
+            </div>
+
+            <div className="space-y-1">
+              {lobby.players.map(player => (
+                <div key={player.id} className="flex items-center justify-between bg-slate-900 border border-slate-700 px-3 py-2 font-mono text-sm">
+                  <span className="flex items-center gap-2">
+                    <span className="inline-block w-3 h-3" style={{ backgroundColor: skinFor(player.skin).suit }} />
+                    <span className={player.id === selfId ? 'text-yellow-300' : 'text-white'}>{player.name}</span>
+                    {player.id === lobby.hostId && <Crown size={12} className="text-yellow-400" />}
+                  </span>
+                  {player.ready
+                    ? <span className="flex items-center gap-1 text-green-400 text-xs"><Check size={12} /> READY</span>
+                    : <span className="text-slate-500 text-xs">WAITING</span>}
+                </div>
+              ))}
+            </div>
+
+            <div className="border-t border-slate-600 pt-4 space-y-2 font-retro text-xs">
+              <div className="flex flex-wrap gap-2">
+                {TRAILS.map(trail => (
+                  <button
+                    key={trail.id}
+                    onClick={() => changeSettings({ trailId: trail.id })}
+                    disabled={!isHost}
+                    className={optionClass(lobby.settings.trailId === trail.id)}
+                  >
+                    {trail.name.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => changeSettings({ difficulty: Difficulty.EASY })} disabled={!isHost} className={optionClass(lobby.settings.difficulty === Difficulty.EASY)}>
+                  EASY
+                </button>
+                <button onClick={() => changeSettings({ difficulty: Difficulty.HARD })} disabled={!isHost} className={optionClass(lobby.settings.difficulty === Difficulty.HARD)}>
+                  PRO
+                </button>
+                <span className="w-4" />
+                <button onClick={() => changeSettings({ mode: GameMode.FREERIDE })} disabled={!isHost} className={optionClass(lobby.settings.mode === GameMode.FREERIDE)}>
+                  FREERIDE
+                </button>
+                <button onClick={() => changeSettings({ mode: GameMode.SLALOM })} disabled={!isHost} className={optionClass(lobby.settings.mode === GameMode.SLALOM)}>
+                  SLALOM
+                </button>
+              </div>
+              {!isHost && <p className="font-mono text-slate-500">The host picks the course.</p>}
+            </div>
+
+            {lobby.racing ? (
+              <p className="text-center text-slate-300 font-retro text-xs animate-pulse">RACE IN PROGRESS...</p>
+            ) : (
+              <div className="flex gap-3">
+                <button
+                  onClick={() => multiplayerService.setReady(!self?.ready)}
+                  className={`flex-1 flex items-center justify-center gap-2 py-3 border-4 font-retro text-sm ${self?.ready ? 'bg-green-600 border-green-800 text-white' : 'bg-slate-700 border-slate-500 text-white hover:bg-slate-600'}`}
+                >
+                  <Check size={16} /> {self?.ready ? 'READY!' : 'READY?'}
+                </button>
+                {isHost && (
+                  <button
+                    onClick={() => multiplayerService.startRace()}
+                    disabled={!everyoneReady}
+                    className="flex-1 flex items-center justify-center gap-2 bg-yellow-500 hover:bg-yellow-400 disabled:opacity-50 text-black font-bold py-3 border-4 border-yellow-600 font-retro text-sm"
+                  >
+                    <Play size={16} /> START
+                  </button>
+                )}
+              </div>
+            )}
+            {notice && <p className="text-red-400 text-xs font-mono">{notice}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
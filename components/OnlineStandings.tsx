@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Globe } from 'lucide-react';
+import { SKIER_SKINS, DEFAULT_SKIN } from '../constants';
+import { OnlineStanding, SkierState, NET_TICK_MS } from '../engine/online';
+
+interface OnlineStandingsProps {
+  getStandings: () => OnlineStanding[]; // Read fresh on every refresh
+}
+
+// The rest of the lobby keeps racing after you're done
+const REFRESH_MS = NET_TICK_MS * 5;
+
+const describeState = (state: SkierState | null) => {
+  if (!state) return 'WAITING';
+  if (state.status === 'finished') return `${(state.time / 1000).toFixed(2)}s`;
+  const distance = `${Math.floor(state.y).toLocaleString()}ft`;
+  return state.status === 'crashed' ? `${distance} · OUT` : `${distance} · SKIING`;
+};
+
+export const OnlineStandings: React.FC<OnlineStandingsProps> = ({ getStandings }) => {
+  const [standings, setStandings] = useState<OnlineStanding[]>(getStandings);
+
+  useEffect(() => {
+    const timer = setInterval(() => setStandings(getStandings()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [getStandings]);
+
+  return (
+    <div>
+      <h3 className="flex items-center gap-2 text-yellow-400 font-retro text-xs mb-3">
+        <Globe size={14} /> RACE STANDINGS
+      </h3>
+      <div className="space-y-1 font-mono text-sm">
+        {standings.map((racer, place) => (
+          <div key={racer.id ?? 'you'} className="flex justify-between">
+            <span className="flex items-center gap-2">
+              <span className="text-slate-400 w-6">{place + 1}.</span>
+              <span className="inline-block w-3 h-3" style={{ backgroundColor: (SKIER_SKINS.find(skin => skin.id === racer.skin) ?? DEFAULT_SKIN).suit }} />
+              <span className={racer.id === null ? 'text-yellow-300' : 'text-white'}>{racer.name}</span>
+            </span>
+            <span className={racer.state?.status === 'crashed' ? 'text-red-300' : 'text-slate-200'}>{describeState(racer.state)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Flag, RotateCcw, Film } from 'lucide-react';
+import { GameStats } from '../types';
+import { Replay } from '../engine/replay';
+
+// One skier's run in a finished race
+export interface RacerResult {
+  label: string; // P1, P2, ...
+  color: string; // Their suit color
+  stats: GameStats;
+  replay: Replay;
+}
+
+interface RaceResultsProps {
+  racers: RacerResult[]; // In seat order
+  standings: number[]; // Seats from first to last
+  onWatchReplay: (replay: Replay) => void;
+  onRematch: () => void;
+  onMenu: () => void;
+}
+
+const PLACES = ['1ST', '2ND', '3RD'];
+const placeLabel = (index: number) => PLACES[index] ?? `${index + 1}TH`;
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+// "P1 beat P2 by 1.23s", or by how much further they got
+const describeMargin = (winner: RacerResult, runnerUp: RacerResult): string => {
+  const a = winner.stats;
+  const b = runnerUp.stats;
+  if (a.causeOfDeath === null && b.causeOfDeath === null) {
+    const margin = (b.time ?? 0) - (a.time ?? 0);
+    return margin === 0 ? `${winner.label} and ${runnerUp.label} tied!` : `${winner.label} beat ${runnerUp.label} by ${formatSeconds(margin)}`;
+  }
+  if (a.causeOfDeath === null) return `${winner.label} made it down, ${runnerUp.label} didn't`;
+  const margin = Math.floor(a.distance) - Math.floor(b.distance);
+  return margin === 0 ? `${winner.label} and ${runnerUp.label} went down together` : `${winner.label} got ${margin.toLocaleString()}ft further than ${runnerUp.label}`;
+};
+
+export const RaceResults: React.FC<RaceResultsProps> = ({
+  racers, standings, onWatchReplay, onRematch, onMenu
+}) => {
+  const winner = racers[standings[0]];
+  const runnerUp = racers[standings[1]];
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900/80 backdrop-blur-sm text-white z-30 p-4 overflow-y-auto">
+      <h2 className="flex items-center gap-3 text-4xl font-retro mb-2 drop-shadow-md" style={{ color: winner.color }}>
+        <Flag size={32} /> {winner.label} WINS!
+      </h2>
+      {runnerUp && <p className="mb-6 text-slate-300 font-mono">{describeMargin(winner, runnerUp)}</p>}
+
+      <div className="bg-slate-800 p-6 rounded-lg border-2 border-slate-600 max-w-2xl w-full shadow-2xl">
+        <div className="space-y-4">
+          {standings.map((seat, place) => {
+            const racer = racers[seat];
+            const { stats } = racer;
+            return (
+              <div key={seat} className="border-b border-slate-700 pb-4 last:border-b-0 last:pb-0">
+                <div className="flex items-center justify-between font-mono text-sm mb-2">
+                  <span className="flex items-center gap-3">
+                    <span className="font-retro text-xs text-yellow-400 w-8">{placeLabel(place)}</span>
+                    <span className="font-retro text-xs" style={{ color: racer.color }}>{racer.label}</span>
+                  </span>
+                  {stats.causeOfDeath === null ? (
+                    <span className="text-white">{formatSeconds(stats.time ?? 0)}</span>
+                  ) : (
+                    <span className="text-red-300">{Math.floor(stats.distance).toLocaleString()}ft · {stats.causeOfDeath}</span>
+                  )}
+                </div>
+                <div className="flex justify-between text-xs font-mono text-slate-400 mb-2">
+                  <span>SCORE {stats.score.toLocaleString()}</span>
+                  <span>TOP SPEED {Math.floor(stats.topSpeed)} mph</span>
+                  {stats.gatesCleared !== undefined && <span>GATES {stats.gatesCleared}/{stats.gatesCleared + (stats.gatesMissed ?? 0)}</span>}
+                  <button onClick={() => onWatchReplay(racer.replay)} className="flex items-center gap-1 hover:text-white" title="Watch this run">
+                    <Film size={12} /> REPLAY
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {/* The shared yeti only ever chases whoever is behind, so race runs don't compare with solo ones */}
+        <p className="mt-4 text-center text-slate-400 font-mono text-xs">Split-screen races aren't ranked on the leaderboard.</p>
+      </div>
+
+      <div className="flex gap-4 mt-6">
+        <button
+          onClick={onRematch}
+          className="flex items-center gap-2 bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-3 px-8 border-4 border-yellow-600 font-retro transition-transform hover:scale-105"
+        >
+          <RotateCcw size={20} /> REMATCH
+        </button>
+        <button
+          onClick={onMenu}
+          className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-8 border-4 border-slate-500 font-retro transition-transform hover:scale-105"
+        >
+          MENU
+        </button>
+      </div>
+    </div>
+  );
+};
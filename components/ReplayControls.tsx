@@ -0,0 +1,83 @@
+import React from 'react';
+import { Play, Pause, Save, Download, X } from 'lucide-react';
+import { STEP_MS } from '../engine/simulation';
+
+interface ReplayControlsProps {
+  tick: number;
+  totalTicks: number;
+  paused: boolean;
+  speed: number;
+  isSaved: boolean;
+  onTogglePause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onSave: () => void;
+  onDownload: () => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2];
+
+const formatTime = (ticks: number) => (ticks * STEP_MS / 1000).toFixed(2);
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  tick, totalTicks, paused, speed, isSaved,
+  onTogglePause, onSeek, onSpeedChange, onSave, onDownload, onExit
+}) => (
+  <div className="absolute bottom-0 left-0 w-full z-30 bg-black/70 text-white p-4 font-mono text-sm">
+    <div className="flex items-center gap-3 max-w-3xl mx-auto">
+      <button
+        onClick={onTogglePause}
+        className="p-2 bg-yellow-500 hover:bg-yellow-400 text-black border-2 border-yellow-600"
+        title={paused ? 'Play' : 'Pause'}
+      >
+        {paused ? <Play size={18} /> : <Pause size={18} />}
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={totalTicks}
+        value={tick}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-yellow-400"
+      />
+      <span className="w-28 text-right">{formatTime(tick)}s / {formatTime(totalTicks)}s</span>
+
+      <div className="flex">
+        {SPEEDS.map(s => (
+          <button
+            key={s}
+            onClick={() => onSpeedChange(s)}
+            className={`px-2 py-1 border-2 font-retro text-xs ${speed === s ? 'bg-yellow-500 border-yellow-600 text-black' : 'bg-slate-800 border-slate-600 text-slate-300'}`}
+          >
+            {s}x
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={onSave}
+        disabled={isSaved}
+        className="p-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 border-2 border-slate-500"
+        title={isSaved ? 'Saved' : 'Save replay'}
+      >
+        <Save size={18} />
+      </button>
+      <button
+        onClick={onDownload}
+        className="p-2 bg-slate-700 hover:bg-slate-600 border-2 border-slate-500"
+        title="Download replay"
+      >
+        <Download size={18} />
+      </button>
+      <button
+        onClick={onExit}
+        className="p-2 bg-slate-700 hover:bg-slate-600 border-2 border-slate-500"
+        title="Exit replay"
+      >
+        <X size={18} />
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,21 @@
+import React from 'react';
+import { ScoreBreakdown, ScoreKind, SCORE_LABELS } from '../engine/scoring';
+
+interface ScoreBreakdownListProps {
+  breakdown: ScoreBreakdown;
+}
+
+// Where a run's points came from, skipping anything that scored nothing
+export const ScoreBreakdownList: React.FC<ScoreBreakdownListProps> = ({ breakdown }) => {
+  const kinds = (Object.keys(SCORE_LABELS) as ScoreKind[]).filter(kind => breakdown[kind] > 0);
+  if (kinds.length === 0) return null;
+  return (
+    <div className="pl-4 space-y-1 text-xs text-slate-400">
+      {kinds.map(kind => (
+        <p key={kind} className="flex justify-between">
+          <span>{SCORE_LABELS[kind]}</span> <span>+{breakdown[kind].toLocaleString()}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
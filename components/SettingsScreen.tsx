@@ -0,0 +1,345 @@
+import React, { useEffect, useState } from 'react';
+import { Gamepad2, Keyboard, Plus, Radio, RotateCcw, X } from 'lucide-react';
+import {
+  ControlBindings, InputAction, INPUT_ACTIONS, ACTION_LABELS, SeatAction, SEAT_ACTIONS,
+  inputService, normalizeKey, describeKey, describeButton
+} from '../services/inputService';
+import {
+  CoachSettings, CoachProviderId, COACH_PROVIDERS, COACH_TIMEOUT_MS,
+  loadCoachSettings, saveCoachSettings, testCoachProvider
+} from '../services/coachService';
+
+interface SettingsScreenProps {
+  onClose: () => void;
+}
+
+type Device = 'keyboard' | 'gamepad';
+
+interface Capture {
+  action: InputAction;
+  device: Device;
+  seat?: number; // Set when binding a split-screen player's keys
+}
+
+// A key or button drives one action at a time, so binding it elsewhere moves it
+const bind = <T,>(map: Record<InputAction, T[]>, action: InputAction, input: T): Record<InputAction, T[]> => {
+  const next = { ...map };
+  for (const a of INPUT_ACTIONS) next[a] = next[a].filter(i => i !== input);
+  next[action] = [...next[action], input];
+  return next;
+};
+
+// Likewise a split-screen key steers one player one way
+const bindSeat = (seats: ControlBindings['seats'], seat: number, action: SeatAction, key: string): ControlBindings['seats'] =>
+  seats.map((keys, i) => {
+    const next = { ...keys };
+    for (const a of SEAT_ACTIONS) next[a] = next[a].filter(k => k !== key);
+    if (i === seat) next[action] = [...next[action], key];
+    return next;
+  });
+
+const COACH_PROVIDER_IDS = Object.keys(COACH_PROVIDERS) as CoachProviderId[];
+
+const optionClass = (selected: boolean) =>
+  `px-3 py-2 border-2 ${selected ? 'bg-slate-200 border-white text-black' : 'bg-slate-800 border-slate-600 text-slate-400 hover:text-white'}`;
+
+interface FieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  secret?: boolean;
+}
+
+const Field: React.FC<FieldProps> = ({ label, value, onChange, placeholder, secret }) => (
+  <label className="block">
+    <span className="block text-slate-400 mb-1">{label}</span>
+    <input
+      type={secret ? 'password' : 'text'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      className="w-full bg-slate-900 border border-slate-600 text-white px-3 py-2 focus:border-yellow-400 outline-none"
+      autoComplete="off"
+      spellCheck={false}
+    />
+  </label>
+);
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onClose }) => {
+  const [bindings, setBindings] = useState<ControlBindings>(() => inputService.getBindings());
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [gamepadName, setGamepadName] = useState<string | null>(() => inputService.getGamepad()?.id ?? null);
+  const [coach, setCoach] = useState<CoachSettings>(loadCoachSettings);
+  const [isTestingCoach, setIsTestingCoach] = useState(false);
+  const [coachTest, setCoachTest] = useState<{ reply: string; failed: boolean } | null>(null);
+
+  const update = (next: ControlBindings) => {
+    setBindings(next);
+    inputService.setBindings(next);
+  };
+
+  // Keep the connected-pad label current
+  useEffect(() => {
+    const refresh = () => setGamepadName(inputService.getGamepad()?.id ?? null);
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, []);
+
+  // --- Capturing a New Binding ---
+  useEffect(() => {
+    if (!capture) return;
+    inputService.setCapturing(true);
+
+    if (capture.device === 'keyboard') {
+      // Capture phase so the key never reaches the game's own handlers
+      const handleKeyDown = (e: KeyboardEvent) => {
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        if (e.key !== 'Escape') {
+          const key = normalizeKey(e.key);
+          update(capture.seat === undefined
+            ? { ...bindings, keyboard: bind(bindings.keyboard, capture.action, key) }
+            : { ...bindings, seats: bindSeat(bindings.seats, capture.seat, capture.action as SeatAction, key) });
+        }
+        setCapture(null);
+      };
+      window.addEventListener('keydown', handleKeyDown, true);
+      return () => {
+        window.removeEventListener('keydown', handleKeyDown, true);
+        inputService.setCapturing(false);
+      };
+    }
+
+    // Gamepads have no events for buttons, so watch for the next new press
+    const baseline = inputService.readGamepadButtons() ?? [];
+    let frame = requestAnimationFrame(function watch() {
+      const buttons = inputService.readGamepadButtons() ?? [];
+      const pressed = buttons.findIndex((down, i) => down && !baseline[i]);
+      if (pressed !== -1) {
+        update({ ...bindings, gamepad: bind(bindings.gamepad, capture.action, pressed) });
+        setCapture(null);
+        return;
+      }
+      buttons.forEach((down, i) => { if (!down) baseline[i] = false; });
+      frame = requestAnimationFrame(watch);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      inputService.setCapturing(false);
+    };
+  }, [capture, bindings]);
+
+  const unbind = (action: InputAction, device: Device, index: number, seat?: number) => {
+    if (seat !== undefined) {
+      const seats = bindings.seats.map((keys, i) =>
+        i === seat ? { ...keys, [action]: keys[action as SeatAction].filter((_, j) => j !== index) } : keys);
+      update({ ...bindings, seats });
+    } else if (device === 'keyboard') {
+      update({ ...bindings, keyboard: { ...bindings.keyboard, [action]: bindings.keyboard[action].filter((_, i) => i !== index) } });
+    } else {
+      update({ ...bindings, gamepad: { ...bindings.gamepad, [action]: bindings.gamepad[action].filter((_, i) => i !== index) } });
+    }
+  };
+
+  const updateCoach = (next: CoachSettings) => {
+    setCoach(next);
+    saveCoachSettings(next);
+    setCoachTest(null);
+  };
+
+  const testCoach = async () => {
+    setIsTestingCoach(true);
+    setCoachTest(null);
+    try {
+      setCoachTest({ reply: await testCoachProvider(coach), failed: false });
+    } catch (e) {
+      setCoachTest({ reply: (e as Error).message, failed: true });
+    }
+    setIsTestingCoach(false);
+  };
+
+  const isCapturing = (action: InputAction, device: Device, seat?: number) =>
+    capture?.action === action && capture.device === device && capture.seat === seat;
+
+  const renderBindings = (action: InputAction, device: Device, seat?: number) => {
+    const labels = seat !== undefined
+      ? bindings.seats[seat][action as SeatAction].map(describeKey)
+      : device === 'keyboard'
+        ? bindings.keyboard[action].map(describeKey)
+        : bindings.gamepad[action].map(describeButton);
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        {labels.map((label, i) => (
+          <button
+            key={`${label}-${i}`}
+            onClick={() => unbind(action, device, i, seat)}
+            className="px-2 py-1 bg-slate-700 border border-slate-500 hover:border-red-400 hover:text-red-300"
+            title="Click to remove"
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={() => setCapture(isCapturing(action, device, seat) ? null : { action, device, seat })}
+          className={`px-2 py-1 border ${isCapturing(action, device, seat) ? 'bg-yellow-500 border-yellow-600 text-black animate-pulse' : 'border-dashed border-slate-500 text-slate-400 hover:text-white'}`}
+          title={device === 'keyboard' ? 'Add a key' : 'Add a gamepad button'}
+        >
+          {isCapturing(action, device, seat) ? (device === 'keyboard' ? 'PRESS A KEY' : 'PRESS A BUTTON') : <Plus size={12} />}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-30 p-4 overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border-2 border-slate-600 max-w-2xl w-full shadow-2xl">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-retro text-yellow-400">SETTINGS</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Back to menu">
+            <X size={20} />
+          </button>
+        </div>
+
+        <table className="w-full font-mono text-xs">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="pb-2">ACTION</th>
+              <th className="pb-2"><span className="flex items-center gap-1"><Keyboard size={14} /> KEYBOARD</span></th>
+              <th className="pb-2"><span className="flex items-center gap-1"><Gamepad2 size={14} /> GAMEPAD</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {INPUT_ACTIONS.map(action => (
+              <tr key={action} className="border-t border-slate-700">
+                <td className="py-2 pr-2 text-slate-200">{ACTION_LABELS[action]}</td>
+                <td className="py-2 pr-2">{renderBindings(action, 'keyboard')}</td>
+                <td className="py-2">{renderBindings(action, 'gamepad')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <table className="w-full mt-6 font-mono text-xs">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="pb-2">SPLIT SCREEN</th>
+              {bindings.seats.map((_, seat) => (
+                <th key={seat} className="pb-2"><span className="flex items-center gap-1"><Keyboard size={14} /> P{seat + 1}</span></th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SEAT_ACTIONS.map(action => (
+              <tr key={action} className="border-t border-slate-700">
+                <td className="py-2 pr-2 text-slate-200">{ACTION_LABELS[action]}</td>
+                {bindings.seats.map((_, seat) => (
+                  <td key={seat} className="py-2 pr-2">{renderBindings(action, 'keyboard', seat)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="mt-6 border-t border-slate-600 pt-4 space-y-2 font-mono text-xs">
+          <p className="text-slate-400">
+            {gamepadName ? `GAMEPAD: ${gamepadName}` : 'No gamepad detected. Press any button on it to connect.'}
+          </p>
+          <p className="text-slate-400">The left stick steers in proportion to how far you push it.</p>
+          <label className="flex items-center gap-3 text-slate-300">
+            STICK DEADZONE
+            <input
+              type="range"
+              min={0}
+              max={0.5}
+              step={0.05}
+              value={bindings.deadzone}
+              onChange={(e) => update({ ...bindings, deadzone: Number(e.target.value) })}
+              className="flex-1 accent-yellow-400"
+            />
+            <span className="w-10 text-right">{Math.round(bindings.deadzone * 100)}%</span>
+          </label>
+        </div>
+
+        <button
+          onClick={() => setBindings(inputService.resetBindings())}
+          className="mt-6 flex items-center gap-2 bg-slate-700 hover:bg-slate-600 border-2 border-slate-500 px-4 py-2 font-retro text-xs"
+        >
+          <RotateCcw size={14} /> RESET DEFAULTS
+        </button>
+
+        <div className="mt-6 border-t border-slate-600 pt-4 space-y-3 font-mono text-xs">
+          <h3 className="flex items-center gap-2 text-yellow-400 font-retro text-xs">
+            <Radio size={14} /> CHUCK'S COACHING
+          </h3>
+          <div className="flex flex-wrap gap-2 font-retro">
+            {COACH_PROVIDER_IDS.map(id => (
+              <button key={id} onClick={() => updateCoach({ ...coach, provider: id })} className={optionClass(coach.provider === id)}>
+                {COACH_PROVIDERS[id].label}
+              </button>
+            ))}
+          </div>
+
+          {coach.provider === 'canned' && (
+            <p className="text-slate-400">Chuck reads your run's telemetry and gives his own tips. No network needed.</p>
+          )}
+          {coach.provider === 'gemini' && (
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="API KEY" value={coach.gemini.apiKey} onChange={(apiKey) => updateCoach({ ...coach, gemini: { ...coach.gemini, apiKey } })} secret />
+              <Field label="MODEL" value={coach.gemini.model} onChange={(model) => updateCoach({ ...coach, gemini: { ...coach.gemini, model } })} />
+            </div>
+          )}
+          {coach.provider === 'openai' && (
+            <>
+              <Field
+                label="BASE URL"
+                value={coach.openai.url}
+                onChange={(url) => updateCoach({ ...coach, openai: { ...coach.openai, url } })}
+                placeholder="http://localhost:11434/v1"
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <Field label="MODEL" value={coach.openai.model} onChange={(model) => updateCoach({ ...coach, openai: { ...coach.openai, model } })} />
+                <Field
+                  label="API KEY (OPTIONAL)"
+                  value={coach.openai.apiKey}
+                  onChange={(apiKey) => updateCoach({ ...coach, openai: { ...coach.openai, apiKey } })}
+                  secret
+                />
+              </div>
+              <p className="text-slate-500">
+                Any chat completions endpoint works, including a local model server.
+                Run <span className="text-slate-300">npm run coach-server</span> for a mock one on the default URL.
+              </p>
+            </>
+          )}
+
+          {coach.provider !== 'canned' && (
+            <>
+              <p className="text-slate-500">
+                Keys are kept in this browser. If the model fails or takes over {COACH_TIMEOUT_MS / 1000}s, Chuck falls back to his own tips.
+              </p>
+              <div className="flex items-start gap-3">
+                <button
+                  onClick={testCoach}
+                  disabled={isTestingCoach}
+                  className="shrink-0 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 border-2 border-slate-500 px-4 py-2 font-retro"
+                >
+                  {isTestingCoach ? 'ASKING...' : 'TEST'}
+                </button>
+                {coachTest && (
+                  <p className={coachTest.failed ? 'text-red-400' : 'text-green-300 italic'}>
+                    {coachTest.failed ? coachTest.reply : `"${coachTest.reply}"`}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
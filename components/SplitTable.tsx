@@ -0,0 +1,48 @@
+import React from 'react';
+import { getSectionTimes } from '../engine/splits';
+
+interface SplitTableProps {
+  splits: number[]; // Elapsed ms at each checkpoint, then the finish
+  checkpoints: number[]; // Checkpoint distances (ft)
+  bestSplits: number[] | null; // The personal best's splits going into this run
+}
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+const formatDelta = (ms: number) => `${ms > 0 ? '+' : '-'}${(Math.abs(ms) / 1000).toFixed(2)}`;
+
+// Each section's time next to the personal best's time for the same section,
+// so the stretch that cost the most stands out
+export const SplitTable: React.FC<SplitTableProps> = ({ splits, checkpoints, bestSplits }) => {
+  const sections = getSectionTimes(splits);
+  // A best recorded on a different set of checkpoints can't be compared
+  const bestSections = bestSplits && bestSplits.length === splits.length ? getSectionTimes(bestSplits) : null;
+
+  return (
+    <table className="w-full font-mono text-xs text-slate-300">
+      <thead>
+        <tr className="text-slate-500">
+          <th className="text-left font-normal pb-1">AT</th>
+          <th className="text-right font-normal pb-1">SPLIT</th>
+          <th className="text-right font-normal pb-1">SECTION</th>
+          {bestSections && <th className="text-right font-normal pb-1">VS PB</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {splits.map((split, i) => {
+          const delta = bestSections ? sections[i] - bestSections[i] : null;
+          return (
+            <tr key={i}>
+              <td>{i < checkpoints.length ? `${checkpoints[i].toLocaleString()}ft` : 'FINISH'}</td>
+              <td className="text-right text-white">{formatTime(split)}</td>
+              <td className="text-right">{formatTime(sections[i])}</td>
+              {delta !== null && (
+                <td className={`text-right ${delta > 0 ? 'text-red-400' : 'text-green-400'}`}>{formatDelta(delta)}</td>
+              )}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
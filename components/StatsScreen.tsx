@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { BarChart3, Download, LineChart, Upload, X } from 'lucide-react';
+import { Difficulty, GameMode } from '../types';
+import { TRAILS } from '../trails';
+import {
+  RunRecord, DeathCategory, DEATH_LABELS, loadRunHistory, downloadRunHistory, importRunHistory,
+  getCareerStats, getBestTimeProgression, getCrashHistogram
+} from '../services/historyService';
+
+interface StatsScreenProps {
+  initialTrailId: string;
+  initialDifficulty: Difficulty;
+  onAnalyze: (runId: string | null) => void; // null: the newest run with telemetry
+  onClose: () => void;
+}
+
+const HISTOGRAM_BUCKETS = 10;
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 140;
+const CHART_PAD = 24;
+
+const tabClass = (active: boolean) =>
+  `px-3 py-2 font-retro text-[10px] border-2 ${active ? 'bg-yellow-500 border-yellow-600 text-black' : 'bg-slate-800 border-slate-600 text-slate-400 hover:text-white'}`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor(ms / 1000) % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-900 border border-slate-700 p-2">
+    <p className="text-[10px] font-retro text-slate-500">{label}</p>
+    <p className="font-mono text-white">{value}</p>
+  </div>
+);
+
+// Each finished run as a dot, with the best time so far as a stepped line
+const ProgressionChart: React.FC<{ runs: RunRecord[] }> = ({ runs }) => {
+  const points = getBestTimeProgression(runs);
+  if (points.length === 0) return <p className="text-slate-500 text-xs italic">No finished runs yet.</p>;
+
+  const times = points.map(p => p.time);
+  const slowest = Math.max(...times);
+  const fastest = Math.min(...times);
+  const span = Math.max(slowest - fastest, 1000);
+  const x = (i: number) => CHART_PAD + (points.length === 1 ? 0 : i * (CHART_WIDTH - CHART_PAD * 2) / (points.length - 1));
+  const y = (time: number) => CHART_PAD / 2 + (time - fastest) / span * (CHART_HEIGHT - CHART_PAD);
+  const bestLine = points.map((p, i) => `${i === 0 ? 'M' : 'H'}${x(i)} V${y(p.best)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+      <line x1={CHART_PAD} y1={CHART_HEIGHT - CHART_PAD / 2} x2={CHART_WIDTH - CHART_PAD} y2={CHART_HEIGHT - CHART_PAD / 2} stroke="#475569" />
+      <text x={0} y={y(fastest) + 4} fill="#94a3b8" fontSize="9" fontFamily="monospace">{(fastest / 1000).toFixed(0)}s</text>
+      <text x={0} y={y(slowest) + 4} fill="#94a3b8" fontSize="9" fontFamily="monospace">{(slowest / 1000).toFixed(0)}s</text>
+      {points.map((p, i) => (
+        <circle key={i} cx={x(i)} cy={y(p.time)} r={2.5} fill="#64748b">
+          <title>{`${new Date(p.date).toLocaleDateString()}: ${(p.time / 1000).toFixed(2)}s`}</title>
+        </circle>
+      ))}
+      <path d={bestLine} fill="none" stroke="#facc15" strokeWidth={2} />
+    </svg>
+  );
+};
+
+// How many crashes happened in each stretch of the trail
+const CrashHistogram: React.FC<{ runs: RunRecord[]; trailLength: number }> = ({ runs, trailLength }) => {
+  const counts = getCrashHistogram(runs, trailLength, HISTOGRAM_BUCKETS);
+  const most = Math.max(...counts);
+  if (most === 0) return <p className="text-slate-500 text-xs italic">No crashes yet.</p>;
+
+  const barWidth = (CHART_WIDTH - CHART_PAD * 2) / HISTOGRAM_BUCKETS;
+  const bucketFeet = trailLength / HISTOGRAM_BUCKETS;
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+      {counts.map((count, i) => {
+        const height = count / most * (CHART_HEIGHT - CHART_PAD * 1.5);
+        return (
+          <rect key={i} x={CHART_PAD + i * barWidth + 1} y={CHART_HEIGHT - CHART_PAD - height} width={barWidth - 2} height={height} fill="#ef4444">
+            <title>{`${Math.round(i * bucketFeet).toLocaleString()}-${Math.round((i + 1) * bucketFeet).toLocaleString()}ft: ${count}`}</title>
+          </rect>
+        );
+      })}
+      <line x1={CHART_PAD} y1={CHART_HEIGHT - CHART_PAD} x2={CHART_WIDTH - CHART_PAD} y2={CHART_HEIGHT - CHART_PAD} stroke="#475569" />
+      <text x={CHART_PAD} y={CHART_HEIGHT - 8} fill="#94a3b8" fontSize="9" fontFamily="monospace">0ft</text>
+      <text x={CHART_WIDTH - CHART_PAD} y={CHART_HEIGHT - 8} fill="#94a3b8" fontSize="9" fontFamily="monospace" textAnchor="end">
+        {trailLength.toLocaleString()}ft
+      </text>
+      <text x={CHART_PAD} y={10} fill="#94a3b8" fontSize="9" fontFamily="monospace">{most}</text>
+    </svg>
+  );
+};
+
+export const StatsScreen: React.FC<StatsScreenProps> = ({ initialTrailId, initialDifficulty, onAnalyze, onClose }) => {
+  const [runs, setRuns] = useState<RunRecord[]>(loadRunHistory);
+  const [trailId, setTrailId] = useState(initialTrailId);
+  const [difficulty, setDifficulty] = useState(initialDifficulty);
+  const [mode, setMode] = useState<GameMode>(GameMode.FREERIDE);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+
+  const career = getCareerStats(runs);
+  const trail = TRAILS.find(t => t.id === trailId) ?? TRAILS[0];
+  const courseRuns = runs.filter(run => run.trailId === trail.id && run.difficulty === difficulty && run.mode === mode);
+  const deathCategories = (Object.keys(career.deaths) as DeathCategory[]).sort((a, b) => career.deaths[b]! - career.deaths[a]!);
+
+  const importFile = async (file: File) => {
+    try {
+      const result = await importRunHistory(file);
+      setRuns(result.runs);
+      setImportNotice(`Imported ${result.added} new run${result.added === 1 ? '' : 's'}.`);
+    } catch (e) {
+      setImportNotice((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-30 p-4 overflow-y-auto">
+      <div className="bg-slate-800 p-6 rounded-lg border-2 border-slate-600 max-w-2xl w-full shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="flex items-center gap-2 text-2xl font-retro text-yellow-400">
+            <BarChart3 size={24} /> STATS
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Back to menu">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
+          <Stat label="RUNS" value={career.runs.toLocaleString()} />
+          <Stat label="FINISH RATE" value={`${Math.round(career.finishRate * 100)}% (${career.finishes})`} />
+          <Stat label="DISTANCE" value={`${career.totalDistance.toLocaleString()}ft`} />
+          <Stat label="TIME ON SNOW" value={formatDuration(career.totalTime)} />
+          <Stat label="TOP SPEED" value={`${career.topSpeed} mph`} />
+          <Stat label="BEST SCORE" value={career.bestScore.toLocaleString()} />
+        </div>
+
+        <div className="mb-4 font-mono text-xs text-slate-300">
+          <p className="font-retro text-[10px] text-slate-500 mb-1">
+            CAUSES OF DEATH
+            {career.mostCommonDeath && <span className="text-red-300"> · MOSTLY {DEATH_LABELS[career.mostCommonDeath].toUpperCase()}</span>}
+          </p>
+          {deathCategories.length === 0 ? (
+            <p className="text-slate-500 italic">Not a scratch so far.</p>
+          ) : (
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {deathCategories.map(category => (
+                <span key={category} className={category === career.mostCommonDeath ? 'text-red-300' : ''}>
+                  {DEATH_LABELS[category]}: {career.deaths[category]}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-slate-600 pt-4">
+          <div className="flex flex-wrap gap-1 mb-2">
+            {TRAILS.map(t => (
+              <button key={t.id} onClick={() => setTrailId(t.id)} className={tabClass(t.id === trail.id)}>
+                {t.name.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1 mb-4">
+            <button onClick={() => setDifficulty(Difficulty.HARD)} className={tabClass(difficulty === Difficulty.HARD)}>PRO</button>
+            <button onClick={() => setDifficulty(Difficulty.EASY)} className={tabClass(difficulty === Difficulty.EASY)}>EASY</button>
+            <span className="w-2" />
+            <button onClick={() => setMode(GameMode.FREERIDE)} className={tabClass(mode === GameMode.FREERIDE)}>FREERIDE</button>
+            <button onClick={() => setMode(GameMode.SLALOM)} className={tabClass(mode === GameMode.SLALOM)}>SLALOM</button>
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-yellow-400 font-retro text-xs mb-2">BEST TIME</h3>
+              <ProgressionChart runs={courseRuns} />
+            </div>
+            <div>
+              <h3 className="text-yellow-400 font-retro text-xs mb-2">CRASHES BY DISTANCE</h3>
+              <CrashHistogram runs={courseRuns} trailLength={trail.length} />
+            </div>
+          </div>
+        </div>
+
+        <div className="border-t border-slate-600 pt-4 mt-4 flex flex-wrap items-center justify-center gap-2">
+          <button
+            onClick={() => onAnalyze(null)}
+            disabled={!runs.some(run => run.telemetry)}
+            className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 border-2 border-slate-500 px-3 py-2 font-retro text-xs"
+            title="Speed, racing line and yeti gap of your recent runs"
+          >
+            <LineChart size={14} /> ANALYSIS
+          </button>
+          <button
+            onClick={() => downloadRunHistory(runs)}
+            disabled={runs.length === 0}
+            className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 border-2 border-slate-500 px-3 py-2 font-retro text-xs"
+          >
+            <Download size={14} /> EXPORT
+          </button>
+          <label className="flex items-center gap-2 cursor-pointer bg-slate-700 hover:bg-slate-600 border-2 border-slate-500 px-3 py-2 font-retro text-xs">
+            <Upload size={14} /> IMPORT
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        {importNotice && <p className="mt-2 text-center text-slate-300 text-xs font-mono">{importNotice}</p>}
+      </div>
+    </div>
+  );
+};
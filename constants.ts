@@ -1,3 +1,5 @@
+import { SkierSkin } from "./types";
+
 export const GAME_CONFIG = {
   FPS: 60,
   BASE_SPEED: 5,
@@ -7,12 +9,7 @@ export const GAME_CONFIG = {
   TURN_SPEED: 0.8,
   CANVAS_WIDTH: 1200,
   CANVAS_HEIGHT: 1000,
-  TRACK_WIDTH: 1000,
   VIEW_DISTANCE: 2000,
-  OBSTACLE_DENSITY: 0.05, // Probability per row
-  TRACK_LENGTH: 25000, // Length of the run in feet (approximately 1.4 miles)
-  PUB_Y: 25200, // Location of the lodge
-  YETI_START_DISTANCE: 15000,
 };
 
 export const COLORS = {
@@ -30,4 +27,19 @@ export const COLORS = {
   LODGE_ROOF: '#7f1d1d', // red-900
   FIRE_ORANGE: '#f97316', // orange-500
   FIRE_YELLOW: '#fbbf24', // amber-400
-};
\ No newline at end of file
+};
+
+// The classic look, plus colorways that achievements unlock
+export const SKIER_SKINS: SkierSkin[] = [
+  { id: 'classic', name: 'Classic', suit: COLORS.PLAYER_SUIT, skis: COLORS.PLAYER_SKIS },
+  { id: 'inverted', name: 'Inverted', suit: COLORS.PLAYER_SKIS, skis: COLORS.PLAYER_SUIT },
+  { id: 'forest', name: 'Forest', suit: COLORS.TREE_DARK, skis: COLORS.FIRE_YELLOW },
+  { id: 'ember', name: 'Ember', suit: COLORS.FIRE_ORANGE, skis: '#111827' },
+  { id: 'yeti', name: 'Yeti Hide', suit: COLORS.YETI_SKIN, skis: COLORS.YETI_FUR },
+  { id: 'gold', name: 'Gold Medal', suit: COLORS.FIRE_YELLOW, skis: COLORS.LODGE_WOOD },
+];
+
+export const DEFAULT_SKIN = SKIER_SKINS[0];
+
+// Player 2 in split screen, so the two skiers are easy to tell apart
+export const PLAYER_TWO_SKIN: SkierSkin = { id: 'player-two', name: 'Player 2', suit: '#16a34a', skis: '#f59e0b' };
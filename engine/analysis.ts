@@ -0,0 +1,167 @@
+import { STEP_MS, getMaxSpeed } from './simulation';
+import { Replay, createPlayback, seekPlayback } from './replay';
+import { TrailDefinition, getTrackOffset } from './trail';
+import { getYetiGap } from './yeti';
+import { TOP_SPEED_SHARE, BRAKE_ANGLE, WOBBLE_REVERSALS } from './scoring';
+
+// --- Run Analysis ---
+// Re-simulates a finished run from its replay and measures how it was skied:
+// how each switchback in the trail was taken, how long the skier held top
+// speed, where they scrubbed speed or wobbled, how close the yeti came and
+// where the run ended. The coach turns this into advice.
+
+// Where the trail's line swings back the other way
+export interface Switchback {
+  number: number; // 1-based, down the trail
+  y: number; // Apex of the turn
+  x: number;
+  side: 'left' | 'right'; // Which way the line turns out of the apex
+}
+
+// How the skier took one switchback
+export interface TurnReport {
+  switchback: Switchback;
+  lateBy: number; // ft past the apex that the skier's own turn came; negative is early
+  wideBy: number; // ft outside the line at the skier's turn; negative is inside
+}
+
+export interface RunAnalysis {
+  ticks: number;
+  turns: TurnReport[]; // Only the switchbacks the skier reached
+  topSpeedShare: number; // Share of the run spent at top speed, 0-1
+  scrubTime: number; // ms spent with the skis across the slope, braking
+  scrubY: number | null; // Where the longest stretch of it started
+  wobbles: number[]; // Distance of each bout of wobbling
+  closestYeti: { gap: number; y: number } | null; // null if it never woke up
+  crash: { y: number; section: number; sections: number; cause: string } | null;
+}
+
+// Swings of the line smaller than this aren't worth calling a turn
+const MIN_SWITCHBACK_SWING = 200;
+const LINE_SAMPLE = 50;
+
+// The apexes of the trail's turns, top to bottom
+export const getSwitchbacks = (trail: TrailDefinition): Switchback[] => {
+  const extremes: { y: number; x: number; side: 'left' | 'right' }[] = [];
+  let previous = getTrackOffset(trail, 0);
+  let heading = 0;
+  for (let y = LINE_SAMPLE; y <= trail.length; y += LINE_SAMPLE) {
+    const x = getTrackOffset(trail, y);
+    const next = Math.sign(x - previous);
+    // The line was heading one way and now heads the other: the sample before was the apex
+    if (next !== 0 && heading !== 0 && next !== heading) {
+      extremes.push({ y: y - LINE_SAMPLE, x: previous, side: next < 0 ? 'left' : 'right' });
+    }
+    if (next !== 0) heading = next;
+    previous = x;
+  }
+
+  const switchbacks: Switchback[] = [];
+  let lastX = getTrackOffset(trail, 0);
+  for (const extreme of extremes) {
+    if (Math.abs(extreme.x - lastX) < MIN_SWITCHBACK_SWING) continue;
+    switchbacks.push({ number: switchbacks.length + 1, ...extreme });
+    lastX = extreme.x;
+  }
+  return switchbacks;
+};
+
+interface Sample {
+  x: number;
+  y: number;
+}
+
+// The skier's own apex is the furthest they swung out toward the turn's
+// outside, looking halfway to the neighbouring switchbacks either side
+const reportTurn = (switchback: Switchback, from: number, to: number, track: Sample[]): TurnReport | null => {
+  const outside = switchback.side === 'left' ? 1 : -1;
+  let apex: Sample | null = null;
+  for (const sample of track) {
+    if (sample.y < from || sample.y > to) continue;
+    if (!apex || (sample.x - apex.x) * outside > 0) apex = sample;
+  }
+  if (!apex) return null;
+  return { switchback, lateBy: apex.y - switchback.y, wideBy: (apex.x - switchback.x) * outside };
+};
+
+export const analyzeRun = (replay: Replay, trail: TrailDefinition): RunAnalysis => {
+  const playback = createPlayback(replay, trail);
+  const { sim } = playback;
+  const maxSpeed = getMaxSpeed(replay.difficulty);
+
+  const track: Sample[] = [];
+  let topSpeedTicks = 0;
+  let scrubTicks = 0;
+  let scrubRun = 0;
+  let longestScrub = 0;
+  let scrubY: number | null = null;
+  let scrubStart = 0;
+  let wobbling = false;
+  const wobbles: number[] = [];
+  let closestYeti: RunAnalysis['closestYeti'] = null;
+
+  while (sim.tick < replay.ticks && sim.status === 'running') {
+    seekPlayback(playback, sim.tick + 1);
+    const { player } = sim;
+    track.push({ x: player.x, y: player.y });
+    if (player.speed >= maxSpeed * TOP_SPEED_SHARE) topSpeedTicks++;
+
+    if (player.state === 'skiing' && Math.abs(player.direction) >= BRAKE_ANGLE && !sim.finished) {
+      if (scrubRun === 0) scrubStart = player.y;
+      scrubTicks++;
+      if (++scrubRun > longestScrub) {
+        longestScrub = scrubRun;
+        scrubY = scrubStart;
+      }
+    } else {
+      scrubRun = 0;
+    }
+
+    // Counted once per bout, when the reversals first pile up
+    const isWobbling = sim.score.reversals.length >= WOBBLE_REVERSALS;
+    if (isWobbling && !wobbling) wobbles.push(player.y);
+    wobbling = isWobbling;
+
+    const gap = getYetiGap(sim.yeti, player);
+    if (gap !== null && (closestYeti === null || gap < closestYeti.gap)) {
+      closestYeti = { gap: Math.max(0, gap), y: player.y };
+    }
+  }
+
+  const reached = sim.player.y;
+  const switchbacks = getSwitchbacks(trail).filter(switchback => switchback.y < reached);
+  const turns = switchbacks.flatMap((switchback, i) => {
+    const from = i > 0 ? (switchbacks[i - 1].y + switchback.y) / 2 : 0;
+    const to = i < switchbacks.length - 1 ? (switchback.y + switchbacks[i + 1].y) / 2 : reached;
+    return reportTurn(switchback, from, to, track) ?? [];
+  });
+
+  const sections = sim.checkpoints.length + 1;
+  return {
+    ticks: sim.tick,
+    turns,
+    topSpeedShare: sim.tick > 0 ? topSpeedTicks / sim.tick : 0,
+    scrubTime: scrubTicks * STEP_MS,
+    scrubY,
+    wobbles,
+    closestYeti,
+    crash: sim.status === 'crashed' ? {
+      y: reached,
+      section: sim.checkpoints.filter(checkpoint => checkpoint <= reached).length + 1,
+      sections,
+      cause: sim.causeOfDeath ?? 'Crashed'
+    } : null
+  };
+};
+
+// How far off a turn has to be before it's worth mentioning
+export const LATE_TURN_FT = 250;
+export const WIDE_TURN_FT = 100;
+
+const getTurnSeverity = (turn: TurnReport): number =>
+  Math.max(0, turn.lateBy) / LATE_TURN_FT + Math.max(0, turn.wideBy) / WIDE_TURN_FT;
+
+// The worst-taken switchback, if any was bad enough to mention
+export const getWorstTurn = (analysis: RunAnalysis): TurnReport | null =>
+  analysis.turns.reduce<TurnReport | null>((worst, turn) =>
+    getTurnSeverity(turn) >= 1 && (!worst || getTurnSeverity(turn) > getTurnSeverity(worst)) ? turn : worst, null);
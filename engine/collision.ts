@@ -0,0 +1,137 @@
+import { Obstacle, ObstacleType, Player } from '../types';
+
+// --- Hitboxes ---
+// Shapes follow what's drawn: a tree is only solid at its trunk, a rock is
+// round, and the skier is their skis (turned with the ski angle) plus body.
+// Offsets here mirror the sprites in GameCanvas.
+
+export type Hitbox =
+  | { kind: 'circle'; x: number; y: number; radius: number }
+  | { kind: 'box'; x: number; y: number; halfWidth: number; halfHeight: number; angle: number };
+
+const box = (x: number, y: number, halfWidth: number, halfHeight: number, angle = 0): Hitbox =>
+  ({ kind: 'box', x, y, halfWidth, halfHeight, angle });
+
+// Same tilt the skis are drawn with
+export const getSkiAngle = (direction: number): number => -direction * 0.5;
+
+export const getObstacleHitbox = (obs: Obstacle): Hitbox => {
+  switch (obs.type) {
+    case ObstacleType.TREE: {
+      // Trunk, running up under the lowest boughs
+      const scale = obs.width / 40;
+      return box(obs.x, obs.y + scale, 3 * scale, 7 * scale);
+    }
+    case ObstacleType.ROCK:
+      return { kind: 'circle', x: obs.x, y: obs.y, radius: 10 };
+    case ObstacleType.STUMP:
+      return box(obs.x, obs.y - 2.5, 5, 7.5);
+    default:
+      // Ramps and mogul fields trigger across their whole footprint
+      return box(obs.x, obs.y, obs.width / 2, obs.height / 2);
+  }
+};
+
+export const getPlayerHitboxes = (player: Player): Hitbox[] => {
+  const angle = getSkiAngle(player.direction);
+  // Skis pivot at (x, y + 10) and reach 18px downhill of it
+  const pivotY = player.y + 10;
+  return [
+    box(player.x - Math.sin(angle) * 8, pivotY + Math.cos(angle) * 8, 8, 10, angle),
+    box(player.x, player.y - 2, 6, 8)
+  ];
+};
+
+export const getYetiHitbox = (yeti: { x: number; y: number }): Hitbox =>
+  ({ kind: 'circle', x: yeti.x, y: yeti.y - 8, radius: 24 });
+
+// Furthest any obstacle hitbox reaches from its obstacle's y
+export const MAX_HITBOX_REACH = 60;
+
+// --- Overlap Tests ---
+
+type Box = Extract<Hitbox, { kind: 'box' }>;
+type Circle = Extract<Hitbox, { kind: 'circle' }>;
+
+const boxAxes = (b: Box) => {
+  const cos = Math.cos(b.angle);
+  const sin = Math.sin(b.angle);
+  return [{ x: cos, y: sin }, { x: -sin, y: cos }];
+};
+
+// Half the box's extent when projected onto a unit axis
+const projectRadius = (b: Box, axis: { x: number; y: number }): number => {
+  const [u, v] = boxAxes(b);
+  return b.halfWidth * Math.abs(u.x * axis.x + u.y * axis.y)
+    + b.halfHeight * Math.abs(v.x * axis.x + v.y * axis.y);
+};
+
+// Separating axis test: two boxes are apart if any edge normal separates them
+const boxesOverlap = (a: Box, b: Box): boolean => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  return [...boxAxes(a), ...boxAxes(b)].every(axis =>
+    Math.abs(dx * axis.x + dy * axis.y) <= projectRadius(a, axis) + projectRadius(b, axis));
+};
+
+const circleBoxOverlap = (c: Circle, b: Box): boolean => {
+  // Move the circle into the box's frame and find the closest point on it
+  const cos = Math.cos(-b.angle);
+  const sin = Math.sin(-b.angle);
+  const dx = c.x - b.x;
+  const dy = c.y - b.y;
+  const lx = dx * cos - dy * sin;
+  const ly = dx * sin + dy * cos;
+  const nx = lx - Math.max(-b.halfWidth, Math.min(b.halfWidth, lx));
+  const ny = ly - Math.max(-b.halfHeight, Math.min(b.halfHeight, ly));
+  return nx * nx + ny * ny <= c.radius * c.radius;
+};
+
+export const hitboxesOverlap = (a: Hitbox, b: Hitbox): boolean => {
+  if (a.kind === 'circle' && b.kind === 'circle') {
+    const r = a.radius + b.radius;
+    return (a.x - b.x) ** 2 + (a.y - b.y) ** 2 <= r * r;
+  }
+  if (a.kind === 'circle') return circleBoxOverlap(a, b as Box);
+  if (b.kind === 'circle') return circleBoxOverlap(b, a);
+  return boxesOverlap(a, b);
+};
+
+export const anyOverlap = (hitboxes: Hitbox[], other: Hitbox): boolean =>
+  hitboxes.some(h => hitboxesOverlap(h, other));
+
+// --- Spatial Index ---
+// Obstacles bucketed by y so a collision check only looks at the few rows
+// around the skier instead of everything that's been generated.
+
+const BUCKET_SIZE = 100;
+
+export type SpatialIndex = Map<number, Obstacle[]>;
+
+export const createSpatialIndex = (): SpatialIndex => new Map();
+
+export const indexObstacle = (index: SpatialIndex, obs: Obstacle) => {
+  const key = Math.floor(obs.y / BUCKET_SIZE);
+  const bucket = index.get(key);
+  if (bucket) bucket.push(obs);
+  else index.set(key, [obs]);
+};
+
+// Obstacles whose y lies in [fromY, toY], in insertion order within each bucket
+export const queryIndex = (index: SpatialIndex, fromY: number, toY: number): Obstacle[] => {
+  const found: Obstacle[] = [];
+  for (let key = Math.floor(fromY / BUCKET_SIZE); key <= Math.floor(toY / BUCKET_SIZE); key++) {
+    for (const obs of index.get(key) ?? []) {
+      if (obs.y >= fromY && obs.y <= toY) found.push(obs);
+    }
+  }
+  return found;
+};
+
+// Drop whole buckets that sit entirely above y
+export const cullIndex = (index: SpatialIndex, y: number) => {
+  const lastKey = Math.floor(y / BUCKET_SIZE) - 1;
+  for (const key of index.keys()) {
+    if (key <= lastKey) index.delete(key);
+  }
+};
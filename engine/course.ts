@@ -0,0 +1,151 @@
+import { Obstacle, ObstacleType, Difficulty, GameMode } from '../types';
+import { Rng } from '../lib/random';
+import { SpatialIndex, indexObstacle } from './collision';
+import { TrailDefinition, PlaceableObstacleType, DEFAULT_JUMP_CHANCE, getTrackOffset, getTrackWidth, getHazardZone } from './trail';
+
+export interface CourseState {
+  trail: TrailDefinition;
+  difficulty: Difficulty;
+  mode: GameMode;
+  obstacles: Obstacle[];
+  index: SpatialIndex; // The same obstacles bucketed by y for collision checks
+  lastObstacleY: number; // Infinity once the course is fully generated
+  nextObstacleId: number;
+  rng: Rng;
+}
+
+export const FIRST_ROW_Y = 40;
+const ROW_SPACING = 35; // Tighter spacing for tree walls
+
+const PLACED_OBSTACLE_SIZE: Record<PlaceableObstacleType, { width: number; height: number }> = {
+  [ObstacleType.TREE]: { width: 60, height: 100 },
+  [ObstacleType.ROCK]: { width: 30, height: 30 },
+  [ObstacleType.STUMP]: { width: 30, height: 30 },
+  [ObstacleType.RAMP]: { width: 60, height: 30 },
+  [ObstacleType.MOGULS]: { width: 160, height: 60 },
+};
+
+// Share of generated jumps that are ramps; the rest are mogul fields
+const RAMP_SHARE = 0.6;
+
+export const generateObstacles = (course: CourseState, startY: number, endY: number) => {
+  const { rng, trail } = course;
+  const nextId = () => course.nextObstacleId++;
+  const add = (obs: Obstacle) => {
+    course.obstacles.push(obs);
+    indexObstacle(course.index, obs);
+  };
+  // Hand-placed obstacles from the course editor between two y positions
+  const addPlaced = (fromY: number, toY: number) => {
+    for (const placed of trail.obstacles ?? []) {
+      if (placed.y >= fromY && placed.y < toY) {
+        add({
+          id: nextId(),
+          x: placed.x,
+          y: placed.y,
+          type: placed.type,
+          ...PLACED_OBSTACLE_SIZE[placed.type],
+        });
+      }
+    }
+  };
+
+  // Stop generating obstacles near the finish line (Lodge area)
+  const MAX_GEN_Y = trail.length - 300;
+
+  // Rows sit on a fixed grid so the RNG is consumed in the same order
+  // no matter how the generation calls are chunked during the run
+  let currentY = Math.max(startY, course.lastObstacleY);
+
+  while (currentY < endY) {
+    if (currentY > MAX_GEN_Y) {
+      // No more rows before the lodge, but anything placed down there still goes in.
+      // Nothing is left after that, so never come back.
+      addPlaced(currentY, Infinity);
+      course.lastObstacleY = Infinity;
+      break;
+    }
+
+    // Determine track bounds at this Y
+    const trackCenter = getTrackOffset(trail, currentY);
+    const trackWidth = getTrackWidth(trail, currentY);
+    const halfWidth = trackWidth / 2;
+    const leftBoundary = trackCenter - halfWidth;
+    const rightBoundary = trackCenter + halfWidth;
+
+    // --- Left Tree Line (The Forest) ---
+    add({
+      id: nextId(),
+      x: leftBoundary - 20 - rng() * 60,
+      y: currentY,
+      type: ObstacleType.TREE,
+      width: 60 + rng() * 30,
+      height: 90 + rng() * 50,
+    });
+    add({
+      id: nextId(),
+      x: leftBoundary - 100 - rng() * 200,
+      y: currentY + rng() * 20,
+      type: ObstacleType.TREE,
+      width: 50,
+      height: 80,
+    });
+
+    // --- Right Tree Line (The Forest) ---
+    add({
+      id: nextId(),
+      x: rightBoundary + 20 + rng() * 60,
+      y: currentY,
+      type: ObstacleType.TREE,
+      width: 60 + rng() * 30,
+      height: 90 + rng() * 50,
+    });
+    add({
+      id: nextId(),
+      x: rightBoundary + 100 + rng() * 200,
+      y: currentY + rng() * 20,
+      type: ObstacleType.TREE,
+      width: 50,
+      height: 80,
+    });
+
+    // --- On-Track Obstacles (Trail Hazard Zones) ---
+    // Always roll so EASY and PRO share the same tree layout for a seed;
+    // hazards are only placed in HARD mode, and never on a slalom course,
+    // where the gates are the challenge
+    const zone = course.mode === GameMode.FREERIDE ? getHazardZone(trail, currentY) : null;
+    const hazardRoll = rng();
+    const lane = (rng() - 0.5) * 0.9;
+    const typeRoll = rng();
+    const jumpRoll = rng();
+    const jumpLane = (rng() - 0.5) * 0.6;
+    if (zone && course.difficulty === Difficulty.HARD && hazardRoll < zone.density) {
+      add({
+        id: nextId(),
+        x: trackCenter + lane * trackWidth,
+        y: currentY,
+        type: typeRoll < zone.rockChance ? ObstacleType.ROCK : ObstacleType.STUMP,
+        width: 30,
+        height: 30,
+      });
+    } else if (zone && course.difficulty === Difficulty.HARD && jumpRoll < (zone.jumpChance ?? DEFAULT_JUMP_CHANCE)) {
+      // Jumps get a row to themselves so there's never a rock on the takeoff
+      const jumpChance = zone.jumpChance ?? DEFAULT_JUMP_CHANCE;
+      const type = jumpRoll < jumpChance * RAMP_SHARE ? ObstacleType.RAMP : ObstacleType.MOGULS;
+      add({
+        id: nextId(),
+        x: trackCenter + jumpLane * trackWidth,
+        y: currentY,
+        type,
+        ...PLACED_OBSTACLE_SIZE[type],
+      });
+    }
+
+    // --- Hand-Placed Obstacles (Course Editor) ---
+    // The first row also takes anything placed above it
+    addPlaced(currentY === FIRST_ROW_Y ? -Infinity : currentY, currentY + ROW_SPACING);
+
+    currentY += ROW_SPACING;
+    course.lastObstacleY = currentY; // Update progress loop
+  }
+};
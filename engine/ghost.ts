@@ -0,0 +1,61 @@
+import { STEP_MS } from './simulation';
+import { Replay, createPlayback, seekPlayback } from './replay';
+import { TrailDefinition } from './trail';
+
+// --- Ghost Skier ---
+// A ghost is a replay re-simulated up front into one frame per tick, so the
+// live run can look up where the ghost was at the same moment.
+
+export interface GhostFrame {
+  x: number;
+  y: number;
+  direction: number;
+  altitude: number;
+  crashed: boolean;
+}
+
+export interface Ghost {
+  label: string;
+  replay: Replay;
+  frames: GhostFrame[];
+}
+
+export const createGhost = (replay: Replay, label: string, trail: TrailDefinition): Ghost => {
+  const playback = createPlayback(replay, trail);
+  const frames: GhostFrame[] = [];
+
+  const capture = () => {
+    const { player } = playback.sim;
+    frames.push({ x: player.x, y: player.y, direction: player.direction, altitude: player.altitude, crashed: player.state === 'crashed' });
+  };
+
+  capture();
+  while (playback.sim.tick < replay.ticks && playback.sim.status === 'running') {
+    seekPlayback(playback, playback.sim.tick + 1);
+    capture();
+  }
+
+  return { label, replay, frames };
+};
+
+// Ghost position at a tick; it holds its final spot once the run is over
+export const getGhostFrame = (ghost: Ghost, tick: number): GhostFrame =>
+  ghost.frames[Math.min(tick, ghost.frames.length - 1)];
+
+// How far behind (+) or ahead (-) of the ghost the player is, in ms.
+// Compares the current time against when the ghost passed the same distance.
+// Null once the player is past the point where the ghost's run ended.
+export const getGhostDelta = (ghost: Ghost, y: number, tick: number): number | null => {
+  const { frames } = ghost;
+  if (frames[frames.length - 1].y < y) return null;
+
+  // Distance only ever increases, so binary search for the first frame at y
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].y >= y) hi = mid;
+    else lo = mid + 1;
+  }
+  return (tick - lo) * STEP_MS;
+};
@@ -0,0 +1,154 @@
+import { Difficulty, GameMode } from '../types';
+import { SimState, SimStatus, getRaceTime } from './simulation';
+import { MAX_RACERS, RacerPosition, rankRacers } from './race';
+
+// --- Online Races ---
+// Everyone in a lobby skis the same seed at the same time, each on their own
+// machine with their own yeti. Clients broadcast where their skier is a few
+// times a second through server/raceServer.ts, which relays it to the rest
+// of the lobby; the other skiers are drawn as ghosts interpolated between
+// those updates. This file is the wire protocol both sides speak.
+
+export const LOBBY_SIZE = MAX_RACERS;
+export const DEFAULT_RACE_PORT = 8788;
+
+// How often a client sends its skier's state
+export const NET_TICK_MS = 100;
+// Remote skiers are drawn this far in the past, so there's usually an
+// update on either side of the moment being drawn
+export const INTERPOLATION_DELAY_MS = NET_TICK_MS * 2;
+
+// The host picks these in the lobby; everyone races on them
+export interface RaceSettings {
+  trailId: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+}
+
+export interface LobbyPlayer {
+  id: string;
+  name: string;
+  skin: string; // SkierSkin id, so everyone sees them in their colors
+  ready: boolean;
+}
+
+export interface Lobby {
+  room: string;
+  hostId: string;
+  players: LobbyPlayer[]; // In the order they joined
+  settings: RaceSettings;
+  racing: boolean;
+}
+
+// Where a skier is, as broadcast every net tick
+export interface SkierState {
+  x: number;
+  y: number;
+  direction: number;
+  altitude: number;
+  speed: number;
+  status: SimStatus;
+  time: number; // Race time in ms
+}
+
+export type ClientMessage =
+  | { type: 'JOIN'; room: string; name: string; skin: string; settings: RaceSettings }
+  | { type: 'READY'; ready: boolean }
+  | { type: 'SETTINGS'; settings: RaceSettings } // Host only
+  | { type: 'START' } // Host only, once everyone is ready
+  | { type: 'STATE'; state: SkierState };
+
+export type ServerMessage =
+  | { type: 'WELCOME'; id: string }
+  | { type: 'LOBBY'; lobby: Lobby }
+  // Sent to everyone at once; the race starts when the countdown runs out
+  | { type: 'COUNTDOWN'; seed: number; settings: RaceSettings; racers: LobbyPlayer[] }
+  | { type: 'STATE'; id: string; state: SkierState }
+  | { type: 'ERROR'; reason: string };
+
+export const getSkierState = (sim: SimState): SkierState => ({
+  x: sim.player.x,
+  y: sim.player.y,
+  direction: sim.player.direction,
+  altitude: sim.player.altitude,
+  speed: sim.player.speed,
+  status: sim.status,
+  time: getRaceTime(sim)
+});
+
+// --- Remote Skiers ---
+
+interface Snapshot {
+  at: number; // Local receive time, performance.now()
+  state: SkierState;
+}
+
+export interface RemoteSkier {
+  id: string;
+  name: string;
+  skin: string;
+  snapshots: Snapshot[]; // Oldest first
+}
+
+// Enough history to cover the interpolation delay with room to spare
+const SNAPSHOT_HISTORY_MS = INTERPOLATION_DELAY_MS * 5;
+
+export const createRemoteSkier = ({ id, name, skin }: LobbyPlayer): RemoteSkier => ({ id, name, skin, snapshots: [] });
+
+export const addSnapshot = (remote: RemoteSkier, state: SkierState, at: number) => {
+  remote.snapshots.push({ at, state });
+  while (remote.snapshots.length > 2 && remote.snapshots[1].at < at - SNAPSHOT_HISTORY_MS) {
+    remote.snapshots.shift();
+  }
+};
+
+export const getLatestState = (remote: RemoteSkier): SkierState | null =>
+  remote.snapshots.length > 0 ? remote.snapshots[remote.snapshots.length - 1].state : null;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Where to draw a remote skier at local time `now`: blended between the two
+// updates either side of INTERPOLATION_DELAY_MS ago. Before the first update
+// there's nothing to draw; after the last one they hold still.
+export const getRemoteFrame = (remote: RemoteSkier, now: number): SkierState | null => {
+  const { snapshots } = remote;
+  if (snapshots.length === 0) return null;
+
+  const renderAt = now - INTERPOLATION_DELAY_MS;
+  const next = snapshots.findIndex(snapshot => snapshot.at > renderAt);
+  if (next === -1) return snapshots[snapshots.length - 1].state;
+  if (next === 0) return snapshots[0].state;
+
+  const from = snapshots[next - 1];
+  const to = snapshots[next];
+  const t = (renderAt - from.at) / (to.at - from.at);
+  return {
+    ...from.state,
+    x: lerp(from.state.x, to.state.x, t),
+    y: lerp(from.state.y, to.state.y, t),
+    direction: lerp(from.state.direction, to.state.direction, t),
+    altitude: lerp(from.state.altitude, to.state.altitude, t),
+    speed: lerp(from.state.speed, to.state.speed, t)
+  };
+};
+
+// --- Live Standings ---
+
+export interface OnlineStanding {
+  id: string | null; // null for the local skier
+  name: string;
+  skin: string;
+  state: SkierState | null; // null until their first update arrives
+}
+
+const toPosition = (state: SkierState | null): RacerPosition =>
+  state ? { status: state.status, time: state.time, distance: state.y } : { status: 'running', time: 0, distance: 0 };
+
+// Everyone in the race from first to last, by each skier's latest update
+export const getOnlineStandings = (local: OnlineStanding, remotes: RemoteSkier[]): OnlineStanding[] => {
+  const racers = [
+    local,
+    ...remotes.map(remote => ({ id: remote.id, name: remote.name, skin: remote.skin, state: getLatestState(remote) }))
+  ];
+  return rankRacers(racers.map(racer => toPosition(racer.state))).map(index => racers[index]);
+};
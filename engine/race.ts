@@ -0,0 +1,102 @@
+import { Difficulty, GameMode } from '../types';
+import { TrailDefinition } from './trail';
+import { Yeti } from './yeti';
+import {
+  InputSnapshot, SimState, SimEvent, SimStatus, STEP_MS, MAX_FRAME_MS, createSimulation, stepSimulation, getRaceTime
+} from './simulation';
+
+// --- Races ---
+// Any number of skiers on the same seeded course, each with their own
+// simulation, stepped together one tick at a time. They share a single yeti,
+// which always goes after whoever is furthest back. A solo run is a race of one.
+
+export const MAX_RACERS = 8;
+
+export interface RaceState {
+  sims: SimState[]; // One per skier, in seat order
+  yeti: Yeti;
+  accumulator: number;
+}
+
+export const createRace = (
+  seed: number, difficulty: Difficulty, trail: TrailDefinition, mode: GameMode, racers: number = 1
+): RaceState => {
+  const sims = Array.from({ length: Math.max(1, Math.min(MAX_RACERS, racers)) }, () =>
+    createSimulation(seed, difficulty, trail, mode));
+  const { yeti } = sims[0];
+  sims.forEach(sim => { sim.yeti = yeti; });
+  return { sims, yeti, accumulator: 0 };
+};
+
+export const isRaceOver = (race: RaceState): boolean => race.sims.every(sim => sim.status !== 'running');
+
+// Point the yeti at the skier furthest back who's still on the snow
+const assignYeti = (race: RaceState) => {
+  const trailing = race.sims
+    .filter(sim => sim.status === 'running')
+    .reduce<SimState | null>((last, sim) => (last === null || sim.player.y < last.player.y ? sim : last), null);
+  race.sims.forEach(sim => { sim.chased = sim === trailing; });
+};
+
+// The skier the yeti is after, if anyone is still skiing
+export const getChasedSim = (race: RaceState): SimState | null =>
+  race.sims.find(sim => sim.chased && sim.status === 'running') ?? null;
+
+// Advance every skier still on the course by one fixed step.
+// Returns each seat's events; onStep sees the input applied to each seat that moved.
+export const stepRace = (
+  race: RaceState,
+  inputs: InputSnapshot[],
+  onStep?: (seat: number, input: InputSnapshot) => void
+): SimEvent[][] => {
+  assignYeti(race);
+  return race.sims.map((sim, seat) => {
+    if (sim.status !== 'running') return [];
+    const snapshot = { ...inputs[seat] };
+    onStep?.(seat, snapshot);
+    return stepSimulation(sim, snapshot);
+  });
+};
+
+// Feed real elapsed frame time through a fixed-step accumulator, like a
+// single run: as many whole steps as have accrued, keeping the remainder
+export const advanceRace = (
+  race: RaceState,
+  frameMs: number,
+  inputs: InputSnapshot[],
+  onStep?: (seat: number, input: InputSnapshot) => void
+): SimEvent[][] => {
+  const events: SimEvent[][] = race.sims.map(() => []);
+  race.accumulator += Math.min(Math.max(frameMs, 0), MAX_FRAME_MS);
+
+  while (race.accumulator >= STEP_MS && !isRaceOver(race)) {
+    race.accumulator -= STEP_MS;
+    stepRace(race, inputs, onStep).forEach((seatEvents, seat) => events[seat].push(...seatEvents));
+  }
+
+  return events;
+};
+
+// Where one skier stands, for ranking them against the others
+export interface RacerPosition {
+  status: SimStatus;
+  time: number; // Race time in ms, counted once they've finished
+  distance: number;
+}
+
+// Indices from first place to last: finishers by race time, then everyone
+// else (still skiing or crashed) by how far down the trail they are
+export const rankRacers = (positions: RacerPosition[]): number[] =>
+  positions
+    .map((position, index) => index)
+    .sort((a, b) => {
+      const finishedA = positions[a].status === 'finished';
+      const finishedB = positions[b].status === 'finished';
+      if (finishedA !== finishedB) return finishedA ? -1 : 1;
+      if (finishedA) return positions[a].time - positions[b].time;
+      return positions[b].distance - positions[a].distance;
+    });
+
+// Seats from first place to last
+export const getStandings = (race: RaceState): number[] =>
+  rankRacers(race.sims.map(sim => ({ status: sim.status, time: getRaceTime(sim), distance: sim.player.y })));
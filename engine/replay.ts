@@ -0,0 +1,229 @@
+import { Difficulty, GameMode } from '../types';
+import { InputSnapshot, SimState, STEP_MS, MAX_FRAME_MS, STEER_STEPS, getRaceTime } from './simulation';
+import { TrailDefinition } from './trail';
+import { RaceState, MAX_RACERS, createRace, stepRace } from './race';
+
+// --- Replays ---
+// A run is fully described by its seed, difficulty, mode and the input held
+// on every tick on a given trail, so that is all we store. Inputs are packed into a 3-bit mask
+// (plus a quantized analog steer code above it) and run-length encoded as flat
+// [mask, count, mask, count, ...] pairs.
+
+// v2: courses come from trail definitions, replays record which trail
+// v3: analog steering; v2 logs have no steer code and decode unchanged
+// v4: PRO courses have ramps and mogul fields, so older runs no longer reproduce
+// v5: shape-accurate hitboxes
+// v6: the yeti stalks, lunges and stumbles
+// v7: tucking speeds the skier up
+export const REPLAY_VERSION = 7;
+const SUPPORTED_VERSIONS = [7];
+
+// Longest run anything will play back or re-simulate (10 minutes of ticks)
+export const MAX_TICKS = Math.round(10 * 60 * 1000 / STEP_MS);
+
+export interface ReplayResult {
+  time: number; // ms, including any missed-gate penalties
+  distance: number;
+  causeOfDeath: string | null;
+  score?: number; // Missing on replays recorded before scoring
+  splits?: number[]; // Elapsed ms at each checkpoint and the finish; missing on older replays
+}
+
+// Runs skied against others keep every skier's input, since who the shared
+// yeti chases (and so where it is) depends on all of them
+export interface RaceReplay {
+  seat: number; // Which skier this run is
+  rivals: number[][]; // The other skiers' input logs, in seat order
+}
+
+export interface Replay {
+  version: number;
+  trailId: string;
+  seed: number;
+  difficulty: Difficulty;
+  mode?: GameMode; // Missing on freeride runs recorded before slalom
+  ticks: number;
+  inputs: number[];
+  date: string;
+  result: ReplayResult;
+  pauses?: number[]; // Ticks at which the player paused; missing on older replays
+  race?: RaceReplay; // Missing on solo runs
+}
+
+const LEFT = 1;
+const RIGHT = 2;
+const DOWN = 4;
+// Steer code 0 means no analog input, 1..MAX_STEER_CODE map onto -1..1
+const STEER_SHIFT = 3;
+const MAX_STEER_CODE = STEER_STEPS * 2 + 1;
+
+export const encodeInput = (input: InputSnapshot): number => {
+  const steerCode = input.steer ? Math.round(input.steer * STEER_STEPS) + STEER_STEPS + 1 : 0;
+  return (input.left ? LEFT : 0) | (input.right ? RIGHT : 0) | (input.down ? DOWN : 0) | (steerCode << STEER_SHIFT);
+};
+
+export const decodeInput = (mask: number): InputSnapshot => {
+  const steerCode = mask >> STEER_SHIFT;
+  return {
+    left: (mask & LEFT) !== 0,
+    right: (mask & RIGHT) !== 0,
+    down: (mask & DOWN) !== 0,
+    ...(steerCode ? { steer: (steerCode - STEER_STEPS - 1) / STEER_STEPS } : {})
+  };
+};
+
+// Append one tick of input to an RLE input log in place
+export const recordInput = (log: number[], input: InputSnapshot) => {
+  const mask = encodeInput(input);
+  const last = log.length - 2;
+  if (last >= 0 && log[last] === mask) {
+    log[last + 1]++;
+  } else {
+    log.push(mask, 1);
+  }
+};
+
+// Ticks covered by an RLE input log, without expanding it
+const getLoggedTicks = (log: number[]): number => log.reduce((sum, n, i) => (i % 2 === 1 ? sum + n : sum), 0);
+
+// Expand an RLE input log into one snapshot per tick. Only for validated
+// logs, since a single run count can be as long as it likes.
+export const expandInputs = (log: number[]): InputSnapshot[] => {
+  const inputs: InputSnapshot[] = [];
+  for (let i = 0; i < log.length; i += 2) {
+    const input = decodeInput(log[i]);
+    for (let n = 0; n < log[i + 1]; n++) inputs.push(input);
+  }
+  return inputs;
+};
+
+export const createReplay = (sim: SimState, inputs: number[], pauses: number[] = [], race?: RaceReplay): Replay => ({
+  version: REPLAY_VERSION,
+  trailId: sim.trail.id,
+  seed: sim.seed,
+  difficulty: sim.difficulty,
+  mode: sim.mode,
+  ticks: sim.tick,
+  inputs: [...inputs],
+  date: new Date().toISOString(),
+  result: {
+    time: getRaceTime(sim),
+    distance: Math.floor(sim.player.y),
+    causeOfDeath: sim.causeOfDeath,
+    score: sim.score.total,
+    splits: [...sim.splits]
+  },
+  pauses: [...pauses],
+  ...(race ? { race: { seat: race.seat, rivals: race.rivals.map(log => [...log]) } } : {})
+});
+
+export const wasPaused = (replay: Replay): boolean => (replay.pauses?.length ?? 0) > 0;
+
+export const getReplayMode = (replay: Replay): GameMode => replay.mode ?? GameMode.FREERIDE;
+
+// Every skier's input log in seat order; just this run's for a solo run
+const getSeatLogs = (replay: Replay): number[][] => {
+  if (!replay.race) return [replay.inputs];
+  const logs = [...replay.race.rivals];
+  logs.splice(replay.race.seat, 0, replay.inputs);
+  return logs;
+};
+
+const isInputLog = (log: unknown): log is number[] =>
+  Array.isArray(log) && log.length % 2 === 0
+  && log.every((n, i) => Number.isInteger(n) && n >= 0 && (i % 2 === 1 || n >> STEER_SHIFT <= MAX_STEER_CODE));
+
+// Returns a reason string if the data isn't a usable replay
+export const validateReplay = (data: unknown): string | null => {
+  if (!data || typeof data !== 'object') return 'Not a replay file';
+  const r = data as Partial<Replay>;
+  if (!SUPPORTED_VERSIONS.includes(r.version!)) return `Unsupported replay version: ${r.version}`;
+  if (typeof r.trailId !== 'string' || !r.trailId) return 'Replay is missing its trail';
+  if (typeof r.seed !== 'number') return 'Replay is missing its seed';
+  if (r.difficulty !== Difficulty.EASY && r.difficulty !== Difficulty.HARD) return 'Replay has an unknown difficulty';
+  if (r.mode !== undefined && r.mode !== GameMode.FREERIDE && r.mode !== GameMode.SLALOM) return 'Replay has an unknown mode';
+  if (!Number.isInteger(r.ticks) || r.ticks < 0) return 'Replay has an invalid length';
+  if (r.ticks > MAX_TICKS) return 'Replay is too long';
+  // Checked before anything expands the log: one tick of input per tick of the run
+  if (!isInputLog(r.inputs)) return 'Replay input log is corrupt';
+  if (getLoggedTicks(r.inputs) !== r.ticks) return 'Replay input log does not match the run length';
+  if (r.pauses !== undefined && (!Array.isArray(r.pauses) || r.pauses.some(t => !Number.isInteger(t) || t < 0 || t > r.ticks!))) {
+    return 'Replay pause log is corrupt';
+  }
+  if (r.race !== undefined) {
+    const { seat, rivals } = r.race;
+    const isRivalLog = (log: unknown) => isInputLog(log) && getLoggedTicks(log) <= MAX_TICKS;
+    if (!Array.isArray(rivals) || rivals.length === 0 || rivals.length >= MAX_RACERS || !rivals.every(isRivalLog)
+      || !Number.isInteger(seat) || seat < 0 || seat > rivals.length) {
+      return 'Replay race log is corrupt';
+    }
+  }
+  return null;
+};
+
+// --- Playback ---
+
+export interface ReplayPlayback {
+  replay: Replay;
+  inputs: InputSnapshot[][]; // Per seat
+  race: RaceState;
+  sim: SimState; // The replay's own skier in the race
+  accumulator: number;
+  speed: number;
+  paused: boolean;
+}
+
+const createReplayRace = (replay: Replay, trail: TrailDefinition): RaceState =>
+  createRace(replay.seed, replay.difficulty, trail, getReplayMode(replay), getSeatLogs(replay).length);
+
+// The trail must be the one named by replay.trailId
+export const createPlayback = (replay: Replay, trail: TrailDefinition): ReplayPlayback => {
+  const race = createReplayRace(replay, trail);
+  return {
+    replay,
+    inputs: getSeatLogs(replay).map(expandInputs),
+    race,
+    sim: race.sims[replay.race?.seat ?? 0],
+    accumulator: 0,
+    speed: 1,
+    paused: false
+  };
+};
+
+const stepPlayback = (playback: ReplayPlayback) => {
+  const { race, inputs } = playback;
+  stepRace(race, race.sims.map((sim, seat) =>
+    inputs[seat][sim.tick] ?? inputs[seat][inputs[seat].length - 1] ?? decodeInput(0)));
+};
+
+export const isPlaybackAtEnd = (playback: ReplayPlayback): boolean =>
+  playback.sim.tick >= playback.replay.ticks || playback.sim.status !== 'running';
+
+// Advance playback by real frame time, scaled by the playback speed
+export const advancePlayback = (playback: ReplayPlayback, frameMs: number) => {
+  if (playback.paused) return;
+  playback.accumulator += Math.min(Math.max(frameMs, 0), MAX_FRAME_MS) * playback.speed;
+
+  while (playback.accumulator >= STEP_MS && !isPlaybackAtEnd(playback)) {
+    playback.accumulator -= STEP_MS;
+    stepPlayback(playback);
+  }
+
+  if (isPlaybackAtEnd(playback)) {
+    playback.accumulator = 0;
+    playback.paused = true;
+  }
+};
+
+// Jump to a tick. Seeking backwards re-simulates from the start.
+export const seekPlayback = (playback: ReplayPlayback, tick: number) => {
+  const target = Math.max(0, Math.min(playback.replay.ticks, Math.floor(tick)));
+  if (target < playback.sim.tick) {
+    playback.race = createReplayRace(playback.replay, playback.sim.trail);
+    playback.sim = playback.race.sims[playback.replay.race?.seat ?? 0];
+  }
+  while (playback.sim.tick < target && playback.sim.status === 'running') {
+    stepPlayback(playback);
+  }
+  playback.accumulator = 0;
+};
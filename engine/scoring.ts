@@ -0,0 +1,157 @@
+import { Obstacle, ObstacleType, Player } from '../types';
+import { getObstacleHitbox, Hitbox } from './collision';
+import { isJumpObstacle } from './trail';
+
+// --- Scoring ---
+// Points come from skiing well, not just far: shaving past obstacles,
+// threading gaps between them, holding top speed and finishing with the yeti
+// well behind. Near-misses and gaps build a combo multiplier that braking
+// across the slope or wobbling the skis throws away. Scored inside the
+// simulation so the verifier recomputes it from the replay like time and distance.
+
+export type ScoreKind = 'NEAR_MISS' | 'GAP' | 'SPEED' | 'YETI_ESCAPE';
+
+export type ScoreBreakdown = Record<ScoreKind, number>;
+
+export const SCORE_LABELS: Record<ScoreKind, string> = {
+  NEAR_MISS: 'NEAR MISS',
+  GAP: 'GAP',
+  SPEED: 'TOP SPEED',
+  YETI_ESCAPE: 'YETI ESCAPE'
+};
+
+export interface ScoreAward {
+  kind: ScoreKind;
+  points: number; // Multiplier already applied
+  x: number;
+  y: number;
+}
+
+export interface ScoreState {
+  total: number;
+  breakdown: ScoreBreakdown;
+  combo: number; // Near-misses and gaps since the combo last broke
+  multiplier: number;
+  speedTicks: number; // Consecutive ticks at top speed
+  lastTurn: number; // Sign of the last non-zero steering input
+  reversals: number[]; // Ticks of recent steering reversals
+}
+
+const NEAR_MISS_POINTS = 50;
+const NEAR_MISS_DISTANCE = 20; // Clearance between hitboxes that still counts as close
+const GAP_POINTS = 100;
+const GAP_REACH = 80; // Both sides of a gap have to be this close to the skier
+const GAP_ROW = 40; // and this close to each other down the slope
+const SPEED_POINTS = 10; // Per second held at top speed
+export const TOP_SPEED_SHARE = 0.95;
+const SPEED_INTERVAL = 60;
+const COMBO_STEP = 3; // Combo hits per multiplier step
+const MAX_MULTIPLIER = 5;
+export const BRAKE_ANGLE = 1.2; // Skis this far across the slope scrub speed
+export const WOBBLE_REVERSALS = 3;
+const WOBBLE_WINDOW = 45;
+const PLAYER_HALF_WIDTH = 8;
+
+export const createScoreState = (): ScoreState => ({
+  total: 0,
+  breakdown: { NEAR_MISS: 0, GAP: 0, SPEED: 0, YETI_ESCAPE: 0 },
+  combo: 0,
+  multiplier: 1,
+  speedTicks: 0,
+  lastTurn: 0,
+  reversals: []
+});
+
+const award = (score: ScoreState, kind: ScoreKind, basePoints: number, x: number, y: number): ScoreAward => {
+  const points = basePoints * score.multiplier;
+  score.total += points;
+  score.breakdown[kind] += points;
+  return { kind, points, x, y };
+};
+
+const extendCombo = (score: ScoreState) => {
+  score.combo++;
+  score.multiplier = Math.min(MAX_MULTIPLIER, 1 + Math.floor(score.combo / COMBO_STEP));
+};
+
+const halfWidth = (hitbox: Hitbox) => (hitbox.kind === 'circle' ? hitbox.radius : hitbox.halfWidth);
+
+const isScoring = (obs: Obstacle, player: Player) =>
+  !isJumpObstacle(obs.type) && (player.state !== 'jumping' || obs.type === ObstacleType.TREE);
+
+// Passing order down the slope, so each pair of obstacles forms at most one gap
+const passedBefore = (a: Obstacle, b: Obstacle) => a.y < b.y || (a.y === b.y && a.id < b.id);
+
+export interface ScoreTick {
+  player: Player;
+  previousY: number; // Where the skier was at the start of the tick
+  nearby: Obstacle[]; // Obstacles around the skier, none of them hit this tick
+  turn: number; // Steering input: negative left, positive right
+  topSpeed: number; // Top speed for this difficulty
+  tick: number;
+}
+
+export interface ScoreUpdate {
+  awards: ScoreAward[];
+  comboBroken: boolean;
+}
+
+export const updateScore = (score: ScoreState, { player, previousY, nearby, turn, topSpeed, tick }: ScoreTick): ScoreUpdate => {
+  const awards: ScoreAward[] = [];
+  let comboBroken = false;
+
+  // --- Combo Breakers ---
+  const turnSign = Math.sign(turn);
+  if (turnSign !== 0) {
+    if (score.lastTurn !== 0 && turnSign !== score.lastTurn) score.reversals.push(tick);
+    score.lastTurn = turnSign;
+  }
+  score.reversals = score.reversals.filter(t => tick - t < WOBBLE_WINDOW);
+  const braking = player.state === 'skiing' && Math.abs(player.direction) >= BRAKE_ANGLE;
+  const wobbling = score.reversals.length >= WOBBLE_REVERSALS;
+  if ((braking || wobbling) && score.combo > 0) {
+    score.combo = 0;
+    score.multiplier = 1;
+    score.reversals = [];
+    comboBroken = true;
+  }
+
+  // --- Obstacles Passed This Tick ---
+  for (const obs of nearby) {
+    if (obs.y <= previousY || obs.y > player.y || !isScoring(obs, player)) continue;
+    const dx = obs.x - player.x;
+
+    const clearance = Math.abs(dx) - halfWidth(getObstacleHitbox(obs)) - PLAYER_HALF_WIDTH;
+    if (clearance < NEAR_MISS_DISTANCE) {
+      awards.push(award(score, 'NEAR_MISS', NEAR_MISS_POINTS, obs.x, obs.y));
+      extendCombo(score);
+    }
+
+    if (Math.abs(dx) <= GAP_REACH) {
+      const partner = nearby.find(other =>
+        other !== obs && isScoring(other, player) && passedBefore(other, obs)
+        && Math.sign(other.x - player.x) === -Math.sign(dx)
+        && Math.abs(other.x - player.x) <= GAP_REACH
+        && obs.y - other.y <= GAP_ROW);
+      if (partner) {
+        awards.push(award(score, 'GAP', GAP_POINTS, player.x, player.y));
+        extendCombo(score);
+      }
+    }
+  }
+
+  // --- Sustained Speed ---
+  if (player.speed >= topSpeed * TOP_SPEED_SHARE) {
+    if (++score.speedTicks % SPEED_INTERVAL === 0) {
+      awards.push(award(score, 'SPEED', SPEED_POINTS, player.x, player.y));
+    }
+  } else {
+    score.speedTicks = 0;
+  }
+
+  return { awards, comboBroken };
+};
+
+// Finishing with the yeti on your tail: a point per foot of lead
+export const awardYetiEscape = (score: ScoreState, gap: number, player: Player): ScoreAward | null =>
+  gap > 0 ? award(score, 'YETI_ESCAPE', Math.floor(gap), player.x, player.y) : null;
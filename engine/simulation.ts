@@ -0,0 +1,319 @@
+import { Player, Difficulty, GameMode, ObstacleType } from '../types';
+import { GAME_CONFIG } from '../constants';
+import { createRng } from '../lib/random';
+import { CourseState, FIRST_ROW_Y, generateObstacles } from './course';
+import { TrailDefinition, getPitch, getTrackOffset, getTrackWidth, isJumpObstacle } from './trail';
+import {
+  MAX_HITBOX_REACH, createSpatialIndex, queryIndex, cullIndex,
+  getObstacleHitbox, getPlayerHitboxes, getYetiHitbox, anyOverlap
+} from './collision';
+import { Yeti, createYeti, spawnYeti, stepYeti, getYetiGap } from './yeti';
+import { ScoreState, ScoreAward, createScoreState, updateScore, awardYetiEscape } from './scoring';
+import { Gate, SlalomState, createSlalomState, passGates, getGatePenalty } from './slalom';
+import { getCheckpoints, recordSplits } from './splits';
+
+// --- Headless Simulation ---
+// Pure game rules: no React, DOM or audio. The component feeds input
+// snapshots in and reacts to the returned events; the same code runs
+// under Node for tests and run verification.
+
+export const STEP_MS = 1000 / GAME_CONFIG.FPS;
+// Cap on a single frame's catch-up so a backgrounded tab doesn't fast-forward
+export const MAX_FRAME_MS = 250;
+
+export interface InputSnapshot {
+  left: boolean;
+  right: boolean;
+  down: boolean;
+  steer?: number; // Analog stick, -1 (full left) to 1 (full right); overrides left/right when non-zero
+}
+
+// Analog steering is quantized to 1/16ths so a replay reproduces it exactly
+export const STEER_STEPS = 16;
+
+export const quantizeSteer = (value: number): number =>
+  Math.round(Math.max(-1, Math.min(1, value)) * STEER_STEPS) / STEER_STEPS;
+
+const MAX_DIRECTION = 1.5;
+const TURN_RATE = 0.065;
+
+// --- Tuck ---
+// Tucking on the snow trades edge control for speed: a higher top speed,
+// harder acceleration and slower turns. Standing back up bleeds the extra off.
+const TUCK_TOP_SPEED = 1.15;
+const TUCK_ACCELERATION = 1.5;
+const TUCK_TURN = 0.5;
+const UNTUCK_DRAG = 0.02;
+
+// --- Jumps ---
+// Takeoff speed scales with ground speed, so a faster skier flies further.
+// In the air the skier keeps their speed, only has a fraction of their
+// steering and must come down close to straight.
+const RAMP_LIFT = 0.35;
+const MOGUL_LIFT = 0.15;
+const GRAVITY = 0.25;
+const AIR_CONTROL = 0.3;
+export const MAX_LANDING_ANGLE = 0.9;
+
+// The skier's hitboxes never reach further than this from their y
+const PLAYER_REACH = 30;
+
+// Skiing within this far of the trail's edge, just short of the tree line, counts as touching it
+const EDGE_MARGIN = 40;
+
+export type SimStatus = 'running' | 'crashed' | 'finished';
+
+export interface SimState extends CourseState {
+  seed: number;
+  player: Player;
+  yeti: Yeti;
+  finished: boolean; // Past the finish line, braking into the lodge
+  topSpeed: number;
+  score: ScoreState;
+  slalom: SlalomState | null; // Gates, on slalom runs only
+  checkpoints: number[]; // Split distances, not counting the finish
+  splits: number[]; // Elapsed ms at each checkpoint passed, then at the finish
+  nearEdge: boolean; // Inside the band along the trail's edge
+  chased: boolean; // Whether the yeti is after this skier; in a race only the one trailing is
+  tick: number;
+  status: SimStatus;
+  causeOfDeath: string | null;
+}
+
+export type SimEvent =
+  | { type: 'YETI_SPAWN' }
+  | { type: 'YETI_LUNGE' }
+  | { type: 'YETI_STUMBLE' }
+  | { type: 'SCORE'; award: ScoreAward }
+  | { type: 'COMBO_BREAK' }
+  | { type: 'JUMP' }
+  | { type: 'LAND' }
+  | { type: 'GATE'; gate: Gate }
+  | { type: 'EDGE' }
+  | { type: 'CRASH'; cause: string }
+  | { type: 'FINISH' };
+
+export const createSimulation = (
+  seed: number, difficulty: Difficulty, trail: TrailDefinition, mode: GameMode = GameMode.FREERIDE
+): SimState => {
+  const sim: SimState = {
+    seed,
+    trail,
+    difficulty,
+    mode,
+    rng: createRng(seed),
+    obstacles: [],
+    index: createSpatialIndex(),
+    lastObstacleY: FIRST_ROW_Y,
+    nextObstacleId: 0,
+    player: { x: 0, y: 0, speed: 0, direction: 0, state: 'skiing', altitude: 0, verticalSpeed: 0 },
+    yeti: createYeti(),
+    finished: false,
+    topSpeed: 0,
+    score: createScoreState(),
+    slalom: mode === GameMode.SLALOM ? createSlalomState(trail) : null,
+    checkpoints: getCheckpoints(trail),
+    splits: [],
+    nearEdge: false,
+    chased: true,
+    tick: 0,
+    status: 'running',
+    causeOfDeath: null
+  };
+
+  // Seed initial obstacles
+  generateObstacles(sim, 0, GAME_CONFIG.VIEW_DISTANCE);
+  return sim;
+};
+
+// Fastest a skier can go under their own power
+export const getMaxSpeed = (difficulty: Difficulty): number => (difficulty === Difficulty.EASY ? 8 : GAME_CONFIG.MAX_SPEED);
+
+// Simulation speed to the mph shown on the HUD
+export const MPH_PER_SPEED = 5;
+
+// Simulated run time in ms - independent of the display's refresh rate
+export const getElapsedTime = (sim: SimState): number => sim.tick * STEP_MS;
+
+// The time the run is ranked on: elapsed time plus any missed-gate penalties,
+// in whole ms as the leaderboard stores it
+export const getRaceTime = (sim: SimState): number =>
+  Math.round(getElapsedTime(sim) + (sim.slalom ? getGatePenalty(sim.slalom) : 0));
+
+const crash = (sim: SimState, cause: string): SimEvent[] => {
+  sim.player.state = 'crashed';
+  sim.status = 'crashed';
+  sim.causeOfDeath = cause;
+  return [{ type: 'CRASH', cause }];
+};
+
+// Advance the simulation by exactly one fixed step
+export const stepSimulation = (sim: SimState, input: InputSnapshot): SimEvent[] => {
+  if (sim.status !== 'running') return [];
+
+  const { player, difficulty, trail } = sim;
+  const events: SimEvent[] = [];
+  sim.tick++;
+
+  // --- Win Condition ---
+  if (player.y >= trail.length) {
+    // Decelerate in the pub zone
+    sim.finished = true;
+    player.speed *= 0.85;
+
+    if (player.speed < 1.5) {
+      player.speed = 0;
+      sim.status = 'finished';
+      sim.splits.push(getElapsedTime(sim));
+      const gap = getYetiGap(sim.yeti, player);
+      const escape = gap === null ? null : awardYetiEscape(sim.score, gap, player);
+      if (escape) events.push({ type: 'SCORE', award: escape });
+      events.push({ type: 'FINISH' });
+    }
+    player.x += player.direction * GAME_CONFIG.BASE_SPEED * 0.5;
+    player.y += player.speed;
+    return events;
+  }
+
+  // --- Physics Tuning ---
+  const airborne = player.state === 'jumping';
+  const tucked = input.down && !airborne;
+  const targetMaxSpeed = getMaxSpeed(difficulty);
+  const speedCap = tucked ? targetMaxSpeed * TUCK_TOP_SPEED : targetMaxSpeed;
+  const turnRate = tucked ? TURN_RATE * TUCK_TURN : TURN_RATE;
+
+  // Acceleration - steeper pitches pull harder
+  if (!airborne && player.speed < speedCap) {
+    player.speed += GAME_CONFIG.ACCELERATION * getPitch(trail, player.y) * (tucked ? TUCK_ACCELERATION : 1);
+  } else if (!airborne && !tucked && player.speed > speedCap) {
+    player.speed = Math.max(speedCap, player.speed - UNTUCK_DRAG);
+  }
+
+  // Turning
+  let turn = 0;
+  if (input.left) turn -= 1;
+  if (input.right) turn += 1;
+
+  // Physics - Tuned to be balanced (not icy, not heavy)
+  if (airborne) {
+    // No edges to carve with: the heading drifts slowly and holds when let go
+    const target = input.steer ? input.steer * MAX_DIRECTION : player.direction + turn;
+    const airTurnRate = TURN_RATE * AIR_CONTROL;
+    player.direction += Math.max(-airTurnRate, Math.min(airTurnRate, target - player.direction));
+  } else if (input.steer) {
+    // Analog: the stick sets a heading in proportion to how far it's pushed,
+    // reached no faster than the keys turn
+    const target = input.steer * MAX_DIRECTION;
+    player.direction += Math.max(-turnRate, Math.min(turnRate, target - player.direction));
+    player.speed -= 0.05 * Math.abs(input.steer);
+  } else if (turn !== 0) {
+    player.direction += turn * turnRate; // (Halfway between 0.03 and 0.1)
+    player.speed -= 0.05;
+  } else {
+    player.direction *= 0.95; // (Halfway between 0.98 and 0.92)
+  }
+  // Clamp direction
+  player.direction = Math.max(-MAX_DIRECTION, Math.min(MAX_DIRECTION, player.direction));
+
+  // Update Position with moderate lateral sensitivity
+  const previousX = player.x;
+  const previousY = player.y;
+  player.x += player.direction * GAME_CONFIG.BASE_SPEED * 2.0; // (Halfway between 1.5 and 2.5)
+  player.y += player.speed;
+
+  recordSplits(sim.splits, sim.checkpoints, previousY, player.y, getElapsedTime(sim));
+
+  // Reported once each time the skier drifts into the edge band
+  const fromCenter = Math.abs(player.x - getTrackOffset(trail, player.y));
+  const nearEdge = fromCenter > getTrackWidth(trail, player.y) / 2 - EDGE_MARGIN;
+  if (nearEdge && !sim.nearEdge) events.push({ type: 'EDGE' });
+  sim.nearEdge = nearEdge;
+
+  // Track top speed
+  const currentSpeedMph = player.speed * MPH_PER_SPEED;
+  if (currentSpeedMph > sim.topSpeed) {
+    sim.topSpeed = currentSpeedMph;
+  }
+
+  // --- Track Management ---
+  if (sim.lastObstacleY < player.y + GAME_CONFIG.VIEW_DISTANCE) {
+    generateObstacles(sim, sim.lastObstacleY, player.y + GAME_CONFIG.VIEW_DISTANCE + 500);
+  }
+
+  // Culling - FIX: Keep obstacles longer so they don't pop off top of screen
+  sim.obstacles = sim.obstacles.filter(o => o.y > player.y - 1500);
+  cullIndex(sim.index, player.y - 1500);
+
+  // --- Airtime ---
+  if (airborne) {
+    player.altitude += player.verticalSpeed;
+    player.verticalSpeed -= GRAVITY;
+    if (player.altitude <= 0) {
+      player.altitude = 0;
+      player.verticalSpeed = 0;
+      player.state = 'skiing';
+      if (Math.abs(player.direction) > MAX_LANDING_ANGLE) {
+        return crash(sim, "Landed sideways");
+      }
+      events.push({ type: 'LAND' });
+    }
+  }
+
+  // --- Collision Detection ---
+  const playerHitboxes = getPlayerHitboxes(player);
+  const nearby = queryIndex(sim.index, player.y - PLAYER_REACH - MAX_HITBOX_REACH, player.y + PLAYER_REACH + MAX_HITBOX_REACH);
+  for (const obs of nearby) {
+    if (!anyOverlap(playerHitboxes, getObstacleHitbox(obs))) continue;
+
+    if (isJumpObstacle(obs.type)) {
+      if (player.state === 'skiing') {
+        player.state = 'jumping';
+        player.verticalSpeed = player.speed * (obs.type === ObstacleType.RAMP ? RAMP_LIFT : MOGUL_LIFT);
+        events.push({ type: 'JUMP' });
+      }
+      continue;
+    }
+    // Only the trees stand tall enough to hit in the air
+    if (player.state === 'jumping' && obs.type !== ObstacleType.TREE) continue;
+    return [...events, ...crash(sim, `Hit a ${obs.type.toLowerCase()}`)];
+  }
+
+  // --- Scoring ---
+  const scored = updateScore(sim.score, {
+    player, previousY, nearby, turn: input.steer || turn, topSpeed: targetMaxSpeed, tick: sim.tick
+  });
+  scored.awards.forEach(award => events.push({ type: 'SCORE', award }));
+  if (scored.comboBroken) events.push({ type: 'COMBO_BREAK' });
+
+  // --- Slalom Gates ---
+  if (sim.slalom) {
+    for (const gate of passGates(sim.slalom, { x: previousX, y: previousY }, player)) {
+      events.push({ type: 'GATE', gate });
+      if (gate.result === 'missed' && difficulty === Difficulty.HARD) {
+        return [...events, ...crash(sim, `Disqualified: missed gate ${gate.number}`)];
+      }
+    }
+  }
+
+  // --- Yeti Logic ---
+  // Each trail sets when the yeti wakes up per difficulty (later or never on EASY).
+  // Skiers in a race share one yeti: only the chased skier moves it, but it catches anyone.
+  const { yeti } = sim;
+  const yetiStartDistance = trail.yetiStartDistance[difficulty];
+  if (sim.chased && !yeti.active && yetiStartDistance !== null && player.y > yetiStartDistance) {
+    spawnYeti(yeti, player);
+    events.push({ type: 'YETI_SPAWN' });
+  }
+
+  if (yeti.active) {
+    const yetiEvent = sim.chased ? stepYeti(yeti, player, sim.index, difficulty) : null;
+    if (yetiEvent === 'LUNGE') events.push({ type: 'YETI_LUNGE' });
+    if (yetiEvent === 'STUMBLE') events.push({ type: 'YETI_STUMBLE' });
+
+    if (anyOverlap(getPlayerHitboxes(player), getYetiHitbox(yeti))) {
+      return [...events, ...crash(sim, "Caught by the Yeti")];
+    }
+  }
+
+  return events;
+};
@@ -0,0 +1,88 @@
+import { Player } from '../types';
+import { TrailDefinition, getTrackOffset, getTrackWidth } from './trail';
+
+// --- Slalom Gates ---
+// Gates swing alternately left and right of the trail's centerline, red then
+// blue, and the skier has to pass between each pair of poles. They come from
+// the trail alone (no RNG), so every slalom run on a trail has the same course
+// and the obstacle field for a seed is untouched.
+
+export type GateColor = 'red' | 'blue';
+
+export interface Gate {
+  number: number; // 1-based, in the order they're skied
+  x: number; // Center between the poles
+  y: number;
+  width: number; // Distance between the poles
+  color: GateColor;
+  result: 'cleared' | 'missed' | null; // null until the skier passes its line
+}
+
+export interface SlalomState {
+  gates: Gate[];
+  next: number; // Index of the next gate to ski
+  cleared: number;
+  missed: number;
+}
+
+const FIRST_GATE_Y = 600;
+const GATE_SPACING = 550;
+// Generated obstacles stop 300ft out; the run-out to the lodge stays clear too
+const FINISH_CLEARANCE = 500;
+const GATE_WIDTH = 120;
+const GATE_SWING = 120; // How far a gate sits off the centerline
+const MAX_SWING_SHARE = 0.3; // but never more than this share of the trail width
+// Where the trail itself bends hard, gates close in so each one stays reachable from the last
+const MAX_GATE_STEP = 280;
+
+// Added to an EASY run's time for every missed gate; PRO runs are disqualified instead
+export const MISSED_GATE_PENALTY_MS = 5000;
+
+export const createGates = (trail: TrailDefinition): Gate[] => {
+  const gates: Gate[] = [];
+  for (let y = FIRST_GATE_Y; y <= trail.length - FINISH_CLEARANCE; y += GATE_SPACING) {
+    const side = gates.length % 2 === 0 ? -1 : 1;
+    const previous = gates[gates.length - 1];
+    const center = getTrackOffset(trail, y);
+    const width = getTrackWidth(trail, y);
+    let x = center + side * Math.min(GATE_SWING, width * MAX_SWING_SHARE);
+    if (previous) x = Math.max(previous.x - MAX_GATE_STEP, Math.min(previous.x + MAX_GATE_STEP, x));
+    // Poles stay well clear of the tree lines
+    const room = width / 2 - GATE_WIDTH;
+    x = Math.max(center - room, Math.min(center + room, x));
+    gates.push({
+      number: gates.length + 1,
+      x,
+      y,
+      width: GATE_WIDTH,
+      color: side < 0 ? 'red' : 'blue',
+      result: null
+    });
+  }
+  return gates;
+};
+
+export const createSlalomState = (trail: TrailDefinition): SlalomState => ({
+  gates: createGates(trail),
+  next: 0,
+  cleared: 0,
+  missed: 0
+});
+
+// Resolve every gate whose line the skier crossed this tick, judged by where
+// they were at the moment they crossed it
+export const passGates = (slalom: SlalomState, previous: { x: number; y: number }, player: Player): Gate[] => {
+  const passed: Gate[] = [];
+  while (slalom.next < slalom.gates.length && slalom.gates[slalom.next].y <= player.y) {
+    const gate = slalom.gates[slalom.next++];
+    const t = player.y === previous.y ? 1 : (gate.y - previous.y) / (player.y - previous.y);
+    const crossingX = previous.x + (player.x - previous.x) * t;
+    gate.result = Math.abs(crossingX - gate.x) <= gate.width / 2 ? 'cleared' : 'missed';
+    if (gate.result === 'cleared') slalom.cleared++;
+    else slalom.missed++;
+    passed.push(gate);
+  }
+  return passed;
+};
+
+export const getGatePenalty = (slalom: SlalomState): number => slalom.missed * MISSED_GATE_PENALTY_MS;
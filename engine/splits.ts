@@ -0,0 +1,30 @@
+import { TrailDefinition } from './trail';
+
+// --- Split Times ---
+// Invisible checkpoints divide a trail into sections of a few thousand feet.
+// A run records the elapsed time at each one, plus its finish time, so it can
+// be compared section by section against the personal best.
+
+const SECTION_LENGTH = 5000;
+const MIN_SECTIONS = 3;
+
+// Distances of the checkpoints, not counting the finish line
+export const getCheckpoints = (trail: TrailDefinition): number[] => {
+  const sections = Math.max(MIN_SECTIONS, Math.round(trail.length / SECTION_LENGTH));
+  return Array.from({ length: sections - 1 }, (_, i) => Math.round(trail.length * (i + 1) / sections));
+};
+
+// Record the time for every checkpoint crossed between previousY and y
+export const recordSplits = (splits: number[], checkpoints: number[], previousY: number, y: number, time: number) => {
+  while (splits.length < checkpoints.length && checkpoints[splits.length] > previousY && checkpoints[splits.length] <= y) {
+    splits.push(time);
+  }
+};
+
+// How far ahead (negative) or behind a run is against the best at the same split
+export const getSplitDelta = (splits: number[], bestSplits: number[] | null, index: number): number | null =>
+  bestSplits && index < splits.length && index < bestSplits.length ? splits[index] - bestSplits[index] : null;
+
+// Time spent in each section, from the cumulative split times
+export const getSectionTimes = (splits: number[]): number[] =>
+  splits.map((time, i) => time - (i > 0 ? splits[i - 1] : 0));
@@ -0,0 +1,170 @@
+import { InputSnapshot, SimState, MPH_PER_SPEED } from './simulation';
+import { encodeInput, decodeInput } from './replay';
+import { getTrackOffset } from './trail';
+import { getYetiGap } from './yeti';
+
+// --- Run Telemetry ---
+// One sample per tick of where the skier was and what they were doing, for
+// the ANALYSIS screen. Unlike a replay it reads back without re-simulating,
+// so it stays readable after the engine or the trail changes. Each channel
+// is quantized to fixed point, delta-encoded and run-length packed into
+// varints; the bytes are stored as base64.
+
+export const TELEMETRY_VERSION = 1;
+
+export interface Telemetry {
+  x: number[];
+  y: number[];
+  speed: number[]; // mph
+  direction: number[]; // -1 (left) to 1 (right)
+  input: number[]; // Input masks, as in replays
+  offset: number[]; // ft from the trail's centerline; positive is right of it
+  yetiGap: number[]; // ft ahead of the yeti, NO_YETI while it's asleep
+}
+
+export const NO_YETI = -1;
+
+export interface PackedTelemetry {
+  version: number;
+  ticks: number;
+  data: string; // base64
+}
+
+type Channel = keyof Telemetry;
+
+// Steps each channel is rounded to, per unit
+const SCALES: Record<Channel, number> = {
+  x: 10,
+  y: 10,
+  speed: 100,
+  direction: 100,
+  input: 1,
+  offset: 10,
+  yetiGap: 10
+};
+const CHANNELS = Object.keys(SCALES) as Channel[];
+
+export const createTelemetry = (): Telemetry => ({
+  x: [], y: [], speed: [], direction: [], input: [], offset: [], yetiGap: []
+});
+
+export const getTelemetryTicks = (telemetry: Telemetry): number => telemetry.y.length;
+
+// Samples the skier as a tick starts, alongside the input held through it
+export const recordTelemetry = (telemetry: Telemetry, sim: SimState, input: InputSnapshot) => {
+  const { player } = sim;
+  const gap = getYetiGap(sim.yeti, player);
+  telemetry.x.push(player.x);
+  telemetry.y.push(player.y);
+  telemetry.speed.push(player.speed * MPH_PER_SPEED);
+  telemetry.direction.push(player.direction);
+  telemetry.input.push(encodeInput(input));
+  telemetry.offset.push(player.x - getTrackOffset(sim.trail, player.y));
+  telemetry.yetiGap.push(gap === null ? NO_YETI : Math.max(0, gap));
+};
+
+// --- Packing ---
+// Per channel, a run of equal deltas is one varint token: the zigzagged
+// delta shifted up a bit, with the low bit set when a repeat count follows.
+
+const zigzag = (n: number) => (n >= 0 ? n * 2 : -n * 2 - 1);
+const unzigzag = (n: number) => (n % 2 === 0 ? n / 2 : -(n + 1) / 2);
+
+const writeVarint = (bytes: number[], value: number) => {
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+};
+
+const toBase64 = (bytes: number[]): string => {
+  let binary = '';
+  // In slices, since spreading a long run's bytes overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.slice(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const packTelemetry = (telemetry: Telemetry): PackedTelemetry => {
+  const ticks = getTelemetryTicks(telemetry);
+  const bytes: number[] = [];
+  for (const channel of CHANNELS) {
+    const values = telemetry[channel].map(value => Math.round(value * SCALES[channel]));
+    let previous = 0;
+    for (let i = 0; i < ticks;) {
+      const delta = values[i] - previous;
+      let count = 1;
+      while (i + count < ticks && values[i + count] - values[i + count - 1] === delta) count++;
+      writeVarint(bytes, zigzag(delta) * 2 + (count > 1 ? 1 : 0));
+      if (count > 1) writeVarint(bytes, count);
+      previous = values[i + count - 1];
+      i += count;
+    }
+  }
+  return { version: TELEMETRY_VERSION, ticks, data: toBase64(bytes) };
+};
+
+// null if the telemetry is from another version or doesn't decode cleanly
+export const unpackTelemetry = (packed: PackedTelemetry): Telemetry | null => {
+  if (packed.version !== TELEMETRY_VERSION || !Number.isInteger(packed.ticks) || packed.ticks < 0) return null;
+  let binary: string;
+  try {
+    binary = atob(packed.data);
+  } catch (e) {
+    return null;
+  }
+
+  let position = 0;
+  const readVarint = (): number | null => {
+    let value = 0;
+    let scale = 1;
+    while (position < binary.length) {
+      const byte = binary.charCodeAt(position++);
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+    return null;
+  };
+
+  const telemetry = createTelemetry();
+  for (const channel of CHANNELS) {
+    const values = telemetry[channel];
+    let current = 0;
+    while (values.length < packed.ticks) {
+      const token = readVarint();
+      if (token === null) return null;
+      const count = token % 2 === 1 ? readVarint() : 1;
+      if (count === null || count < 1 || values.length + count > packed.ticks) return null;
+      const delta = unzigzag(Math.floor(token / 2));
+      for (let i = 0; i < count; i++) {
+        current += delta;
+        values.push(current / SCALES[channel]);
+      }
+    }
+  }
+  return position === binary.length ? telemetry : null;
+};
+
+// --- Summary ---
+
+export interface TelemetrySummary {
+  averageSpeed: number; // mph
+  averageOffset: number; // ft from the centerline, either side
+  tuckShare: number; // Share of ticks spent tucked, 0-1
+  closestYeti: number | null; // ft; null if it never woke up
+}
+
+export const summarizeTelemetry = (telemetry: Telemetry): TelemetrySummary => {
+  const ticks = getTelemetryTicks(telemetry);
+  const average = (values: number[]) => (ticks > 0 ? values.reduce((sum, value) => sum + value, 0) / ticks : 0);
+  const gaps = telemetry.yetiGap.filter(gap => gap !== NO_YETI);
+  return {
+    averageSpeed: average(telemetry.speed),
+    averageOffset: average(telemetry.offset.map(Math.abs)),
+    tuckShare: ticks > 0 ? telemetry.input.filter(mask => decodeInput(mask).down).length / ticks : 0,
+    closestYeti: gaps.length > 0 ? gaps.reduce((closest, gap) => Math.min(closest, gap)) : null
+  };
+};
@@ -0,0 +1,246 @@
+import { Difficulty, ObstacleType } from '../types';
+
+// --- Trail Definitions ---
+// A trail is plain JSON: a centerline spline, a width profile, a pitch
+// profile, hazard zones, hand-placed obstacles, when the yeti wakes up and
+// where the lodge sits.
+// Everything that used to be hardcoded about the course reads from here.
+
+export interface CenterlinePoint {
+  y: number; // Distance down the mountain (ft)
+  x: number; // Horizontal offset of the trail center
+}
+
+export interface WidthPoint {
+  y: number;
+  width: number;
+}
+
+// Pitch scales the skier's acceleration; 1 is the standard Nile Mile grade
+export interface PitchPoint {
+  y: number;
+  pitch: number;
+}
+
+export interface HazardZone {
+  from: number;
+  to: number;
+  density: number; // Chance of an on-track hazard per row (PRO runs only)
+  rockChance: number; // Share of those hazards that are rocks rather than stumps
+  jumpChance?: number; // Chance of a ramp or mogul field per row (PRO runs only), defaults to DEFAULT_JUMP_CHANCE
+}
+
+export const DEFAULT_JUMP_CHANCE = 0.02;
+
+export type PlaceableObstacleType =
+  | ObstacleType.TREE | ObstacleType.ROCK | ObstacleType.STUMP | ObstacleType.RAMP | ObstacleType.MOGULS;
+
+// Fixed obstacles from the course editor, placed on every run regardless of seed
+export interface PlacedObstacle {
+  type: PlaceableObstacleType;
+  x: number;
+  y: number;
+}
+
+export const PLACEABLE_OBSTACLE_TYPES: PlaceableObstacleType[] = [
+  ObstacleType.TREE, ObstacleType.ROCK, ObstacleType.STUMP, ObstacleType.RAMP, ObstacleType.MOGULS
+];
+
+// Ramps and mogul fields launch the skier instead of stopping them
+export const isJumpObstacle = (type: ObstacleType): boolean =>
+  type === ObstacleType.RAMP || type === ObstacleType.MOGULS;
+
+export interface TrailDefinition {
+  id: string;
+  name: string;
+  length: number; // Finish line (ft)
+  lodge: { y: number; x?: number }; // x defaults to the centerline
+  yetiStartDistance: Record<Difficulty, number | null>; // null: no yeti on this run
+  centerline: CenterlinePoint[];
+  width: WidthPoint[];
+  pitch: PitchPoint[];
+  hazardZones: HazardZone[];
+  obstacles?: PlacedObstacle[];
+}
+
+export class TrailValidationError extends Error {
+  constructor(public source: string, public errors: string[]) {
+    super(`Invalid trail "${source}":\n  - ${errors.join('\n  - ')}`);
+    this.name = 'TrailValidationError';
+  }
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const validateProfile = (
+  errors: string[],
+  data: Record<string, unknown>,
+  field: string,
+  valueKey: string,
+  check: (v: number) => boolean,
+  requirement: string
+) => {
+  const points = data[field];
+  if (!Array.isArray(points) || points.length === 0) {
+    errors.push(`${field} must be a non-empty array`);
+    return;
+  }
+  points.forEach((p, i) => {
+    if (!p || typeof p !== 'object') {
+      errors.push(`${field}[${i}] must be an object`);
+      return;
+    }
+    if (!isNumber(p.y)) errors.push(`${field}[${i}].y must be a number`);
+    else if (i > 0 && isNumber(points[i - 1]?.y) && p.y <= points[i - 1].y) {
+      errors.push(`${field}[${i}].y (${p.y}) must be greater than ${field}[${i - 1}].y (${points[i - 1].y})`);
+    }
+    if (!isNumber(p[valueKey]) || !check(p[valueKey])) {
+      errors.push(`${field}[${i}].${valueKey} must be ${requirement}`);
+    }
+  });
+};
+
+// Collects every problem with a trail file rather than stopping at the first
+export const validateTrail = (data: unknown): string[] => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return ['Trail must be a JSON object'];
+  const t = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof t.id !== 'string' || !t.id) errors.push('id must be a non-empty string');
+  if (typeof t.name !== 'string' || !t.name) errors.push('name must be a non-empty string');
+  if (!isNumber(t.length) || t.length <= 0) errors.push('length must be a positive number');
+
+  const lodge = t.lodge as Record<string, unknown> | undefined;
+  if (!lodge || typeof lodge !== 'object') {
+    errors.push('lodge must be an object with a y position');
+  } else {
+    if (!isNumber(lodge.y)) errors.push('lodge.y must be a number');
+    else if (isNumber(t.length) && lodge.y < t.length) errors.push(`lodge.y (${lodge.y}) must be at or past the finish line (${t.length})`);
+    if (lodge.x !== undefined && !isNumber(lodge.x)) errors.push('lodge.x must be a number if set');
+  }
+
+  const yetiStart = t.yetiStartDistance as Record<string, unknown> | undefined;
+  if (!yetiStart || typeof yetiStart !== 'object') {
+    errors.push('yetiStartDistance must be an object with EASY and HARD distances');
+  } else {
+    for (const difficulty of [Difficulty.EASY, Difficulty.HARD]) {
+      const d = yetiStart[difficulty];
+      if (d !== null && (!isNumber(d) || d < 0)) {
+        errors.push(`yetiStartDistance.${difficulty} must be a distance or null`);
+      }
+    }
+  }
+
+  validateProfile(errors, t, 'centerline', 'x', () => true, 'a number');
+  validateProfile(errors, t, 'width', 'width', v => v > 0, 'a positive number');
+  validateProfile(errors, t, 'pitch', 'pitch', v => v > 0, 'a positive number');
+
+  if (!Array.isArray(t.hazardZones)) {
+    errors.push('hazardZones must be an array');
+  } else {
+    t.hazardZones.forEach((z, i) => {
+      if (!z || typeof z !== 'object') {
+        errors.push(`hazardZones[${i}] must be an object`);
+        return;
+      }
+      if (!isNumber(z.from) || !isNumber(z.to) || z.to <= z.from) {
+        errors.push(`hazardZones[${i}] needs numeric from < to`);
+      }
+      if (!isNumber(z.density) || z.density < 0 || z.density > 1) errors.push(`hazardZones[${i}].density must be between 0 and 1`);
+      if (!isNumber(z.rockChance) || z.rockChance < 0 || z.rockChance > 1) errors.push(`hazardZones[${i}].rockChance must be between 0 and 1`);
+      if (z.jumpChance !== undefined && (!isNumber(z.jumpChance) || z.jumpChance < 0 || z.jumpChance > 1)) {
+        errors.push(`hazardZones[${i}].jumpChance must be between 0 and 1 if set`);
+      }
+    });
+  }
+
+  if (t.obstacles !== undefined) {
+    if (!Array.isArray(t.obstacles)) {
+      errors.push('obstacles must be an array if set');
+    } else {
+      t.obstacles.forEach((o, i) => {
+        if (!o || typeof o !== 'object') {
+          errors.push(`obstacles[${i}] must be an object`);
+          return;
+        }
+        if (!PLACEABLE_OBSTACLE_TYPES.includes(o.type)) {
+          errors.push(`obstacles[${i}].type must be one of ${PLACEABLE_OBSTACLE_TYPES.join(', ')}`);
+        }
+        if (!isNumber(o.x) || !isNumber(o.y)) errors.push(`obstacles[${i}] needs numeric x and y`);
+      });
+    }
+  }
+
+  return errors;
+};
+
+// Validates and returns the trail, or throws listing everything wrong with it
+export const parseTrail = (data: unknown, source: string): TrailDefinition => {
+  const errors = validateTrail(data);
+  if (errors.length > 0) throw new TrailValidationError(source, errors);
+  return data as TrailDefinition;
+};
+
+// --- Profile Lookups ---
+
+// Index of the last point at or before y (points are sorted by y)
+const findSegment = (points: { y: number }[], y: number): number => {
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (points[mid].y <= y) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+const interpolateLinear = <T extends { y: number }>(points: T[], y: number, value: (p: T) => number): number => {
+  if (y <= points[0].y) return value(points[0]);
+  const i = findSegment(points, y);
+  if (i >= points.length - 1) return value(points[points.length - 1]);
+  const a = points[i];
+  const b = points[i + 1];
+  return value(a) + (value(b) - value(a)) * (y - a.y) / (b.y - a.y);
+};
+
+// Horizontal center of the trail at distance y.
+// Cubic Hermite through the control points with Catmull-Rom tangents,
+// held flat beyond either end.
+export const getTrackOffset = (trail: TrailDefinition, y: number): number => {
+  const points = trail.centerline;
+  if (points.length === 1 || y <= points[0].y) return points[0].x;
+  const i = findSegment(points, y);
+  if (i >= points.length - 1) return points[points.length - 1].x;
+
+  const p0 = points[Math.max(i - 1, 0)];
+  const p1 = points[i];
+  const p2 = points[i + 1];
+  const p3 = points[Math.min(i + 2, points.length - 1)];
+
+  const span = p2.y - p1.y;
+  const m1 = (p2.x - p0.x) / (p2.y - p0.y) * span;
+  const m2 = (p3.x - p1.x) / (p3.y - p1.y) * span;
+
+  const t = (y - p1.y) / span;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * p1.x
+    + (t3 - 2 * t2 + t) * m1
+    + (-2 * t3 + 3 * t2) * p2.x
+    + (t3 - t2) * m2;
+};
+
+export const getTrackWidth = (trail: TrailDefinition, y: number): number =>
+  interpolateLinear(trail.width, y, p => p.width);
+
+export const getPitch = (trail: TrailDefinition, y: number): number =>
+  interpolateLinear(trail.pitch, y, p => p.pitch);
+
+export const getHazardZone = (trail: TrailDefinition, y: number): HazardZone | null =>
+  trail.hazardZones.find(z => y >= z.from && y < z.to) ?? null;
+
+export const getLodgePosition = (trail: TrailDefinition): { x: number; y: number } => ({
+  x: trail.lodge.x ?? getTrackOffset(trail, trail.lodge.y),
+  y: trail.lodge.y
+});
@@ -0,0 +1,78 @@
+import { Difficulty, GameMode } from '../types';
+import { getRaceTime } from './simulation';
+import { Replay, createPlayback, seekPlayback, validateReplay, wasPaused, getReplayMode } from './replay';
+import { getTrail } from '../trails';
+
+// --- Run Verification ---
+// Leaderboard submissions carry their replay. The verifier re-simulates it
+// from the seed and only trusts the time, distance and score it computes itself.
+
+export interface RunSubmission {
+  name: string;
+  trail: string;
+  difficulty: Difficulty;
+  time: number; // ms, as reported by the client, including any missed-gate penalties
+  distance: number;
+  score?: number; // Missing on runs queued before scoring
+  seed: number;
+  replay: Replay;
+}
+
+export type VerificationResult =
+  | { accepted: true; time: number; distance: number; score: number }
+  | { accepted: false; reason: string };
+
+const reject = (reason: string): VerificationResult => ({ accepted: false, reason });
+
+export const verifySubmission = (submission: RunSubmission): VerificationResult => {
+  if (!submission || typeof submission !== 'object') return reject('Malformed submission');
+  const { replay } = submission;
+
+  const name = typeof submission.name === 'string' ? submission.name.trim() : '';
+  if (!name || name.length > 10) return reject('Name must be 1-10 characters');
+
+  const problem = validateReplay(replay);
+  if (problem) return reject(problem);
+  // The shared yeti only chases whoever is furthest back, so a race run (or one
+  // with a made-up rival trailing behind) can't be ranked against solo runs
+  if (replay.race) return reject('Split-screen race runs are not ranked');
+  if (replay.trailId !== submission.trail) return reject('Replay was recorded on a different trail');
+  if (replay.seed !== submission.seed) return reject('Replay was recorded on a different course');
+  if (replay.difficulty !== submission.difficulty) return reject('Replay difficulty does not match the submission');
+  // Pausing lets you study the course ahead, so PRO boards only take straight runs.
+  // EASY runs are accepted and flagged on the board instead.
+  if (replay.difficulty === Difficulty.HARD && wasPaused(replay)) return reject('PRO runs must be skied without pausing');
+
+  const trail = getTrail(replay.trailId);
+  if (!trail) return reject(`Unknown trail: ${replay.trailId}`);
+
+  const playback = createPlayback(replay, trail);
+  seekPlayback(playback, replay.ticks);
+  const { sim } = playback;
+
+  // A submitted run must end exactly where the replay does, in a crash or at the lodge
+  if (sim.tick !== replay.ticks || sim.status === 'running') {
+    return reject('Replay does not end in a crash or a finish');
+  }
+  // Slalom boards rank technique over survival, so only complete runs count
+  if (getReplayMode(replay) === GameMode.SLALOM && sim.status !== 'finished') {
+    return reject('Slalom runs only count when they reach the finish');
+  }
+
+  const time = getRaceTime(sim);
+  const distance = Math.floor(sim.player.y);
+  const score = sim.score.total;
+
+  // Race times are whole ms; runs queued before that carry the fraction
+  if (Math.round(submission.time) !== time) {
+    return reject(`Reported time ${(submission.time / 1000).toFixed(2)}s does not match the replay (${(time / 1000).toFixed(2)}s)`);
+  }
+  if (distance !== Math.floor(submission.distance)) {
+    return reject(`Reported distance ${Math.floor(submission.distance)}ft does not match the replay (${distance}ft)`);
+  }
+  if (submission.score !== undefined && submission.score !== score) {
+    return reject(`Reported score ${submission.score} does not match the replay (${score})`);
+  }
+
+  return { accepted: true, time, distance, score };
+};
@@ -0,0 +1,144 @@
+import { Difficulty, ObstacleType, Player } from '../types';
+import { SpatialIndex, queryIndex, getObstacleHitbox, getYetiHitbox, hitboxesOverlap } from './collision';
+import { isJumpObstacle } from './trail';
+
+// --- Yeti Behavior ---
+// The yeti stalks the skier from behind, lunges once it's close enough to
+// grab and stumbles if it runs into anything. It reads the same obstacle
+// index as the skier, so it has to find its own way down the trees.
+
+export type YetiBehavior = 'stalking' | 'lunging' | 'stumbling';
+
+export interface Yeti {
+  active: boolean;
+  x: number;
+  y: number;
+  speed: number;
+  behavior: YetiBehavior;
+  timer: number; // Ticks left lunging or stumbling
+  cooldown: number; // Ticks before it can lunge again, winded meanwhile
+  lungeX: number; // Where the skier was when it lunged; it doesn't adjust mid-air
+}
+
+interface YetiTuning {
+  runSpeed: number; // Stalking speed, a touch over the skier's top speed
+  lungeRange: number; // How close it needs to be to lunge
+  lungeBonus: number;
+  lungeTicks: number;
+  lungeCooldown: number;
+  windedPenalty: number; // Speed lost while recovering from a lunge
+  stumbleTicks: number;
+  stumbleSpeed: number;
+  maxLateral: number; // Sideways speed while stalking (px per tick)
+}
+
+const TUNING: Record<Difficulty, YetiTuning> = {
+  [Difficulty.EASY]: {
+    runSpeed: 8.1, lungeRange: 140, lungeBonus: 4, lungeTicks: 30, lungeCooldown: 120,
+    windedPenalty: 2, stumbleTicks: 90, stumbleSpeed: 1, maxLateral: 4
+  },
+  [Difficulty.HARD]: {
+    runSpeed: 12.15, lungeRange: 200, lungeBonus: 5, lungeTicks: 36, lungeCooldown: 80,
+    windedPenalty: 1, stumbleTicks: 50, stumbleSpeed: 2, maxLateral: 6
+  }
+};
+
+export const SPAWN_GAP = 800; // Wakes up this far behind the skier
+
+// Past this gap it runs faster, so a stumble doesn't end the chase
+const CATCH_UP_GAP = 600;
+const CATCH_UP_RATE = 0.001; // Extra speed per px of gap beyond CATCH_UP_GAP
+const MAX_CATCH_UP = 3;
+
+// How far ahead it looks for things to steer around, and the berth it gives them
+const LOOKAHEAD = 150;
+const CLEARANCE = 30;
+
+export const createYeti = (): Yeti => ({
+  active: false, x: 0, y: -1000, speed: 0, behavior: 'stalking', timer: 0, cooldown: 0, lungeX: 0
+});
+
+export const spawnYeti = (yeti: Yeti, player: Player) => {
+  yeti.active = true;
+  yeti.y = player.y - SPAWN_GAP;
+  yeti.x = player.x; // Start aligned with player
+  yeti.behavior = 'stalking';
+  yeti.timer = 0;
+  yeti.cooldown = 0;
+};
+
+// Distance the yeti trails the skier by, or null while it's asleep
+export const getYetiGap = (yeti: Yeti, player: Player): number | null =>
+  yeti.active ? player.y - yeti.y : null;
+
+const isSolid = (type: ObstacleType) => !isJumpObstacle(type);
+
+// Aim for the skier, but sidestep the nearest thing in the way, passing it
+// on whichever side is closer to where the skier is
+const steerTarget = (yeti: Yeti, player: Player, index: SpatialIndex): number => {
+  const blocking = queryIndex(index, yeti.y, yeti.y + LOOKAHEAD)
+    .filter(obs => isSolid(obs.type) && Math.abs(obs.x - yeti.x) < obs.width / 2 + CLEARANCE)
+    .sort((a, b) => a.y - b.y)[0];
+  if (!blocking) return player.x;
+  const berth = blocking.width / 2 + CLEARANCE;
+  return player.x < blocking.x ? blocking.x - berth : blocking.x + berth;
+};
+
+export type YetiEvent = 'LUNGE' | 'STUMBLE';
+
+// Advance the yeti one tick; returns what it started doing, if anything
+export const stepYeti = (yeti: Yeti, player: Player, index: SpatialIndex, difficulty: Difficulty): YetiEvent | null => {
+  const tuning = TUNING[difficulty];
+  let event: YetiEvent | null = null;
+
+  if (yeti.cooldown > 0) yeti.cooldown--;
+  if (yeti.timer > 0 && --yeti.timer === 0) {
+    if (yeti.behavior === 'lunging') yeti.cooldown = tuning.lungeCooldown;
+    yeti.behavior = 'stalking';
+  }
+
+  const gap = player.y - yeti.y;
+  if (yeti.behavior === 'stalking' && yeti.cooldown === 0 && gap > 0 && gap < tuning.lungeRange) {
+    yeti.behavior = 'lunging';
+    yeti.timer = tuning.lungeTicks;
+    yeti.lungeX = player.x;
+    event = 'LUNGE';
+  }
+
+  let lateral: number;
+  switch (yeti.behavior) {
+    case 'lunging':
+      // Committed to where the skier was, so a late swerve dodges it, and
+      // not looking where it's going either
+      yeti.speed = player.speed + tuning.lungeBonus;
+      lateral = (yeti.lungeX - yeti.x) * 0.15;
+      break;
+    case 'stumbling':
+      yeti.speed = tuning.stumbleSpeed;
+      lateral = 0;
+      break;
+    default:
+      // Overshot after a lunge: let the skier come back past
+      yeti.speed = gap < 0 ? player.speed * 0.8 : tuning.runSpeed
+        + Math.min(MAX_CATCH_UP, Math.max(0, gap - CATCH_UP_GAP) * CATCH_UP_RATE)
+        - (yeti.cooldown > 0 ? tuning.windedPenalty : 0);
+      lateral = (steerTarget(yeti, player, index) - yeti.x) * 0.05;
+      lateral = Math.max(-tuning.maxLateral, Math.min(tuning.maxLateral, lateral));
+  }
+  yeti.y += yeti.speed;
+  yeti.x += lateral;
+
+  // Running into anything knocks it off its feet
+  if (yeti.behavior !== 'stumbling') {
+    const hitbox = getYetiHitbox(yeti);
+    const hit = queryIndex(index, yeti.y - 60, yeti.y + 60)
+      .some(obs => isSolid(obs.type) && hitboxesOverlap(hitbox, getObstacleHitbox(obs)));
+    if (hit) {
+      yeti.behavior = 'stumbling';
+      yeti.timer = tuning.stumbleTicks;
+      event = 'STUMBLE';
+    }
+  }
+
+  return event;
+};
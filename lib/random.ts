@@ -0,0 +1,20 @@
+// Seedable pseudo-random number generation for course generation.
+// Everything that shapes a run must draw from here rather than Math.random()
+// so the same seed + difficulty always rebuilds the same Nile Mile.
+
+export type Rng = () => number;
+
+// Mulberry32 - small, fast and good enough for placing trees
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh 32-bit seed for a new run
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -1,12 +1,16 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Replay } from '../engine/replay';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// import.meta.env comes from Vite, so it's missing when this loads under Node in tests
+const supabaseUrl = import.meta.env?.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env?.VITE_SUPABASE_ANON_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
     console.warn('Supabase credentials not found. Leaderboard will use localStorage only.');
 }
 
+// The anon key only reads the leaderboard. Runs are written by the verifier
+// with the service-role key, so the table must not allow anon inserts (see README).
 export const supabase = supabaseUrl && supabaseAnonKey
     ? createClient(supabaseUrl, supabaseAnonKey)
     : null;
@@ -16,5 +20,17 @@ export interface LeaderboardEntry {
     name: string;
     time: number;
     difficulty: string;
+    mode: string;
+    distance?: number;
+    score?: number;
+    trail: string;
+    seed?: number;
+    replay?: Replay;
     created_at?: string;
 }
+
+export interface AchievementRow {
+    name: string;
+    achievement: string;
+    unlocked_at: string;
+}
@@ -0,0 +1,102 @@
+import http from 'node:http';
+import { CHUCKS_TIPS, DEFAULT_COACH_PORT } from '../services/coachService';
+
+// Local mock of an OpenAI-compatible chat completions endpoint, for working
+// on the coach without a model or an API key. Chuck reads back the first
+// observation in the run summary and adds one of his tips.
+//
+//   npm run coach-server
+//
+// Then pick OPENAI-COMPATIBLE in the game's settings with the default URL.
+// COACH_DELAY_MS delays every reply, to try out the client's timeout.
+
+const PORT = Number(process.env.PORT) || DEFAULT_COACH_PORT;
+const ROUTE = '/v1/chat/completions';
+const DELAY_MS = Number(process.env.COACH_DELAY_MS) || 0;
+const MAX_BODY_BYTES = 64 * 1024;
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, content-type',
+};
+
+interface ChatMessage {
+    role: string;
+    content: string;
+}
+
+const isChatMessage = (data: unknown): data is ChatMessage =>
+    !!data && typeof data === 'object'
+    && typeof (data as ChatMessage).role === 'string' && typeof (data as ChatMessage).content === 'string';
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) {
+            reject(new Error('Request too large'));
+            req.destroy();
+        }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+});
+
+// The prompt lists observations as "- ..." lines under "Observations:"
+const reply = (messages: ChatMessage[]) => {
+    const prompt = [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    const observation = prompt.split('\n')
+        .filter(line => line.startsWith('- '))
+        .map(line => line.slice(2))
+        .find(line => line !== 'Nothing stood out.');
+    const tip = CHUCKS_TIPS[Math.floor(Math.random() * CHUCKS_TIPS.length)];
+    return observation ? `${observation} ${tip}` : tip;
+};
+
+const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+        return;
+    }
+    if (req.method !== 'POST' || req.url !== ROUTE) {
+        send(res, 404, { error: { message: 'Not found' } });
+        return;
+    }
+
+    let messages: ChatMessage[];
+    let model: string;
+    try {
+        const request = JSON.parse(await readBody(req));
+        if (!request || !Array.isArray(request.messages) || !request.messages.every(isChatMessage)) {
+            send(res, 400, { error: { message: 'messages must be an array of { role, content } strings' } });
+            return;
+        }
+        messages = request.messages;
+        model = typeof request.model === 'string' ? request.model : 'chuck';
+    } catch (e) {
+        send(res, 400, { error: { message: 'Malformed request' } });
+        return;
+    }
+
+    if (DELAY_MS > 0) await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+    const content = reply(messages);
+    console.log(`Chuck: ${content}`);
+    send(res, 200, {
+        id: `chatcmpl-${Date.now()}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock coach listening on http://localhost:${PORT}${ROUTE}`);
+});
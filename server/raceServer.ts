@@ -0,0 +1,238 @@
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { Difficulty, GameMode } from '../types';
+import { randomSeed } from '../lib/random';
+import { DEFAULT_TRAIL, isBuiltInTrail } from '../trails';
+import {
+    ClientMessage, ServerMessage, Lobby, LobbyPlayer, RaceSettings, SkierState, LOBBY_SIZE, DEFAULT_RACE_PORT
+} from '../engine/online';
+
+// Relay for online races. Players join a lobby by room code, the host picks
+// the trail and starts the race, and from then on every skier's state is
+// passed on to everyone else in the room. Each browser simulates its own
+// run; the server only keeps the lobby and decides when the race is over.
+//
+//   npm run race-server
+//
+// Then point the game at ws://<this machine>:8788 from the ONLINE RACE screen.
+
+const PORT = Number(process.env.PORT) || DEFAULT_RACE_PORT;
+const MAX_MESSAGE_BYTES = 4 * 1024;
+// A race that hasn't ended by now has someone stuck in a background tab
+const MAX_RACE_MS = 10 * 60 * 1000;
+
+const MAX_NAME_LENGTH = 10;
+const MAX_ROOM_LENGTH = 12;
+const DEFAULT_ROOM = 'LODGE';
+
+interface Client {
+    socket: WebSocket;
+    player: LobbyPlayer;
+    room: Room | null;
+}
+
+interface Room {
+    lobby: Lobby;
+    clients: Map<string, Client>;
+    skiing: Set<string>; // Racers who haven't crashed or finished yet
+    timeout: NodeJS.Timeout | null;
+}
+
+const rooms = new Map<string, Room>();
+
+const send = (client: Client, message: ServerMessage) => {
+    if (client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(JSON.stringify(message));
+    }
+};
+
+const broadcast = (room: Room, message: ServerMessage, except?: Client) => {
+    room.clients.forEach(client => {
+        if (client !== except) send(client, message);
+    });
+};
+
+const broadcastLobby = (room: Room) => broadcast(room, { type: 'LOBBY', lobby: room.lobby });
+
+// --- Validation ---
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const parseSettings = (value: unknown): RaceSettings | null => {
+    const settings = value as Partial<RaceSettings> | null;
+    if (!settings || typeof settings.trailId !== 'string' || !isBuiltInTrail(settings.trailId)) return null;
+    if (!Object.values(Difficulty).includes(settings.difficulty as Difficulty)) return null;
+    if (!Object.values(GameMode).includes(settings.mode as GameMode)) return null;
+    return { trailId: settings.trailId, difficulty: settings.difficulty as Difficulty, mode: settings.mode as GameMode };
+};
+
+const parseState = (value: unknown): SkierState | null => {
+    const state = value as Partial<SkierState> | null;
+    if (!state) return null;
+    const { x, y, direction, altitude, speed, status, time } = state;
+    if (![x, y, direction, altitude, speed, time].every(isFiniteNumber)) return null;
+    if (status !== 'running' && status !== 'crashed' && status !== 'finished') return null;
+    return { x, y, direction, altitude, speed, status, time } as SkierState;
+};
+
+const parseMessage = (data: RawData): ClientMessage | null => {
+    const text = data.toString();
+    if (text.length > MAX_MESSAGE_BYTES) return null;
+    try {
+        const message = JSON.parse(text);
+        return message && typeof message.type === 'string' ? message as ClientMessage : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+// --- Races ---
+
+const endRace = (room: Room) => {
+    if (room.timeout) clearTimeout(room.timeout);
+    room.timeout = null;
+    room.skiing.clear();
+    room.lobby.racing = false;
+    console.log(`Race over in ${room.lobby.room}`);
+    broadcastLobby(room);
+};
+
+const startRace = (room: Room) => {
+    const { lobby } = room;
+    const seed = randomSeed();
+    const racers = lobby.players.map(player => ({ ...player }));
+    lobby.players.forEach(player => { player.ready = false; });
+    lobby.racing = true;
+    room.skiing = new Set(racers.map(racer => racer.id));
+    room.timeout = setTimeout(() => endRace(room), MAX_RACE_MS);
+
+    console.log(`Race starting in ${lobby.room}: ${racers.length} skier(s) on ${lobby.settings.trailId}, seed ${seed}`);
+    broadcast(room, { type: 'COUNTDOWN', seed, settings: lobby.settings, racers });
+    broadcastLobby(room);
+};
+
+// A racer who crashed, finished or left is done; the race ends with the last of them
+const markDone = (room: Room, id: string) => {
+    if (!room.lobby.racing || !room.skiing.delete(id)) return;
+    if (room.skiing.size === 0) endRace(room);
+};
+
+// --- Lobby ---
+
+const join = (client: Client, message: Extract<ClientMessage, { type: 'JOIN' }>) => {
+    if (client.room) return;
+    const code = String(message.room ?? '').trim().toUpperCase().substring(0, MAX_ROOM_LENGTH) || DEFAULT_ROOM;
+    const room = rooms.get(code);
+    if (room && room.lobby.players.length >= LOBBY_SIZE) {
+        send(client, { type: 'ERROR', reason: `Lobby ${code} is full (${LOBBY_SIZE} skiers)` });
+        return;
+    }
+    if (room?.lobby.racing) {
+        send(client, { type: 'ERROR', reason: `A race is underway in ${code}. Join once it's over.` });
+        return;
+    }
+
+    client.player.name = String(message.name ?? '').trim().toUpperCase().substring(0, MAX_NAME_LENGTH) || 'SKIER';
+    client.player.skin = String(message.skin ?? '');
+    const joined = room ?? {
+        lobby: {
+            room: code,
+            hostId: client.player.id,
+            players: [],
+            settings: parseSettings(message.settings) ?? { trailId: DEFAULT_TRAIL.id, difficulty: Difficulty.HARD, mode: GameMode.FREERIDE },
+            racing: false
+        },
+        clients: new Map(),
+        skiing: new Set(),
+        timeout: null
+    };
+    rooms.set(code, joined);
+    joined.lobby.players.push(client.player);
+    joined.clients.set(client.player.id, client);
+    client.room = joined;
+
+    console.log(`${client.player.name} joined ${code} (${joined.lobby.players.length}/${LOBBY_SIZE})`);
+    broadcastLobby(joined);
+};
+
+const leave = (client: Client) => {
+    const { room } = client;
+    if (!room) return;
+    client.room = null;
+    room.clients.delete(client.player.id);
+    room.lobby.players = room.lobby.players.filter(player => player.id !== client.player.id);
+    console.log(`${client.player.name} left ${room.lobby.room}`);
+
+    if (room.lobby.players.length === 0) {
+        if (room.timeout) clearTimeout(room.timeout);
+        rooms.delete(room.lobby.room);
+        return;
+    }
+    // The longest-standing player takes over as host
+    if (room.lobby.hostId === client.player.id) room.lobby.hostId = room.lobby.players[0].id;
+    markDone(room, client.player.id);
+    broadcastLobby(room);
+};
+
+const handleMessage = (client: Client, message: ClientMessage) => {
+    if (message.type === 'JOIN') {
+        join(client, message);
+        return;
+    }
+    const { room } = client;
+    if (!room) return;
+    const { lobby } = room;
+    const isHost = lobby.hostId === client.player.id;
+
+    switch (message.type) {
+        case 'READY':
+            if (lobby.racing) return;
+            client.player.ready = message.ready === true;
+            broadcastLobby(room);
+            break;
+        case 'SETTINGS': {
+            const settings = parseSettings(message.settings);
+            if (!isHost || lobby.racing || !settings) return;
+            lobby.settings = settings;
+            broadcastLobby(room);
+            break;
+        }
+        case 'START':
+            if (!isHost || lobby.racing) return;
+            if (!lobby.players.every(player => player.ready)) {
+                send(client, { type: 'ERROR', reason: 'Not everyone is ready yet' });
+                return;
+            }
+            startRace(room);
+            break;
+        case 'STATE': {
+            const state = parseState(message.state);
+            if (!state || !room.skiing.has(client.player.id)) return;
+            broadcast(room, { type: 'STATE', id: client.player.id, state }, client);
+            if (state.status !== 'running') markDone(room, client.player.id);
+            break;
+        }
+    }
+};
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+wss.on('connection', socket => {
+    const client: Client = {
+        socket,
+        player: { id: randomUUID(), name: 'SKIER', skin: '', ready: false },
+        room: null
+    };
+    send(client, { type: 'WELCOME', id: client.player.id });
+
+    socket.on('message', data => {
+        const message = parseMessage(data);
+        if (message) handleMessage(client, message);
+    });
+    socket.on('close', () => leave(client));
+    socket.on('error', e => console.error('Socket error:', e));
+});
+
+wss.on('listening', () => {
+    console.log(`Race server listening on ws://localhost:${PORT}`);
+});
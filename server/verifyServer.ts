@@ -0,0 +1,127 @@
+import http from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import { RunSubmission, verifySubmission } from '../engine/verify';
+import { getReplayMode } from '../engine/replay';
+
+// Local stand-in for the `verify-run` Supabase edge function.
+// Re-simulates each leaderboard submission and only writes verified runs.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run verify-server
+//
+// Without Supabase credentials it still verifies, it just doesn't store anything.
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROUTE = '/functions/v1/verify-run';
+const MAX_BODY_BYTES = 512 * 1024;
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+    console.warn('Supabase service credentials not found. Verified runs will not be stored.');
+}
+
+const supabase = supabaseUrl && serviceRoleKey
+    ? createClient(supabaseUrl, serviceRoleKey)
+    : null;
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) {
+            reject(new Error('Submission too large'));
+            req.destroy();
+        }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+});
+
+const handleSubmission = async (submission: RunSubmission) => {
+    const result = verifySubmission(submission);
+    if (result.accepted === false) {
+        console.log(`Rejected run from ${submission.name}: ${result.reason}`);
+        return result;
+    }
+
+    if (supabase) {
+        // A client that lost our response resubmits the same run; don't store it twice
+        const { data: existing } = await supabase
+            .from('leaderboard')
+            .select('id')
+            .eq('trail', submission.trail)
+            .eq('seed', submission.seed)
+            .eq('name', submission.name.trim())
+            .eq('time', result.time)
+            .limit(1);
+        if (existing && existing.length > 0) {
+            console.log(`Duplicate run from ${submission.name}, already stored`);
+            return result;
+        }
+
+        const { error } = await supabase
+            .from('leaderboard')
+            .insert({
+                name: submission.name.trim(),
+                time: result.time,
+                difficulty: submission.difficulty,
+                mode: getReplayMode(submission.replay),
+                distance: result.distance,
+                score: result.score,
+                trail: submission.trail,
+                seed: submission.seed,
+                replay: submission.replay
+            });
+
+        if (error) {
+            // Surfaces as a 500 so the client keeps the run queued and retries
+            throw new Error(`Run verified but could not be saved: ${error.message}`);
+        }
+    }
+
+    console.log(`Accepted run from ${submission.name}: ${(result.time / 1000).toFixed(2)}s`);
+    return result;
+};
+
+const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+        return;
+    }
+    if (req.method !== 'POST' || req.url !== ROUTE) {
+        send(res, 404, { accepted: false, reason: 'Not found' });
+        return;
+    }
+
+    let submission: RunSubmission;
+    try {
+        submission = JSON.parse(await readBody(req));
+    } catch (e) {
+        send(res, 400, { accepted: false, reason: 'Malformed submission' });
+        return;
+    }
+
+    try {
+        send(res, 200, await handleSubmission(submission));
+    } catch (e) {
+        console.error('Verification failed:', e);
+        send(res, 500, { accepted: false, reason: 'Verification service error' });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Run verifier listening on http://localhost:${PORT}${ROUTE}`);
+});
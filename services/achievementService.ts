@@ -0,0 +1,273 @@
+import { Difficulty, GameMode, SkierSkin } from "../types";
+import { SKIER_SKINS, DEFAULT_SKIN } from "../constants";
+import { SimEvent, SimState } from "../engine/simulation";
+import { getYetiGap } from "../engine/yeti";
+import { supabase, AchievementRow } from "../lib/supabase";
+import { isBuiltInTrail } from "../trails";
+import { DeathCategory, categorizeDeath, loadRunHistory } from "./historyService";
+
+// --- Achievements ---
+// Badges earned from what happens during runs. The game feeds every
+// simulation event to a run tracker and checks the badges as it goes, so
+// mid-run ones (top speed, a stumbling yeti) unlock on the spot. Some badges
+// unlock a skier colorway. Progress lives in localStorage and, when Supabase
+// is configured, is merged with the copy stored under the player's name.
+// Like the leaderboard, only the built-in trails count: a custom course can
+// be built to hand out any badge.
+
+const UNLOCKED_KEY = 'nileMileAchievements';
+const SKIN_KEY = 'nileMileSkin';
+
+// Finishing this far ahead of the yeti counts as outrunning it
+const OUTRUN_GAP = 500;
+const SPEED_DEMON_MPH = 55;
+const COMBO_KING_MULTIPLIER = 5;
+const POINT_SCORER_SCORE = 5000;
+const OBSTACLE_COURSE: DeathCategory[] = ['TREE', 'ROCK', 'STUMP'];
+
+// What's known about the run in progress
+export interface RunProgress {
+  trailId: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  outcome: 'running' | 'finished' | 'crashed';
+  crashCategory: DeathCategory | null;
+  topSpeed: number; // mph
+  touchedEdge: boolean;
+  landings: number;
+  yetiStumbles: number;
+  maxMultiplier: number;
+  score: number;
+  gatesMissed: number;
+  finishGap: number | null; // Yeti's distance behind at the finish, if it was awake
+  pastCrashes: Set<DeathCategory>; // Everything crashed into on earlier runs
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  skin?: string; // Id of the skier skin it unlocks
+  isEarned: (run: RunProgress) => boolean;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-finish',
+    name: "Trail's End",
+    description: 'Reach the lodge.',
+    isEarned: run => run.outcome === 'finished'
+  },
+  {
+    id: 'pro-finish',
+    name: 'Pro Racer',
+    description: 'Finish a PRO run.',
+    isEarned: run => run.outcome === 'finished' && run.difficulty === Difficulty.HARD
+  },
+  {
+    id: 'clean-line',
+    name: 'Clean Line',
+    description: 'Finish PRO without touching the edge of the trail.',
+    skin: 'inverted',
+    isEarned: run => run.outcome === 'finished' && run.difficulty === Difficulty.HARD && !run.touchedEdge
+  },
+  {
+    id: 'outrun-yeti',
+    name: 'Outran It',
+    description: `Finish with the Yeti ${OUTRUN_GAP}ft or more behind.`,
+    skin: 'yeti',
+    isEarned: run => run.outcome === 'finished' && run.finishGap !== null && run.finishGap >= OUTRUN_GAP
+  },
+  {
+    id: 'caught',
+    name: 'Snack',
+    description: 'Get caught by the Yeti.',
+    isEarned: run => run.crashCategory === 'YETI'
+  },
+  {
+    id: 'matador',
+    name: 'Matador',
+    description: 'Make the Yeti stumble.',
+    skin: 'ember',
+    isEarned: run => run.yetiStumbles > 0
+  },
+  {
+    id: 'speed-demon',
+    name: 'Speed Demon',
+    description: `Hit ${SPEED_DEMON_MPH} mph.`,
+    skin: 'forest',
+    isEarned: run => run.topSpeed >= SPEED_DEMON_MPH
+  },
+  {
+    id: 'obstacle-course',
+    name: 'Obstacle Course',
+    description: 'Crash into a tree, a rock and a stump (any runs).',
+    isEarned: run => OBSTACLE_COURSE.every(category => run.pastCrashes.has(category) || run.crashCategory === category)
+  },
+  {
+    id: 'big-air',
+    name: 'Big Air',
+    description: 'Land a jump.',
+    isEarned: run => run.landings > 0
+  },
+  {
+    id: 'combo-king',
+    name: 'Combo King',
+    description: `Build the combo up to x${COMBO_KING_MULTIPLIER}.`,
+    isEarned: run => run.maxMultiplier >= COMBO_KING_MULTIPLIER
+  },
+  {
+    id: 'point-scorer',
+    name: 'Point Scorer',
+    description: `Score ${POINT_SCORER_SCORE.toLocaleString()} points in one run.`,
+    isEarned: run => run.score >= POINT_SCORER_SCORE
+  },
+  {
+    id: 'gatekeeper',
+    name: 'Gatekeeper',
+    description: 'Finish a slalom run without missing a gate.',
+    skin: 'gold',
+    isEarned: run => run.outcome === 'finished' && run.mode === GameMode.SLALOM && run.gatesMissed === 0
+  }
+];
+
+// --- Run Tracking ---
+
+export const createRunProgress = (trailId: string, difficulty: Difficulty, mode: GameMode): RunProgress => ({
+  trailId,
+  difficulty,
+  mode,
+  outcome: 'running',
+  crashCategory: null,
+  topSpeed: 0,
+  touchedEdge: false,
+  landings: 0,
+  yetiStumbles: 0,
+  maxMultiplier: 1,
+  score: 0,
+  gatesMissed: 0,
+  finishGap: null,
+  pastCrashes: new Set(loadRunHistory()
+    .filter(run => run.causeOfDeath !== null && isBuiltInTrail(run.trailId))
+    .map(run => categorizeDeath(run.causeOfDeath!)))
+});
+
+export const trackRunEvent = (run: RunProgress, event: SimEvent, sim: SimState) => {
+  run.topSpeed = sim.topSpeed;
+  run.score = sim.score.total;
+  run.maxMultiplier = Math.max(run.maxMultiplier, sim.score.multiplier);
+  switch (event.type) {
+    case 'EDGE':
+      run.touchedEdge = true;
+      break;
+    case 'LAND':
+      run.landings++;
+      break;
+    case 'YETI_STUMBLE':
+      run.yetiStumbles++;
+      break;
+    case 'GATE':
+      if (event.gate.result === 'missed') run.gatesMissed++;
+      break;
+    case 'CRASH':
+      run.outcome = 'crashed';
+      run.crashCategory = categorizeDeath(event.cause);
+      break;
+    case 'FINISH':
+      run.outcome = 'finished';
+      run.finishGap = getYetiGap(sim.yeti, sim.player);
+      break;
+  }
+};
+
+// --- Unlocks ---
+
+// Achievement id -> ISO date it was unlocked
+export type UnlockedAchievements = Record<string, string>;
+
+export const loadUnlockedAchievements = (): UnlockedAchievements => {
+  const saved = localStorage.getItem(UNLOCKED_KEY);
+  if (!saved) return {};
+  try {
+    const parsed = JSON.parse(saved);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.error("Failed to load achievements");
+    return {};
+  }
+};
+
+const saveUnlockedAchievements = (unlocked: UnlockedAchievements) => {
+  localStorage.setItem(UNLOCKED_KEY, JSON.stringify(unlocked));
+};
+
+// Unlocks and returns every achievement the run has newly earned
+export const checkAchievements = (run: RunProgress): Achievement[] => {
+  if (!isBuiltInTrail(run.trailId)) return [];
+  const unlocked = loadUnlockedAchievements();
+  const earned = ACHIEVEMENTS.filter(a => !unlocked[a.id] && a.isEarned(run));
+  if (earned.length === 0) return [];
+  const date = new Date().toISOString();
+  earned.forEach(a => { unlocked[a.id] = date; });
+  saveUnlockedAchievements(unlocked);
+  return earned;
+};
+
+// --- Skier Skins ---
+
+export const getUnlockedSkins = (unlocked: UnlockedAchievements = loadUnlockedAchievements()): SkierSkin[] => {
+  const rewards = new Set(ACHIEVEMENTS.filter(a => a.skin && unlocked[a.id]).map(a => a.skin));
+  return SKIER_SKINS.filter(skin => skin === DEFAULT_SKIN || rewards.has(skin.id));
+};
+
+// Falls back to the classic colors if the saved skin is unknown or locked
+export const loadSelectedSkin = (): SkierSkin => {
+  const id = localStorage.getItem(SKIN_KEY);
+  return getUnlockedSkins().find(skin => skin.id === id) ?? DEFAULT_SKIN;
+};
+
+export const saveSelectedSkin = (skin: SkierSkin) => {
+  localStorage.setItem(SKIN_KEY, skin.id);
+};
+
+// --- Supabase Sync ---
+// Achievements are stored per player name, so the same name on another
+// browser brings its badges along. Without Supabase this is a no-op.
+
+export const syncAchievements = async (name: string): Promise<UnlockedAchievements> => {
+  const local = loadUnlockedAchievements();
+  const player = name.trim();
+  if (!supabase || !player) return local;
+
+  try {
+    const { data, error } = await supabase
+      .from('achievements')
+      .select('achievement, unlocked_at')
+      .eq('name', player);
+    if (error) throw error;
+    const rows = (data ?? []) as AchievementRow[];
+
+    const merged: UnlockedAchievements = { ...local };
+    for (const row of rows) {
+      if (!ACHIEVEMENTS.some(a => a.id === row.achievement)) continue;
+      // Keep whichever unlock came first
+      if (!merged[row.achievement] || row.unlocked_at < merged[row.achievement]) {
+        merged[row.achievement] = row.unlocked_at;
+      }
+    }
+    saveUnlockedAchievements(merged);
+
+    const remote = new Set(rows.map(row => row.achievement));
+    const missing = Object.keys(merged).filter(id => !remote.has(id));
+    if (missing.length > 0) {
+      const { error: upsertError } = await supabase
+        .from('achievements')
+        .upsert(missing.map((id): AchievementRow => ({ name: player, achievement: id, unlocked_at: merged[id] })), { onConflict: 'name,achievement' });
+      if (upsertError) throw upsertError;
+    }
+    return merged;
+  } catch (e) {
+    console.error("Failed to sync achievements", e);
+    return loadUnlockedAchievements();
+  }
+};
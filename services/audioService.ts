@@ -8,6 +8,7 @@ class AudioService {
 
     private isMuted: boolean = false;
     private isInitialized: boolean = false;
+    private isSuspended: boolean = false;
 
     private currentParts: Tone.Part[] = [];
     private currentLoop: Tone.Loop | null = null;
@@ -76,6 +77,26 @@ class AudioService {
         }
     }
 
+    // --- Pause ---
+
+    // Freezes the music mid-bar and silences anything still ringing
+    suspend() {
+        if (!this.isInitialized || this.isSuspended) return;
+        this.isSuspended = true;
+        Tone.Transport.pause();
+        (Tone.getContext().rawContext as AudioContext).suspend();
+    }
+
+    // Picks the music back up where suspend() left it
+    async resume() {
+        if (!this.isSuspended) return;
+        this.isSuspended = false;
+        await Tone.getContext().resume();
+        if (Tone.Transport.state === 'paused') {
+            Tone.Transport.start();
+        }
+    }
+
     // --- Music Themes ---
 
     playMenuTheme() {
@@ -249,6 +270,65 @@ class AudioService {
         Tone.Transport.start();
     }
 
+    // Sound effects play over whatever music is running
+    playJump() {
+        if (!this.isInitialized || this.isSuspended) return;
+        const now = Tone.now();
+        this.leadSynth?.triggerAttackRelease("C5", "32n", now);
+        this.leadSynth?.triggerAttackRelease("G5", "32n", now + 0.05);
+    }
+
+    playLand() {
+        if (!this.isInitialized || this.isSuspended) return;
+        this.drumSynth?.triggerAttackRelease("C1", "16n", Tone.now());
+    }
+
+    playGate() {
+        if (!this.isInitialized || this.isSuspended) return;
+        this.leadSynth?.triggerAttackRelease("E6", "32n", Tone.now());
+    }
+
+    playGateMiss() {
+        if (!this.isInitialized || this.isSuspended) return;
+        this.bassSynth?.triggerAttackRelease("C2", "16n", Tone.now());
+    }
+
+    // A skier going down in a split-screen race while the others ski on
+    playCrash() {
+        if (!this.isInitialized || this.isSuspended) return;
+        const now = Tone.now();
+        this.noiseSynth?.triggerAttackRelease("8n", now);
+        this.bassSynth?.triggerAttackRelease("D2", "8n", now);
+    }
+
+    // A skier reaching the lodge in a split-screen race while the others ski on
+    playFinishLine() {
+        if (!this.isInitialized || this.isSuspended) return;
+        const now = Tone.now();
+        this.leadSynth?.triggerAttackRelease("G5", "16n", now);
+        this.leadSynth?.triggerAttackRelease("C6", "8n", now + 0.1);
+    }
+
+    playAchievement() {
+        if (!this.isInitialized || this.isSuspended) return;
+        const now = Tone.now();
+        this.leadSynth?.triggerAttackRelease("C6", "32n", now);
+        this.leadSynth?.triggerAttackRelease("G6", "16n", now + 0.08);
+    }
+
+    playYetiRoar() {
+        if (!this.isInitialized || this.isSuspended) return;
+        const now = Tone.now();
+        this.bassSynth?.triggerAttackRelease("F#2", "8n", now);
+        this.noiseSynth?.triggerAttackRelease("8n", now);
+    }
+
+    // One heartbeat; the caller speeds these up as the yeti closes in
+    playYetiProximity() {
+        if (!this.isInitialized || this.isSuspended) return;
+        this.drumSynth?.triggerAttackRelease("A0", "32n", Tone.now());
+    }
+
     playVictory() {
         this.stopAll();
         if (!this.isInitialized) return;
@@ -0,0 +1,323 @@
+import { Difficulty, GameMode, GameStats } from "../types";
+import { STEP_MS } from "../engine/simulation";
+import { RunAnalysis, getWorstTurn, LATE_TURN_FT, WIDE_TURN_FT } from "../engine/analysis";
+
+// --- Chuck's Coaching ---
+// After every run Chuck reviews the telemetry from its replay. The notes are
+// worked out here; a coach provider turns them into Chuck's words. The canned
+// provider works offline, the others ask a language model and fall back to
+// it when the model is slow, down or says something unusable.
+
+export const CHUCKS_TIPS = [
+  "Trees are strictly stationary objects. Try avoiding them.",
+  "If you French fry when you should pizza, you're gonna have a bad time.",
+  "That wasn't skiing, that was falling with style.",
+  "The Yeti just wants a hug. A very fast, aggressive hug.",
+  "Gravity is a law, not a suggestion.",
+  "Keep your tips up and your ego down.",
+  "You're paying for the whole run, try to stay on your feet for it.",
+  "I've seen better carving at a Thanksgiving dinner.",
+  "Snow is cold. Try staying off of it.",
+  "Back in '91, we didn't have helmets... we just didn't hit things."
+];
+
+// Chuck's sign-off when a note about the crash calls for one
+const CRASH_QUIPS: { cause: string; quip: string }[] = [
+  { cause: 'yeti', quip: "The Yeti just wants a hug. A very fast, aggressive hug." },
+  { cause: 'tree', quip: "Trees are strictly stationary objects. Try avoiding them." }
+];
+
+// Most notes Chuck reads out after one run
+const MAX_NOTES = 2;
+
+// Below this share of the run at top speed there's time to be found, though
+// short runs are mostly the push out of the gate
+const SLOW_SHARE = 0.4;
+const SPEED_NOTE_MIN_MS = 20000;
+const FAST_SHARE = 0.8;
+const SCRUB_NOTE_MS = 1000;
+const YETI_CLOSE_FT = 150;
+
+const ordinal = (n: number) => {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+};
+
+// Distances down the trail, to the nearest hundred feet
+const feet = (distance: number) => `${(Math.round(distance / 100) * 100).toLocaleString()}ft`;
+
+// Specific observations from the run's telemetry, most important first
+export const getCoachNotes = (stats: GameStats, analysis: RunAnalysis): string[] => {
+  const notes: string[] = [];
+  const { crash, closestYeti, wobbles } = analysis;
+
+  if (crash) {
+    notes.push(`You went down at ${feet(crash.y)}, in section ${crash.section} of ${crash.sections}: ${crash.cause.toLowerCase()}.`);
+  }
+
+  const turn = getWorstTurn(analysis);
+  if (turn) {
+    const where = `the ${ordinal(turn.switchback.number)} turn at ${feet(turn.switchback.y)}`;
+    notes.push(turn.wideBy / WIDE_TURN_FT >= turn.lateBy / LATE_TURN_FT
+      ? `You carved too wide on ${where}, ${Math.round(turn.wideBy)}ft outside the line. Stay tight to the apex.`
+      : `You turned in late on ${where}, ${Math.round(turn.lateBy)}ft past the apex. Start the turn sooner.`);
+  }
+
+  if (wobbles.length > 1) {
+    notes.push(`Your skis wobbled ${wobbles.length} times, first at ${feet(wobbles[0])}. Pick a direction and commit.`);
+  } else if (wobbles.length === 1) {
+    notes.push(`Your skis wobbled at ${feet(wobbles[0])}. Pick a direction and commit.`);
+  }
+
+  if (analysis.scrubTime >= SCRUB_NOTE_MS && analysis.scrubY !== null) {
+    notes.push(`You spent ${(analysis.scrubTime / 1000).toFixed(1)}s with your skis across the slope, worst from ${feet(analysis.scrubY)}. That's braking, not turning.`);
+  }
+
+  if (closestYeti && closestYeti.gap < YETI_CLOSE_FT && !crash?.cause.toLowerCase().includes('yeti')) {
+    notes.push(`The yeti got within ${Math.round(closestYeti.gap)}ft of you at ${feet(closestYeti.y)}. Don't let it breathe on you.`);
+  }
+
+  const share = Math.round(analysis.topSpeedShare * 100);
+  if (analysis.ticks * STEP_MS < SPEED_NOTE_MIN_MS) {
+    // Too short to judge
+  } else if (analysis.topSpeedShare < SLOW_SHARE) {
+    notes.push(`You were only at top speed for ${share}% of the run. Straighten out and let them run.`);
+  } else if (stats.causeOfDeath === null && analysis.topSpeedShare >= FAST_SHARE) {
+    notes.push(`You held top speed for ${share}% of the run. That's how it's done.`);
+  }
+
+  return notes;
+};
+
+// Chuck's own words, no model needed
+const getCannedCommentary = (stats: GameStats, notes: string[]): string => {
+  if (notes.length === 0) {
+    return stats.causeOfDeath === null
+      ? "Clean lines all the way down. Now do it faster."
+      : CHUCKS_TIPS[Math.floor(Math.random() * CHUCKS_TIPS.length)];
+  }
+
+  const cause = stats.causeOfDeath?.toLowerCase() ?? '';
+  const quip = CRASH_QUIPS.find(q => cause.includes(q.cause))?.quip;
+  return [...notes, ...(quip ? [quip] : [])].join(' ');
+};
+
+// --- Run Summary Prompt ---
+
+export interface CoachPrompt {
+  system: string;
+  user: string;
+}
+
+// Which run is being reviewed
+export interface CoachRunContext {
+  trailName: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+}
+
+// Longest comment that fits the result screen
+export const MAX_COMMENT_CHARS = 240;
+
+const SYSTEM_PROMPT = [
+  "You are Chuck, a grizzled ski patroller at Camelback Resort who has seen it all since '91.",
+  "You coach players of a retro downhill skiing game where a yeti chases them down the trail.",
+  "Review the run you're given in one or two short sentences, under 200 characters.",
+  "Be dry and funny, but give one concrete piece of advice taken from the observations.",
+  "Plain text only: no quotes, emoji, lists or markdown."
+].join(' ');
+
+export const buildCoachPrompt = (stats: GameStats, notes: string[], run: CoachRunContext): CoachPrompt => {
+  const lines = [
+    `Trail: ${run.trailName} (${run.difficulty === Difficulty.HARD ? 'PRO' : 'EASY'}, ${run.mode})`,
+    stats.causeOfDeath === null
+      ? `Result: finished in ${((stats.time ?? 0) / 1000).toFixed(2)}s`
+      : `Result: went down at ${feet(stats.distance)}: ${stats.causeOfDeath.toLowerCase()}`,
+    `Top speed: ${Math.floor(stats.topSpeed)} mph. Score: ${stats.score.toLocaleString()}`
+  ];
+  if (stats.gatesCleared !== undefined) {
+    lines.push(`Gates: ${stats.gatesCleared} cleared, ${stats.gatesMissed ?? 0} missed`);
+  }
+  lines.push('Observations:', ...(notes.length > 0 ? notes.map(note => `- ${note}`) : ['- Nothing stood out.']));
+  return { system: SYSTEM_PROMPT, user: lines.join('\n') };
+};
+
+// --- Providers ---
+
+export type CoachProviderId = 'canned' | 'gemini' | 'openai';
+
+export interface CoachSettings {
+  provider: CoachProviderId;
+  gemini: { apiKey: string; model: string };
+  openai: { url: string; apiKey: string; model: string }; // url is the API base, up to /v1
+}
+
+export interface CoachRequest {
+  stats: GameStats;
+  notes: string[];
+  prompt: CoachPrompt;
+}
+
+export interface CoachProvider {
+  label: string;
+  comment: (request: CoachRequest, settings: CoachSettings, signal: AbortSignal) => Promise<string>;
+}
+
+// Keeps replies short at the source; the length guard catches the rest
+const MAX_OUTPUT_TOKENS = 120;
+const TEMPERATURE = 0.9;
+
+const postJson = async (url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (e) {
+    if (signal.aborted) throw e;
+    throw new Error(`Could not reach ${url}`);
+  }
+  if (!response.ok) throw new Error(`Coach provider error (${response.status})`);
+  return response.json();
+};
+
+export const COACH_PROVIDERS: Record<CoachProviderId, CoachProvider> = {
+  canned: {
+    label: 'OFFLINE',
+    comment: async ({ stats, notes }) => getCannedCommentary(stats, notes)
+  },
+
+  gemini: {
+    label: 'GEMINI',
+    comment: async ({ prompt }, { gemini }, signal) => {
+      if (!gemini.apiKey) throw new Error('No Gemini API key');
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(gemini.model)}:generateContent`;
+      const result = await postJson(url, { 'x-goog-api-key': gemini.apiKey }, {
+        systemInstruction: { parts: [{ text: prompt.system }] },
+        contents: [{ role: 'user', parts: [{ text: prompt.user }] }],
+        generationConfig: { maxOutputTokens: MAX_OUTPUT_TOKENS, temperature: TEMPERATURE }
+      }, signal);
+      const parts: { text?: string }[] = result?.candidates?.[0]?.content?.parts ?? [];
+      return parts.map(part => part.text ?? '').join('');
+    }
+  },
+
+  // Anything speaking the chat completions API: hosted services, llama.cpp,
+  // Ollama, LM Studio, or `npm run coach-server`
+  openai: {
+    label: 'OPENAI-COMPATIBLE',
+    comment: async ({ prompt }, { openai }, signal) => {
+      if (!openai.url) throw new Error('No endpoint URL');
+      const url = `${openai.url.replace(/\/+$/, '')}/chat/completions`;
+      const result = await postJson(url, openai.apiKey ? { Authorization: `Bearer ${openai.apiKey}` } : {}, {
+        model: openai.model,
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user }
+        ],
+        max_tokens: MAX_OUTPUT_TOKENS,
+        temperature: TEMPERATURE
+      }, signal);
+      const content = result?.choices?.[0]?.message?.content;
+      return typeof content === 'string' ? content : '';
+    }
+  }
+};
+
+// --- Settings ---
+
+const STORAGE_KEY = 'nileMileCoach';
+
+// Where `npm run coach-server` listens
+export const DEFAULT_COACH_PORT = 8789;
+
+export const DEFAULT_COACH_SETTINGS: CoachSettings = {
+  provider: 'canned',
+  gemini: { apiKey: '', model: 'gemini-2.5-flash' },
+  openai: { url: `http://localhost:${DEFAULT_COACH_PORT}/v1`, apiKey: '', model: 'chuck' }
+};
+
+// Keys only come from what the player enters, so none are built into the bundle
+export const loadCoachSettings = (): CoachSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<CoachSettings> | null;
+    if (!saved) return DEFAULT_COACH_SETTINGS;
+    return {
+      provider: saved.provider && saved.provider in COACH_PROVIDERS ? saved.provider : DEFAULT_COACH_SETTINGS.provider,
+      gemini: { ...DEFAULT_COACH_SETTINGS.gemini, ...saved.gemini },
+      openai: { ...DEFAULT_COACH_SETTINGS.openai, ...saved.openai }
+    };
+  } catch (e) {
+    console.error("Failed to load coach settings");
+    return DEFAULT_COACH_SETTINGS;
+  }
+};
+
+export const saveCoachSettings = (settings: CoachSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// --- Asking the Coach ---
+
+export const COACH_TIMEOUT_MS = 8000;
+
+// Collapses whitespace, drops wrapping quotes and cuts anything too long at
+// the last sentence that fits, or failing that the last word
+export const guardCommentLength = (text: string): string => {
+  const clean = text.replace(/\s+/g, ' ').trim().replace(/^["'\u201c]+|["'\u201d]+$/g, '').trim();
+  if (clean.length <= MAX_COMMENT_CHARS) return clean;
+
+  const sentences = clean.slice(0, MAX_COMMENT_CHARS + 1).match(/^.*[.!?](?=\s)/);
+  if (sentences && sentences[0].length >= MAX_COMMENT_CHARS / 2) return sentences[0];
+  const cut = clean.slice(0, MAX_COMMENT_CHARS - 3);
+  const words = cut.lastIndexOf(' ') > 0 ? cut.slice(0, cut.lastIndexOf(' ')) : cut;
+  return `${words.replace(/[.,;:!?]+$/, '')}...`;
+};
+
+// One provider call under the timeout and length guard. Throws if the
+// provider fails, takes too long or has nothing to say.
+const requestComment = async (settings: CoachSettings, request: CoachRequest): Promise<string> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), COACH_TIMEOUT_MS);
+  try {
+    const comment = guardCommentLength(await COACH_PROVIDERS[settings.provider].comment(request, settings, controller.signal));
+    if (!comment) throw new Error('Coach provider sent an empty reply');
+    return comment;
+  } catch (e) {
+    if (controller.signal.aborted) throw new Error(`No reply within ${COACH_TIMEOUT_MS / 1000}s`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const getSkiCoachCommentary = async (stats: GameStats, analysis: RunAnalysis, run: CoachRunContext): Promise<string> => {
+  const notes = getCoachNotes(stats, analysis).slice(0, MAX_NOTES);
+  const request: CoachRequest = { stats, notes, prompt: buildCoachPrompt(stats, notes, run) };
+  const settings = loadCoachSettings();
+  try {
+    return await requestComment(settings, request);
+  } catch (e) {
+    console.error('Coach provider failed, falling back to canned tips:', e);
+    return getCannedCommentary(stats, notes);
+  }
+};
+
+// A made-up run for checking a provider from the settings screen. Unlike a
+// real review, failures are thrown for the screen to show.
+const SAMPLE_STATS: GameStats = { score: 4200, distance: 7400, topSpeed: 11, causeOfDeath: 'Hit a tree', time: 61000 };
+const SAMPLE_NOTES = [
+  'You went down at 7,400ft, in section 2 of 4: hit a tree.',
+  'You turned in late on the 4th turn at 7,000ft, 320ft past the apex. Start the turn sooner.'
+];
+
+export const testCoachProvider = (settings: CoachSettings): Promise<string> =>
+  requestComment(settings, {
+    stats: SAMPLE_STATS,
+    notes: SAMPLE_NOTES,
+    prompt: buildCoachPrompt(SAMPLE_STATS, SAMPLE_NOTES, { trailName: 'Nile Mile', difficulty: Difficulty.HARD, mode: GameMode.FREERIDE })
+  });
@@ -0,0 +1,255 @@
+import { Difficulty, GameMode, GameStats } from "../types";
+import { PackedTelemetry } from "../engine/telemetry";
+
+// --- Run History ---
+// Every finished or crashed run, kept in localStorage for the STATS screen.
+// Export and import as JSON let the history outlive a browser reset. The
+// newest runs also keep their tick-by-tick telemetry for the ANALYSIS screen.
+
+const HISTORY_KEY = 'nileMileRunHistory';
+const MAX_RUNS = 2000;
+// Telemetry runs to tens of kilobytes a run, so only the newest runs keep
+// theirs, up to this many characters between them
+const TELEMETRY_BUDGET_CHARS = 500000;
+const EXPORT_VERSION = 1;
+
+export interface RunRecord {
+  id: string;
+  date: string; // ISO timestamp
+  trailId: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  finished: boolean;
+  time: number; // ms, penalties included
+  distance: number;
+  topSpeed: number; // mph
+  score: number;
+  causeOfDeath: string | null;
+  telemetry?: PackedTelemetry; // Only on the newest runs
+}
+
+interface HistoryExport {
+  version: number;
+  runs: RunRecord[];
+}
+
+const isPackedTelemetry = (data: unknown): data is PackedTelemetry => {
+  if (!data || typeof data !== 'object') return false;
+  const t = data as Partial<PackedTelemetry>;
+  return typeof t.version === 'number' && typeof t.ticks === 'number' && typeof t.data === 'string';
+};
+
+const isRunRecord = (data: unknown): data is RunRecord => {
+  if (!data || typeof data !== 'object') return false;
+  const r = data as Partial<RunRecord>;
+  return typeof r.id === 'string'
+    && typeof r.date === 'string' && !Number.isNaN(Date.parse(r.date))
+    && typeof r.trailId === 'string'
+    && (r.difficulty === Difficulty.EASY || r.difficulty === Difficulty.HARD)
+    && (r.mode === GameMode.FREERIDE || r.mode === GameMode.SLALOM)
+    && typeof r.finished === 'boolean'
+    && typeof r.time === 'number'
+    && typeof r.distance === 'number'
+    && typeof r.topSpeed === 'number'
+    && typeof r.score === 'number'
+    && (r.causeOfDeath === null || typeof r.causeOfDeath === 'string')
+    && (r.telemetry === undefined || isPackedTelemetry(r.telemetry));
+};
+
+// Oldest first
+export const loadRunHistory = (): RunRecord[] => {
+  const saved = localStorage.getItem(HISTORY_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isRunRecord) : [];
+  } catch (e) {
+    console.error("Failed to load run history");
+    return [];
+  }
+};
+
+const withoutTelemetry = ({ telemetry, ...rest }: RunRecord): RunRecord => rest;
+
+// Keeps telemetry on the newest runs until the budget runs out
+const trimTelemetry = (runs: RunRecord[]): RunRecord[] => {
+  let used = 0;
+  return [...runs].reverse().map(run => {
+    if (!run.telemetry) return run;
+    used += run.telemetry.data.length;
+    return used <= TELEMETRY_BUDGET_CHARS ? run : withoutTelemetry(run);
+  }).reverse();
+};
+
+// If storage is still full, telemetry goes oldest first until the runs fit.
+// Throws only if they don't fit even without any.
+const saveRunHistory = (runs: RunRecord[]): RunRecord[] => {
+  const sorted = [...runs].sort((a, b) => Date.parse(a.date) - Date.parse(b.date)).slice(-MAX_RUNS);
+  let kept = trimTelemetry(sorted);
+  for (;;) {
+    try {
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(kept));
+      return kept;
+    } catch (e) {
+      const oldest = kept.findIndex(run => run.telemetry);
+      if (oldest === -1) throw new Error('Not enough room in this browser to save the run history');
+      kept = kept.map((run, i) => (i === oldest ? withoutTelemetry(run) : run));
+    }
+  }
+};
+
+export const recordRun = (run: {
+  trailId: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  stats: GameStats;
+  telemetry?: PackedTelemetry;
+}): RunRecord => {
+  const date = new Date().toISOString();
+  const record: RunRecord = {
+    id: `${date}-${run.trailId}`,
+    date,
+    trailId: run.trailId,
+    difficulty: run.difficulty,
+    mode: run.mode,
+    finished: run.stats.causeOfDeath === null,
+    time: run.stats.time ?? 0,
+    distance: Math.floor(run.stats.distance),
+    topSpeed: Math.floor(run.stats.topSpeed),
+    score: run.stats.score,
+    causeOfDeath: run.stats.causeOfDeath,
+    ...(run.telemetry ? { telemetry: run.telemetry } : {})
+  };
+  // Losing the history is no reason to break the end of a run
+  try {
+    saveRunHistory([...loadRunHistory(), record]);
+  } catch (e) {
+    console.error("Failed to save run history:", e);
+  }
+  return record;
+};
+
+// --- Export / Import ---
+
+export const downloadRunHistory = (runs: RunRecord[]) => {
+  const data: HistoryExport = { version: EXPORT_VERSION, runs };
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `nile-mile-history-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Merges an exported history into this browser's; runs already here are skipped.
+// Rejects with a readable reason if the file isn't a history export.
+export const importRunHistory = async (file: File): Promise<{ runs: RunRecord[]; added: number }> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error('History file is not valid JSON');
+  }
+  const exported = data as Partial<HistoryExport>;
+  if (!data || typeof data !== 'object' || exported.version !== EXPORT_VERSION || !Array.isArray(exported.runs)) {
+    throw new Error('Not a run history export');
+  }
+  if (!exported.runs.every(isRunRecord)) throw new Error('Run history file is corrupt');
+
+  const current = loadRunHistory();
+  const known = new Set(current.map(run => run.id));
+  const added = exported.runs.filter(run => !known.has(run.id));
+  return { runs: saveRunHistory([...current, ...added]), added: added.length };
+};
+
+// --- Career Statistics ---
+
+export type DeathCategory = 'TREE' | 'ROCK' | 'STUMP' | 'YETI' | 'LANDING' | 'DISQUALIFIED' | 'OTHER';
+
+export const DEATH_LABELS: Record<DeathCategory, string> = {
+  TREE: 'Trees',
+  ROCK: 'Rocks',
+  STUMP: 'Stumps',
+  YETI: 'The Yeti',
+  LANDING: 'Bad landings',
+  DISQUALIFIED: 'Missed gates',
+  OTHER: 'Other'
+};
+
+// Causes are the simulation's crash messages ("Hit a tree", "Caught by the Yeti", ...)
+export const categorizeDeath = (cause: string): DeathCategory => {
+  const text = cause.toLowerCase();
+  if (text.includes('yeti')) return 'YETI';
+  if (text.includes('tree')) return 'TREE';
+  if (text.includes('rock')) return 'ROCK';
+  if (text.includes('stump')) return 'STUMP';
+  if (text.includes('landed')) return 'LANDING';
+  if (text.includes('gate')) return 'DISQUALIFIED';
+  return 'OTHER';
+};
+
+export interface CareerStats {
+  runs: number;
+  finishes: number;
+  finishRate: number; // 0..1
+  totalDistance: number; // ft
+  totalTime: number; // ms on the snow
+  topSpeed: number;
+  bestScore: number;
+  deaths: Partial<Record<DeathCategory, number>>;
+  mostCommonDeath: DeathCategory | null;
+}
+
+export const getCareerStats = (runs: RunRecord[]): CareerStats => {
+  const deaths: Partial<Record<DeathCategory, number>> = {};
+  for (const run of runs) {
+    if (run.causeOfDeath) {
+      const category = categorizeDeath(run.causeOfDeath);
+      deaths[category] = (deaths[category] ?? 0) + 1;
+    }
+  }
+  const mostCommonDeath = (Object.keys(deaths) as DeathCategory[])
+    .sort((a, b) => deaths[b]! - deaths[a]!)[0] ?? null;
+  const finishes = runs.filter(run => run.finished).length;
+
+  return {
+    runs: runs.length,
+    finishes,
+    finishRate: runs.length > 0 ? finishes / runs.length : 0,
+    totalDistance: runs.reduce((sum, run) => sum + run.distance, 0),
+    totalTime: runs.reduce((sum, run) => sum + run.time, 0),
+    topSpeed: runs.reduce((best, run) => Math.max(best, run.topSpeed), 0),
+    bestScore: runs.reduce((best, run) => Math.max(best, run.score), 0),
+    deaths,
+    mostCommonDeath
+  };
+};
+
+export interface ProgressionPoint {
+  date: string;
+  time: number; // This run's time
+  best: number; // Best time up to and including this run
+}
+
+// Finished runs in the order they were skied, with the best time so far
+export const getBestTimeProgression = (runs: RunRecord[]): ProgressionPoint[] => {
+  let best = Infinity;
+  return runs
+    .filter(run => run.finished)
+    .map(run => {
+      best = Math.min(best, run.time);
+      return { date: run.date, time: run.time, best };
+    });
+};
+
+// Crash counts per distance bucket, from the top of the trail to its length
+export const getCrashHistogram = (runs: RunRecord[], trailLength: number, buckets: number): number[] => {
+  const counts = new Array(buckets).fill(0);
+  const bucketSize = trailLength / buckets;
+  for (const run of runs) {
+    if (run.finished) continue;
+    counts[Math.min(buckets - 1, Math.max(0, Math.floor(run.distance / bucketSize)))]++;
+  }
+  return counts;
+};
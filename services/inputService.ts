@@ -0,0 +1,245 @@
+import { InputSnapshot, quantizeSteer } from '../engine/simulation';
+
+// --- Input Layer ---
+// Merges keyboard, touch and gamepad into one InputSnapshot per tick, and
+// turns START / PAUSE presses from any device into actions for the menus.
+
+export type InputAction = 'LEFT' | 'RIGHT' | 'DOWN' | 'START' | 'PAUSE';
+
+export const INPUT_ACTIONS: InputAction[] = ['LEFT', 'RIGHT', 'DOWN', 'START', 'PAUSE'];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+    LEFT: 'Steer left',
+    RIGHT: 'Steer right',
+    DOWN: 'Tuck',
+    START: 'Start / Confirm',
+    PAUSE: 'Pause / Back'
+};
+
+// Split screen shares the keyboard, so each player skis with their own keys
+export type SeatAction = 'LEFT' | 'RIGHT' | 'DOWN';
+
+export const SEAT_ACTIONS: SeatAction[] = ['LEFT', 'RIGHT', 'DOWN'];
+
+export interface ControlBindings {
+    keyboard: Record<InputAction, string[]>; // KeyboardEvent.key values, letters lowercase
+    gamepad: Record<InputAction, number[]>; // Standard gamepad mapping button indices
+    seats: Record<SeatAction, string[]>[]; // Split-screen keys, one set per player
+    deadzone: number; // Stick travel ignored around center, 0-1
+}
+
+export const DEFAULT_BINDINGS: ControlBindings = {
+    keyboard: {
+        LEFT: ['ArrowLeft', 'a'],
+        RIGHT: ['ArrowRight', 'd'],
+        DOWN: ['ArrowDown', 's'],
+        START: ['Enter'],
+        PAUSE: ['Escape', 'p']
+    },
+    gamepad: {
+        LEFT: [14],
+        RIGHT: [15],
+        DOWN: [13, 7],
+        START: [0],
+        PAUSE: [9, 1]
+    },
+    seats: [
+        { LEFT: ['a'], RIGHT: ['d'], DOWN: ['s'] },
+        { LEFT: ['ArrowLeft'], RIGHT: ['ArrowRight'], DOWN: ['ArrowDown'] }
+    ],
+    deadzone: 0.15
+};
+
+const STORAGE_KEY = 'nileMileControls';
+
+// Names for the standard mapping (https://w3c.github.io/gamepad/#remapping)
+const GAMEPAD_BUTTON_NAMES = [
+    'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', 'D-Up', 'D-Down', 'D-Left', 'D-Right', 'Home'
+];
+
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+export const describeKey = (key: string) => {
+    if (key === ' ') return 'Space';
+    if (key.length === 1) return key.toUpperCase();
+    return key.replace('Arrow', '');
+};
+
+export const describeButton = (index: number) => GAMEPAD_BUTTON_NAMES[index] ?? `Button ${index}`;
+
+const loadBindings = (): ControlBindings => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_BINDINGS;
+    try {
+        const parsed = JSON.parse(saved) as Partial<ControlBindings>;
+        // Merge over the defaults so actions added later still get bound
+        return {
+            keyboard: { ...DEFAULT_BINDINGS.keyboard, ...parsed.keyboard },
+            gamepad: { ...DEFAULT_BINDINGS.gamepad, ...parsed.gamepad },
+            seats: DEFAULT_BINDINGS.seats.map((keys, seat) => ({ ...keys, ...parsed.seats?.[seat] })),
+            deadzone: typeof parsed.deadzone === 'number' ? parsed.deadzone : DEFAULT_BINDINGS.deadzone
+        };
+    } catch (e) {
+        console.error("Failed to load control bindings");
+        return DEFAULT_BINDINGS;
+    }
+};
+
+const isEditable = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+type ActionListener = (action: InputAction) => void;
+
+class InputService {
+    private bindings: ControlBindings = loadBindings();
+    private heldKeys = new Set<string>();
+    private touch = { left: false, right: false };
+    private previousButtons: boolean[] = [];
+    private listeners = new Set<ActionListener>();
+    private pollHandle: number | null = null;
+    private isCapturing: boolean = false;
+
+    getBindings() {
+        return this.bindings;
+    }
+
+    setBindings(bindings: ControlBindings) {
+        this.bindings = bindings;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+    }
+
+    resetBindings() {
+        this.setBindings(DEFAULT_BINDINGS);
+        return this.bindings;
+    }
+
+    // While the settings screen waits for a key or button to bind, nothing else fires
+    setCapturing(capturing: boolean) {
+        this.isCapturing = capturing;
+    }
+
+    setTouch(direction: 'left' | 'right', held: boolean) {
+        this.touch[direction] = held;
+    }
+
+    // --- Action Listeners ---
+    // Listening starts with the first subscriber and stops with the last
+
+    subscribe(listener: ActionListener) {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) this.start();
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) this.stop();
+        };
+    }
+
+    private emit(action: InputAction) {
+        if (this.isCapturing) return;
+        this.listeners.forEach(listener => listener(action));
+    }
+
+    private handleKeyDown = (e: KeyboardEvent) => {
+        const key = normalizeKey(e.key);
+        this.heldKeys.add(key);
+        if (e.repeat || isEditable(e.target)) return;
+        for (const action of ['START', 'PAUSE'] as InputAction[]) {
+            if (this.bindings.keyboard[action].includes(key)) this.emit(action);
+        }
+    };
+
+    private handleKeyUp = (e: KeyboardEvent) => {
+        this.heldKeys.delete(normalizeKey(e.key));
+    };
+
+    // Keys released while the window is unfocused never send keyup
+    private handleBlur = () => {
+        this.heldKeys.clear();
+    };
+
+    private poll = () => {
+        const buttons = this.readGamepadButtons() ?? [];
+        for (const action of ['START', 'PAUSE'] as InputAction[]) {
+            if (this.bindings.gamepad[action].some(i => buttons[i] && !this.previousButtons[i])) this.emit(action);
+        }
+        this.previousButtons = buttons;
+        this.pollHandle = requestAnimationFrame(this.poll);
+    };
+
+    private start() {
+        window.addEventListener('keydown', this.handleKeyDown);
+        window.addEventListener('keyup', this.handleKeyUp);
+        window.addEventListener('blur', this.handleBlur);
+        this.pollHandle = requestAnimationFrame(this.poll);
+    }
+
+    private stop() {
+        window.removeEventListener('keydown', this.handleKeyDown);
+        window.removeEventListener('keyup', this.handleKeyUp);
+        window.removeEventListener('blur', this.handleBlur);
+        if (this.pollHandle !== null) cancelAnimationFrame(this.pollHandle);
+        this.pollHandle = null;
+    }
+
+    // --- Gamepad ---
+
+    getGamepad(): Gamepad | null {
+        return this.getGamepads()[0] ?? null;
+    }
+
+    // Connected pads in the order they were plugged in
+    getGamepads(): Gamepad[] {
+        if (!navigator.getGamepads) return [];
+        return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+    }
+
+    readGamepadButtons(): boolean[] | null {
+        const pad = this.getGamepad();
+        return pad ? pad.buttons.map(button => button.pressed) : null;
+    }
+
+    // Left stick x with the deadzone cut out and the rest rescaled to -1..1
+    private readSteer(pad: Gamepad | null): number {
+        const x = pad?.axes[0] ?? 0;
+        const { deadzone } = this.bindings;
+        if (Math.abs(x) <= deadzone) return 0;
+        return quantizeSteer(Math.sign(x) * (Math.abs(x) - deadzone) / (1 - deadzone));
+    }
+
+    // --- Per-Tick Snapshot ---
+
+    getSnapshot(): InputSnapshot {
+        const pad = this.getGamepad();
+        const held = (action: InputAction) =>
+            this.bindings.keyboard[action].some(key => this.heldKeys.has(key))
+            || (pad !== null && this.bindings.gamepad[action].some(i => pad.buttons[i]?.pressed));
+
+        const steer = this.readSteer(pad);
+        return {
+            left: held('LEFT') || this.touch.left,
+            right: held('RIGHT') || this.touch.right,
+            down: held('DOWN'),
+            ...(steer ? { steer } : {})
+        };
+    }
+
+    // One split-screen player's input: their own keys and their
+    // own gamepad (the first connected pad is player 1's)
+    getSeatSnapshot(seat: number): InputSnapshot {
+        const pad = this.getGamepads()[seat] ?? null;
+        const keys = this.bindings.seats[seat];
+        const held = (action: SeatAction) =>
+            (keys !== undefined && keys[action].some(key => this.heldKeys.has(key)))
+            || (pad !== null && this.bindings.gamepad[action].some(i => pad.buttons[i]?.pressed));
+
+        const steer = this.readSteer(pad);
+        return {
+            left: held('LEFT'),
+            right: held('RIGHT'),
+            down: held('DOWN'),
+            ...(steer ? { steer } : {})
+        };
+    }
+}
+
+export const inputService = new InputService();
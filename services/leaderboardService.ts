@@ -0,0 +1,395 @@
+import { Difficulty, GameMode, LeaderboardEntry, SyncStatus } from "../types";
+import { supabase, LeaderboardEntry as LeaderboardRow } from "../lib/supabase";
+import { RunSubmission } from "../engine/verify";
+import { getReplayMode } from "../engine/replay";
+import { DEFAULT_TRAIL, getTrail } from "../trails";
+import { submitRun, VerificationUnavailableError } from "./verificationService";
+
+// --- Leaderboard Service ---
+// One entry point for reading and submitting runs. Storage sits behind a
+// repository (Supabase when configured, localStorage otherwise), and runs that
+// can't be verified right now wait in a local queue until the next sync.
+
+// fastest: finished runs by time; furthest: crashed runs by distance reached;
+// score: every scored run, finished or not, by points. Those three are
+// freeride only; slalom: finished slalom runs by time, penalties included
+export type BoardKind = 'fastest' | 'furthest' | 'score' | 'slalom';
+export type TimeWindow = 'today' | 'week' | 'all';
+
+export interface LeaderboardQuery {
+  trailId: string;
+  difficulty: Difficulty;
+  board: BoardKind;
+  window: TimeWindow;
+  offset: number;
+  limit: number;
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  total: number; // Matching stored entries across all pages
+}
+
+export interface RankedEntry {
+  rank: number; // 1-based
+  entry: LeaderboardEntry;
+}
+
+export interface LeaderboardRepository {
+  list(query: LeaderboardQuery): Promise<LeaderboardPage>;
+  // The named player's best entry on the board and where it ranks
+  findRank(query: LeaderboardQuery, name: string): Promise<RankedEntry | null>;
+  // Verifies and stores the run. Throws VerificationUnavailableError if that can't happen now.
+  submit(submission: RunSubmission): Promise<SubmitResult>;
+}
+
+export type SubmitResult =
+  | { status: 'accepted'; entry: LeaderboardEntry }
+  | { status: 'rejected'; reason: string }
+  | { status: 'queued'; entry: LeaderboardEntry };
+
+const LOCAL_BOARD_KEY = 'nileMileLeaderboard';
+const QUEUE_KEY = 'nileMileLeaderboardQueue';
+const PLAYER_NAME_KEY = 'nileMilePlayerName';
+const LOCAL_ENTRIES_PER_BOARD = 100;
+
+// A run is identified by its course and when it was skied, so resubmitting
+// the same replay never produces a second entry
+const runId = (submission: RunSubmission) => `${submission.trail}/${submission.seed}/${submission.replay.date}`;
+
+const rowId = (row: LeaderboardRow) => (row.replay ? `${row.trail}/${row.seed}/${row.replay.date}` : String(row.id));
+
+const toSubmittedEntry = (
+  submission: RunSubmission, time: number, distance: number, score: number | undefined, status: SyncStatus
+): LeaderboardEntry => ({
+  id: runId(submission),
+  name: submission.name.trim().substring(0, 10),
+  time,
+  date: new Date(submission.replay.date).toLocaleDateString(),
+  createdAt: submission.replay.date,
+  difficulty: submission.difficulty,
+  mode: getReplayMode(submission.replay),
+  distance,
+  score,
+  trail: submission.trail,
+  seed: submission.seed,
+  replay: submission.replay,
+  syncStatus: status
+});
+
+// --- Board Rules ---
+
+const trailLength = (trailId: string) => (getTrail(trailId) ?? DEFAULT_TRAIL).length;
+
+// Rows from before distances were stored only ever held finished runs
+const raceBoardOf = (entry: LeaderboardEntry, length: number): BoardKind =>
+  entry.distance === undefined || entry.distance === null || entry.distance >= length ? 'fastest' : 'furthest';
+
+const hasScore = (entry: LeaderboardEntry) => entry.score !== undefined && entry.score !== null;
+
+const isSlalom = (entry: LeaderboardEntry) => entry.mode === GameMode.SLALOM;
+
+// Every freeride run races on one board and scored ones also go on the score
+// board. Slalom runs only rank once they reach the finish.
+const boardsOf = (entry: LeaderboardEntry, length: number): BoardKind[] => {
+  if (isSlalom(entry)) return raceBoardOf(entry, length) === 'fastest' ? ['slalom'] : [];
+  return hasScore(entry) ? [raceBoardOf(entry, length), 'score'] : [raceBoardOf(entry, length)];
+};
+
+const isTimedBoard = (board: BoardKind) => board === 'fastest' || board === 'slalom';
+
+const compareEntries = (board: BoardKind) => (a: LeaderboardEntry, b: LeaderboardEntry) => {
+  if (isTimedBoard(board)) return a.time - b.time;
+  if (board === 'furthest') return (b.distance ?? 0) - (a.distance ?? 0) || a.time - b.time;
+  return (b.score ?? 0) - (a.score ?? 0) || a.time - b.time;
+};
+
+const windowStart = (window: TimeWindow): Date | null => {
+  if (window === 'all') return null;
+  const start = new Date();
+  if (window === 'today') start.setHours(0, 0, 0, 0);
+  else start.setDate(start.getDate() - 7);
+  return start;
+};
+
+// Legacy local rows have only a display date; they count toward All Time only
+const entryTimestamp = (entry: LeaderboardEntry): number =>
+  Date.parse(entry.createdAt ?? entry.replay?.date ?? '') || 0;
+
+const matchesQuery = (entry: LeaderboardEntry, query: LeaderboardQuery): boolean => {
+  const since = windowStart(query.window);
+  return entryTrailId(entry) === query.trailId
+    && (entry.difficulty ?? Difficulty.HARD) === query.difficulty
+    && boardsOf(entry, trailLength(query.trailId)).includes(query.board)
+    && (since === null || entryTimestamp(entry) >= since.getTime());
+};
+
+// Rows saved before trails existed were all on the Nile Mile
+const entryTrailId = (entry: LeaderboardEntry) => entry.trail ?? DEFAULT_TRAIL.id;
+
+// --- Supabase Repository ---
+// Inserts happen server-side in the verify-run function, never from the client
+
+const supabaseRepository = (client: NonNullable<typeof supabase>): LeaderboardRepository => {
+  const toEntry = (row: LeaderboardRow): LeaderboardEntry => ({
+    id: rowId(row),
+    name: row.name,
+    time: row.time,
+    date: new Date(row.created_at!).toLocaleDateString(),
+    createdAt: row.created_at,
+    difficulty: row.difficulty,
+    mode: row.mode,
+    distance: row.distance ?? undefined,
+    score: row.score ?? undefined,
+    trail: row.trail,
+    seed: row.seed ?? undefined,
+    replay: row.replay ?? undefined,
+    syncStatus: 'synced'
+  });
+
+  // Shared filters for a board; `head` queries only count rows
+  const select = (query: LeaderboardQuery, head = false) => {
+    const length = trailLength(query.trailId);
+    let q = client
+      .from('leaderboard')
+      .select('*', { count: 'exact', head })
+      .eq('trail', query.trailId)
+      .eq('difficulty', query.difficulty)
+      .eq('mode', query.board === 'slalom' ? GameMode.SLALOM : GameMode.FREERIDE);
+    const since = windowStart(query.window);
+    if (since) q = q.gte('created_at', since.toISOString());
+    // The verifier only stores finished slalom runs
+    if (query.board === 'slalom') return q;
+    if (query.board === 'fastest') return q.or(`distance.is.null,distance.gte.${length}`);
+    if (query.board === 'furthest') return q.lt('distance', length);
+    return q.not('score', 'is', null);
+  };
+
+  const ordered = (query: LeaderboardQuery) => {
+    if (isTimedBoard(query.board)) return select(query).order('time', { ascending: true });
+    const key = query.board === 'furthest' ? 'distance' : 'score';
+    return select(query).order(key, { ascending: false }).order('time', { ascending: true });
+  };
+
+  return {
+    async list(query) {
+      const { data, error, count } = await ordered(query).range(query.offset, query.offset + query.limit - 1);
+      if (error) throw new Error(`Error loading leaderboard: ${error.message}`);
+      return { entries: (data as LeaderboardRow[] ?? []).map(toEntry), total: count ?? 0 };
+    },
+
+    async findRank(query, name) {
+      const { data, error } = await ordered(query).eq('name', name).limit(1);
+      if (error) throw new Error(`Error finding rank: ${error.message}`);
+      const best = (data as LeaderboardRow[] ?? [])[0];
+      if (!best) return null;
+
+      const key = query.board === 'furthest' ? 'distance' : 'score';
+      const better = isTimedBoard(query.board)
+        ? select(query, true).lt('time', best.time)
+        : select(query, true).or(`${key}.gt.${best[key]},and(${key}.eq.${best[key]},time.lt.${best.time})`);
+      const { count, error: countError } = await better;
+      if (countError) throw new Error(`Error finding rank: ${countError.message}`);
+      return { rank: (count ?? 0) + 1, entry: toEntry(best) };
+    },
+
+    async submit(submission) {
+      const result = await submitRun(submission);
+      if (result.accepted === false) return { status: 'rejected', reason: result.reason };
+      return { status: 'accepted', entry: toSubmittedEntry(submission, result.time, result.distance, result.score, 'synced') };
+    }
+  };
+};
+
+// --- localStorage Repository ---
+
+const loadLocalBoard = (): LeaderboardEntry[] => {
+  const saved = localStorage.getItem(LOCAL_BOARD_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load leaderboard");
+    return [];
+  }
+};
+
+const localRepository: LeaderboardRepository = {
+  async list(query) {
+    const matches = loadLocalBoard()
+      .filter(entry => matchesQuery(entry, query))
+      .sort(compareEntries(query.board));
+    return {
+      entries: matches
+        .slice(query.offset, query.offset + query.limit)
+        .map(entry => ({ ...entry, syncStatus: 'local' as const })),
+      total: matches.length
+    };
+  },
+
+  async findRank(query, name) {
+    const matches = loadLocalBoard()
+      .filter(entry => matchesQuery(entry, query))
+      .sort(compareEntries(query.board));
+    const index = matches.findIndex(entry => entry.name === name);
+    return index === -1 ? null : { rank: index + 1, entry: { ...matches[index], syncStatus: 'local' } };
+  },
+
+  async submit(submission) {
+    const result = await submitRun(submission);
+    if (result.accepted === false) return { status: 'rejected', reason: result.reason };
+
+    // Keep the runs that place on any board this entry's trail and difficulty have
+    const entry = toSubmittedEntry(submission, result.time, result.distance, result.score, 'local');
+    const length = trailLength(submission.trail);
+    const sameCourse = (e: LeaderboardEntry) => entryTrailId(e) === entry.trail && e.difficulty === entry.difficulty;
+
+    const stored = loadLocalBoard().filter(e => e.id !== entry.id);
+    const candidates = [...stored.filter(sameCourse), entry];
+    const kept = new Set<LeaderboardEntry>();
+    for (const board of boardsOf(entry, length)) {
+      candidates
+        .filter(e => boardsOf(e, length).includes(board))
+        .sort(compareEntries(board))
+        .slice(0, LOCAL_ENTRIES_PER_BOARD)
+        .forEach(e => kept.add(e));
+    }
+    // Other boards on this course aren't affected by the new entry
+    candidates
+      .filter(e => !boardsOf(e, length).some(board => boardsOf(entry, length).includes(board)))
+      .forEach(e => kept.add(e));
+    localStorage.setItem(LOCAL_BOARD_KEY, JSON.stringify([...stored.filter(e => !sameCourse(e)), ...kept]));
+    return { status: 'accepted', entry };
+  }
+};
+
+export const leaderboardRepository: LeaderboardRepository = supabase ? supabaseRepository(supabase) : localRepository;
+
+// --- Offline Queue ---
+
+interface QueuedRun {
+  id: string;
+  submission: RunSubmission;
+}
+
+const loadQueue = (): QueuedRun[] => {
+  const saved = localStorage.getItem(QUEUE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved) as QueuedRun[];
+  } catch (e) {
+    console.error("Failed to load leaderboard queue");
+    return [];
+  }
+};
+
+const saveQueue = (queue: QueuedRun[]) => {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+};
+
+const enqueue = (submission: RunSubmission) => {
+  const id = runId(submission);
+  const queue = loadQueue();
+  if (!queue.some(run => run.id === id)) saveQueue([...queue, { id, submission }]);
+};
+
+export const getQueuedCount = () => loadQueue().length;
+
+// --- Public API ---
+
+// A page of the stored board, with this player's runs still waiting to sync
+// merged into the first page
+export const loadLeaderboardPage = async (query: LeaderboardQuery): Promise<LeaderboardPage> => {
+  let page: LeaderboardPage = { entries: [], total: 0 };
+  try {
+    page = await leaderboardRepository.list(query);
+  } catch (e) {
+    console.error(e);
+  }
+  if (query.offset > 0) return page;
+
+  const storedIds = new Set(page.entries.map(entry => entry.id));
+  const pending = loadQueue()
+    .filter(run => !storedIds.has(run.id))
+    .map(run => toSubmittedEntry(run.submission, run.submission.time, run.submission.distance, run.submission.score, 'pending'))
+    .filter(entry => matchesQuery(entry, query));
+
+  return { ...page, entries: [...page.entries, ...pending].sort(compareEntries(query.board)).slice(0, query.limit) };
+};
+
+// Top of one board across all time, as shown after a run
+export const loadLeaderboard = async (trailId: string, difficulty: Difficulty, board: BoardKind, limit = 10): Promise<LeaderboardEntry[]> =>
+  (await loadLeaderboardPage({ trailId, difficulty, board, window: 'all', offset: 0, limit })).entries;
+
+export const findPlayerRank = async (query: LeaderboardQuery, name: string): Promise<RankedEntry | null> => {
+  try {
+    return await leaderboardRepository.findRank(query, name);
+  } catch (e) {
+    console.error(e);
+    return null;
+  }
+};
+
+// The name last submitted from this device, used to find "your" rank
+export const loadPlayerName = () => localStorage.getItem(PLAYER_NAME_KEY) ?? '';
+
+export const savePlayerName = (name: string) => {
+  localStorage.setItem(PLAYER_NAME_KEY, name);
+};
+
+export const submitToLeaderboard = async (submission: RunSubmission): Promise<SubmitResult> => {
+  const queued: SubmitResult = {
+    status: 'queued',
+    entry: toSubmittedEntry(submission, submission.time, submission.distance, submission.score, 'pending')
+  };
+  if (loadQueue().some(run => run.id === runId(submission))) return queued;
+
+  try {
+    return await leaderboardRepository.submit(submission);
+  } catch (e) {
+    if (!(e instanceof VerificationUnavailableError)) throw e;
+    enqueue(submission);
+    return queued;
+  }
+};
+
+export interface SyncReport {
+  synced: number;
+  rejected: { name: string; reason: string }[];
+  remaining: number;
+}
+
+let syncInFlight: Promise<SyncReport> | null = null;
+
+// Retries queued runs in order, stopping at the first one that still can't get through
+export const syncLeaderboardQueue = (): Promise<SyncReport> => {
+  if (!syncInFlight) {
+    syncInFlight = drainQueue().finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+};
+
+const drainQueue = async (): Promise<SyncReport> => {
+  const report: SyncReport = { synced: 0, rejected: [], remaining: 0 };
+
+  for (const run of loadQueue()) {
+    let result: SubmitResult;
+    try {
+      result = await leaderboardRepository.submit(run.submission);
+    } catch (e) {
+      if (!(e instanceof VerificationUnavailableError)) console.error('Error syncing queued run:', e);
+      break;
+    }
+    if (result.status === 'rejected') {
+      report.rejected.push({ name: run.submission.name, reason: result.reason });
+    } else {
+      report.synced++;
+    }
+    saveQueue(loadQueue().filter(queued => queued.id !== run.id));
+  }
+
+  report.remaining = getQueuedCount();
+  return report;
+};
@@ -0,0 +1,153 @@
+import { ClientMessage, ServerMessage, RaceSettings, SkierState, DEFAULT_RACE_PORT } from '../engine/online';
+
+// --- Online Race Connection ---
+// One WebSocket to the race relay (server/raceServer.ts). The game listens
+// for lobby updates, the synchronized countdown and the other skiers' states.
+
+const STORAGE_KEY = 'nileMileRaceServer';
+
+// Server messages, plus word that the connection is gone
+export type MultiplayerEvent = ServerMessage | { type: 'DISCONNECTED'; reason: string | null };
+
+type EventListener = (event: MultiplayerEvent) => void;
+
+export interface RaceServerDetails {
+    url: string;
+    room: string;
+}
+
+// The relay usually runs on whichever machine is serving the game
+const defaultServerUrl = () =>
+    import.meta.env.VITE_RACE_SERVER_URL || `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RACE_PORT}`;
+
+export const loadRaceServerDetails = (): RaceServerDetails => {
+    const fallback = { url: defaultServerUrl(), room: 'LODGE' };
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<RaceServerDetails> | null;
+        return {
+            url: typeof saved?.url === 'string' && saved.url ? saved.url : fallback.url,
+            room: typeof saved?.room === 'string' && saved.room ? saved.room : fallback.room
+        };
+    } catch (e) {
+        return fallback;
+    }
+};
+
+class MultiplayerService {
+    private socket: WebSocket | null = null;
+    private listeners = new Set<EventListener>();
+    private id: string | null = null;
+
+    isConnected() {
+        return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+    }
+
+    // This client's id in the lobby, once the server has said hello
+    getId() {
+        return this.id;
+    }
+
+    subscribe(listener: EventListener) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private emit(event: MultiplayerEvent) {
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    // Resolves once the lobby has been joined; rejects if the server can't be
+    // reached or turns us away (lobby full, race underway)
+    connect(details: RaceServerDetails, name: string, skin: string, settings: RaceSettings): Promise<void> {
+        this.disconnect();
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(details));
+
+        return new Promise((resolve, reject) => {
+            let socket: WebSocket;
+            try {
+                socket = new WebSocket(details.url);
+            } catch (e) {
+                reject(new Error(`Not a valid server address: ${details.url}`));
+                return;
+            }
+            this.socket = socket;
+            let joined = false;
+
+            // Until the lobby is joined, failures go to the caller rather than the listeners
+            const fail = (reason: string) => {
+                this.socket = null;
+                this.id = null;
+                socket.close();
+                reject(new Error(reason));
+            };
+
+            socket.onopen = () => {
+                this.send({ type: 'JOIN', room: details.room, name, skin, settings });
+            };
+            socket.onmessage = (e) => {
+                let message: ServerMessage;
+                try {
+                    message = JSON.parse(e.data);
+                } catch (error) {
+                    console.error('Unreadable message from the race server');
+                    return;
+                }
+                if (message.type === 'WELCOME') this.id = message.id;
+                if (!joined && message.type === 'ERROR') {
+                    fail(message.reason);
+                    return;
+                }
+                this.emit(message);
+                if (!joined && message.type === 'LOBBY') {
+                    joined = true;
+                    resolve();
+                }
+            };
+            socket.onclose = () => {
+                if (!joined) {
+                    if (this.socket === socket) fail(`Could not reach a race server at ${details.url}`);
+                    else reject(new Error('Connection cancelled'));
+                    return;
+                }
+                // A socket we replaced or closed ourselves has nothing to report
+                if (this.socket !== socket) return;
+                this.socket = null;
+                this.id = null;
+                this.emit({ type: 'DISCONNECTED', reason: 'Lost connection to the race server' });
+            };
+        });
+    }
+
+    disconnect() {
+        const { socket } = this;
+        if (!socket) return;
+        this.socket = null;
+        this.id = null;
+        socket.close();
+        this.emit({ type: 'DISCONNECTED', reason: null });
+    }
+
+    private send(message: ClientMessage) {
+        if (this.isConnected()) this.socket!.send(JSON.stringify(message));
+    }
+
+    setReady(ready: boolean) {
+        this.send({ type: 'READY', ready });
+    }
+
+    setSettings(settings: RaceSettings) {
+        this.send({ type: 'SETTINGS', settings });
+    }
+
+    startRace() {
+        this.send({ type: 'START' });
+    }
+
+    sendState(state: SkierState) {
+        this.send({ type: 'STATE', state });
+    }
+}
+
+export const multiplayerService = new MultiplayerService();
@@ -0,0 +1,98 @@
+import { Difficulty, GameMode } from "../types";
+import { Replay, validateReplay, getReplayMode } from "../engine/replay";
+
+const STORAGE_KEY = 'nileMileReplays';
+const PERSONAL_BEST_KEY = 'nileMilePersonalBest';
+const MAX_SAVED_REPLAYS = 10;
+
+export interface SavedReplay {
+  id: string;
+  replay: Replay;
+}
+
+export const loadSavedReplays = (): SavedReplay[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved) as SavedReplay[];
+    return parsed.filter(entry => validateReplay(entry.replay) === null);
+  } catch (e) {
+    console.error("Failed to load saved replays");
+    return [];
+  }
+};
+
+// Newest first; the oldest replays fall off once the list is full
+export const saveReplay = (replay: Replay): SavedReplay[] => {
+  const entry: SavedReplay = { id: `${replay.date}-${replay.seed}`, replay };
+  const replays = [entry, ...loadSavedReplays().filter(r => r.id !== entry.id)].slice(0, MAX_SAVED_REPLAYS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(replays));
+  return replays;
+};
+
+export const deleteReplay = (id: string): SavedReplay[] => {
+  const replays = loadSavedReplays().filter(r => r.id !== id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(replays));
+  return replays;
+};
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `nile-mile-replay-${replay.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Reads a replay JSON file, rejecting with a readable reason if it's invalid
+export const readReplayFile = async (file: File): Promise<Replay> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error('Replay file is not valid JSON');
+  }
+  const problem = validateReplay(data);
+  if (problem) throw new Error(problem);
+  return data as Replay;
+};
+
+// --- Personal Bests ---
+// The fastest finished run per trail, difficulty and mode, kept as a full replay so it can race as a ghost
+
+type PersonalBests = Record<string, Replay>;
+
+// Freeride keys predate modes, so only slalom gets a suffix
+const personalBestKey = (trailId: string, difficulty: Difficulty, mode: GameMode) =>
+  mode === GameMode.SLALOM ? `${trailId}/${difficulty}/${mode}` : `${trailId}/${difficulty}`;
+
+const loadPersonalBests = (): PersonalBests => {
+  const saved = localStorage.getItem(PERSONAL_BEST_KEY);
+  if (!saved) return {};
+  try {
+    return JSON.parse(saved) as PersonalBests;
+  } catch (e) {
+    console.error("Failed to load personal bests");
+    return {};
+  }
+};
+
+export const loadPersonalBest = (trailId: string, difficulty: Difficulty, mode: GameMode): Replay | null => {
+  const best = loadPersonalBests()[personalBestKey(trailId, difficulty, mode)];
+  return best && validateReplay(best) === null ? best : null;
+};
+
+// Stores the replay if it's a finished run faster than the current best; returns whether it was
+export const updatePersonalBest = (replay: Replay): boolean => {
+  if (replay.result.causeOfDeath) return false;
+  const current = loadPersonalBest(replay.trailId, replay.difficulty, getReplayMode(replay));
+  if (current && current.result.time <= replay.result.time) return false;
+
+  localStorage.setItem(PERSONAL_BEST_KEY, JSON.stringify({
+    ...loadPersonalBests(),
+    [personalBestKey(replay.trailId, replay.difficulty, getReplayMode(replay))]: replay
+  }));
+  return true;
+};
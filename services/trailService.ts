@@ -0,0 +1,54 @@
+import { TrailDefinition, TrailValidationError, parseTrail, validateTrail } from "../engine/trail";
+
+const DRAFT_KEY = 'nileMileEditorDraft';
+
+// Starting point for the editor: a copy of an existing trail under a new id
+export const createDraftFrom = (trail: TrailDefinition): TrailDefinition => ({
+  ...JSON.parse(JSON.stringify(trail)),
+  id: `${trail.id}-custom`,
+  name: `${trail.name} (Edited)`,
+  obstacles: trail.obstacles ? [...trail.obstacles] : []
+});
+
+export const loadTrailDraft = (): TrailDefinition | null => {
+  const saved = localStorage.getItem(DRAFT_KEY);
+  if (!saved) return null;
+  try {
+    const draft = JSON.parse(saved);
+    return validateTrail(draft).length === 0 ? draft as TrailDefinition : null;
+  } catch (e) {
+    console.error("Failed to load editor draft");
+    return null;
+  }
+};
+
+export const saveTrailDraft = (trail: TrailDefinition) => {
+  localStorage.setItem(DRAFT_KEY, JSON.stringify(trail));
+};
+
+// Exports exactly the JSON format the trails/ folder loads
+export const downloadTrail = (trail: TrailDefinition) => {
+  const blob = new Blob([JSON.stringify(trail, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${trail.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Reads a trail JSON file, rejecting with every validation problem if it's invalid
+export const readTrailFile = async (file: File): Promise<TrailDefinition> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error('Trail file is not valid JSON');
+  }
+  try {
+    return parseTrail(data, file.name);
+  } catch (e) {
+    if (e instanceof TrailValidationError) throw new Error(e.errors.join('; '));
+    throw e;
+  }
+};
@@ -0,0 +1,56 @@
+import { RunSubmission, VerificationResult, verifySubmission } from "../engine/verify";
+
+// Where leaderboard submissions get re-simulated before they're stored.
+// Defaults to the `verify-run` edge function next to the Supabase project;
+// point VITE_VERIFY_URL at `npm run verify-server` to use the local stand-in.
+const supabaseUrl = import.meta.env?.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env?.VITE_SUPABASE_ANON_KEY;
+const verifyUrl = import.meta.env?.VITE_VERIFY_URL
+  || (supabaseUrl ? `${supabaseUrl}/functions/v1/verify-run` : null);
+
+// The verifier couldn't be reached or failed on its side. Unlike a rejection
+// this says nothing about the run, so the submission is worth retrying later.
+export class VerificationUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerificationUnavailableError';
+  }
+}
+
+// Resolves with the verifier's verdict; throws VerificationUnavailableError
+// when there is no verdict to be had right now
+export const submitRun = async (submission: RunSubmission): Promise<VerificationResult> => {
+  // Local-only leaderboard: nothing to protect, but apply the same rules
+  if (!verifyUrl) {
+    return verifySubmission(submission);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(verifyUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(supabaseAnonKey ? { Authorization: `Bearer ${supabaseAnonKey}`, apikey: supabaseAnonKey } : {})
+      },
+      body: JSON.stringify(submission)
+    });
+  } catch (e) {
+    console.error('Error reaching run verification service:', e);
+    throw new VerificationUnavailableError('Could not reach the verification service');
+  }
+
+  if (response.status >= 500) {
+    throw new VerificationUnavailableError(`Verification service error (${response.status})`);
+  }
+  let result: VerificationResult;
+  try {
+    result = await response.json() as VerificationResult;
+  } catch (e) {
+    throw new VerificationUnavailableError('Verification service sent an unreadable response');
+  }
+  if (typeof result?.accepted !== 'boolean') {
+    throw new VerificationUnavailableError('Verification service sent an unexpected response');
+  }
+  return result;
+};
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode } from '../types';
+import { createRunProgress, checkAchievements, loadUnlockedAchievements } from '../services/achievementService';
+import { memoryStorage } from './storage';
+import { trail } from './skier';
+
+// --- Achievement Checks ---
+
+const storage = memoryStorage();
+
+const finishedRun = (trailId: string) => ({
+  ...createRunProgress(trailId, Difficulty.HARD, GameMode.FREERIDE),
+  outcome: 'finished' as const,
+  finishGap: 1000
+});
+
+test('runs on custom trails never unlock anything', () => {
+  storage.clear();
+  assert.deepEqual(checkAchievements(finishedRun('my-custom-course')), []);
+  assert.deepEqual(loadUnlockedAchievements(), {});
+});
+
+test('runs on built-in trails unlock what they earn, once', () => {
+  storage.clear();
+  const earned = checkAchievements(finishedRun(trail.id)).map(a => a.id);
+  assert.ok(earned.includes('first-finish') && earned.includes('pro-finish'));
+  assert.deepEqual(Object.keys(loadUnlockedAchievements()).sort(), [...earned].sort());
+  assert.deepEqual(checkAchievements(finishedRun(trail.id)), []);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Obstacle, ObstacleType, Player } from '../types';
+import {
+  Hitbox, getObstacleHitbox, getPlayerHitboxes, hitboxesOverlap, anyOverlap,
+  createSpatialIndex, indexObstacle, queryIndex, cullIndex
+} from '../engine/collision';
+
+// --- Collision Checks ---
+
+const skier = (x: number, y: number, direction = 0): Player =>
+  ({ x, y, speed: 0, direction, state: 'skiing', altitude: 0, verticalSpeed: 0 });
+
+const obstacle = (id: number, type: ObstacleType, x: number, y: number): Obstacle =>
+  ({ id, type, x, y, width: 40, height: 60 });
+
+test('only a tree trunk is solid, not its boughs', () => {
+  const tree = getObstacleHitbox(obstacle(1, ObstacleType.TREE, 0, 100));
+  assert.equal(anyOverlap(getPlayerHitboxes(skier(15, 90)), tree), false);
+  assert.equal(anyOverlap(getPlayerHitboxes(skier(8, 90)), tree), true);
+});
+
+test('turned boxes only touch where their shapes do', () => {
+  const diagonal: Hitbox = { kind: 'box', x: 0, y: 0, halfWidth: 10, halfHeight: 1, angle: Math.PI / 4 };
+  const speck = (x: number, y: number): Hitbox => ({ kind: 'box', x, y, halfWidth: 1, halfHeight: 1, angle: 0 });
+  // Inside the diagonal's bounding box, but off to the side of the box itself
+  assert.equal(hitboxesOverlap(diagonal, speck(6, -6)), false);
+  assert.equal(hitboxesOverlap(diagonal, speck(5, 5)), true);
+
+  const rock = getObstacleHitbox(obstacle(2, ObstacleType.ROCK, 0, 0));
+  assert.equal(hitboxesOverlap(rock, speck(7, 7)), true);
+  assert.equal(hitboxesOverlap(speck(8.5, 8.5), rock), false);
+  assert.equal(hitboxesOverlap(rock, { kind: 'circle', x: 19, y: 0, radius: 10 }), true);
+});
+
+test('the spatial index finds obstacles by row and drops rows left behind', () => {
+  const index = createSpatialIndex();
+  const obstacles = [50, 99, 100, 250, 420].map((y, id) => obstacle(id, ObstacleType.ROCK, 0, y));
+  obstacles.forEach(obs => indexObstacle(index, obs));
+
+  assert.deepEqual(queryIndex(index, 99, 250).map(obs => obs.y), [99, 100, 250]);
+  assert.deepEqual(queryIndex(index, 0, 1000).map(obs => obs.y), [50, 99, 100, 250, 420]);
+  assert.deepEqual(queryIndex(index, 251, 419), []);
+
+  cullIndex(index, 260);
+  assert.deepEqual(queryIndex(index, 0, 1000).map(obs => obs.y), [250, 420]);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode, ObstacleType } from '../types';
+import { createSimulation } from '../engine/simulation';
+import { generateObstacles } from '../engine/course';
+import { TrailDefinition } from '../engine/trail';
+import { trail } from './skier';
+
+// --- Course Generation Checks ---
+
+const generateAll = (on: TrailDefinition, chunk: number) => {
+  const sim = createSimulation(42, Difficulty.HARD, on, GameMode.FREERIDE);
+  for (let y = 0; sim.lastObstacleY !== Infinity; y += chunk) generateObstacles(sim, sim.lastObstacleY, y);
+  return sim.obstacles;
+};
+
+test('hand-placed obstacles go in anywhere on the trail', () => {
+  const placed = [
+    { type: ObstacleType.ROCK, x: 0, y: 5 }, // Above the first row
+    { type: ObstacleType.RAMP, x: 0, y: 2000 },
+    { type: ObstacleType.TREE, x: 0, y: trail.length - 100 } // Past the last row, by the lodge
+  ] as TrailDefinition['obstacles'];
+  const obstacles = generateAll({ ...trail, obstacles: placed }, 700);
+  for (const p of placed!) {
+    assert.ok(obstacles.some(o => o.type === p.type && o.x === p.x && o.y === p.y), `${p.type} at ${p.y}ft`);
+  }
+});
+
+test('a course is the same however its generation is chunked', () => {
+  assert.deepEqual(generateAll(trail, 300), generateAll(trail, 2000));
+});
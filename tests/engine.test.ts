@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode } from '../types';
+import { InputSnapshot, SimState, MPH_PER_SPEED, createSimulation, stepSimulation, getMaxSpeed, getRaceTime } from '../engine/simulation';
+import {
+  Replay, createReplay, recordInput, encodeInput, decodeInput, expandInputs, validateReplay, createPlayback, seekPlayback
+} from '../engine/replay';
+import { createTelemetry, packTelemetry, unpackTelemetry, getTelemetryTicks } from '../engine/telemetry';
+import { trail, ski, chaseLine } from './skier';
+
+// --- Engine Checks ---
+//
+//   npm test
+
+test('the same seed and input give the same run', () => {
+  for (const difficulty of [Difficulty.EASY, Difficulty.HARD]) {
+    const a = ski(1234, difficulty, 300).sim;
+    const b = ski(1234, difficulty, 300).sim;
+    assert.notEqual(a.status, 'running');
+    assert.deepEqual(
+      { tick: b.tick, status: b.status, x: b.player.x, y: b.player.y, cause: b.causeOfDeath, score: b.score.total },
+      { tick: a.tick, status: a.status, x: a.player.x, y: a.player.y, cause: a.causeOfDeath, score: a.score.total }
+    );
+    assert.deepEqual(b.obstacles, a.obstacles);
+  }
+});
+
+test('input masks and logs round-trip', () => {
+  const snapshots: InputSnapshot[] = [
+    { left: false, right: false, down: false },
+    { left: true, right: false, down: true },
+    { left: false, right: true, down: false },
+    { left: false, right: false, down: false, steer: -1 },
+    { left: false, right: false, down: true, steer: 0.5 }
+  ];
+  for (const input of snapshots) assert.deepEqual(decodeInput(encodeInput(input)), input);
+
+  const log: number[] = [];
+  const ticks = [0, 0, 0, 1, 1, 4, 2, 2, 3, 0].map(i => snapshots[i]);
+  ticks.forEach(input => recordInput(log, input));
+  assert.equal(log.length, 12); // Runs of 3, 2, 1, 2, 1, 1
+  assert.deepEqual(expandInputs(log), ticks);
+});
+
+test('a replay reproduces its run', () => {
+  const { sim, inputs } = ski(99, Difficulty.EASY, 300);
+  const replay = JSON.parse(JSON.stringify(createReplay(sim, inputs))) as Replay;
+  assert.equal(validateReplay(replay), null);
+
+  const playback = createPlayback(replay, trail);
+  seekPlayback(playback, replay.ticks);
+  assert.equal(playback.sim.status, sim.status);
+  assert.equal(getRaceTime(playback.sim), replay.result.time);
+  assert.equal(Math.floor(playback.sim.player.y), replay.result.distance);
+  assert.equal(playback.sim.score.total, replay.result.score);
+});
+
+test('telemetry packs and unpacks within its rounding', () => {
+  const { telemetry } = ski(2024, Difficulty.EASY, 300);
+  const packed = JSON.parse(JSON.stringify(packTelemetry(telemetry)));
+  const unpacked = unpackTelemetry(packed);
+  assert.ok(unpacked);
+  assert.equal(getTelemetryTicks(unpacked), getTelemetryTicks(telemetry));
+
+  const tolerance = { x: 0.05, y: 0.05, speed: 0.005, direction: 0.005, input: 0, offset: 0.05, yetiGap: 0.05 };
+  for (const channel of Object.keys(tolerance) as (keyof typeof tolerance)[]) {
+    telemetry[channel].forEach((value, i) => {
+      assert.ok(Math.abs(value - unpacked[channel][i]) <= tolerance[channel] + 1e-9, `${channel} at tick ${i}`);
+    });
+  }
+
+  assert.equal(unpackTelemetry({ ...packed, data: packed.data.slice(0, -8) }), null);
+  assert.equal(unpackTelemetry({ ...packed, ticks: packed.ticks + 1 }), null);
+  assert.equal(unpackTelemetry({ ...packed, version: packed.version + 1 }), null);
+  assert.equal(getTelemetryTicks(unpackTelemetry(packTelemetry(createTelemetry()))!), 0);
+});
+
+test('tucking is faster but turns slower', () => {
+  const run = (down: boolean, ticks: number, steer: (sim: SimState) => InputSnapshot) => {
+    const sim = createSimulation(7, Difficulty.HARD, trail, GameMode.FREERIDE);
+    for (let i = 0; i < ticks && sim.status === 'running'; i++) stepSimulation(sim, { ...steer(sim), down });
+    return sim;
+  };
+  const upright = run(false, 600, sim => chaseLine(sim, 300));
+  const tucked = run(true, 600, sim => chaseLine(sim, 300));
+  assert.equal(tucked.status, 'running');
+  assert.ok(tucked.player.y > upright.player.y);
+  assert.ok(tucked.topSpeed > getMaxSpeed(Difficulty.HARD) * MPH_PER_SPEED);
+
+  const left = () => ({ left: true, right: false, down: false });
+  assert.ok(run(true, 5, left).player.direction > run(false, 5, left).player.direction);
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode } from '../types';
+import { PackedTelemetry, TELEMETRY_VERSION, packTelemetry, unpackTelemetry, getTelemetryTicks } from '../engine/telemetry';
+import { recordRun, loadRunHistory } from '../services/historyService';
+import { memoryStorage } from './storage';
+import { trail, ski } from './skier';
+
+// --- Run History Checks ---
+
+const storage = memoryStorage();
+
+const telemetryOf = (chars: number): PackedTelemetry => ({ version: TELEMETRY_VERSION, ticks: 1, data: 'A'.repeat(chars) });
+
+// Distance tells the recorded runs apart
+const record = (distance: number, telemetry?: PackedTelemetry) => recordRun({
+  trailId: trail.id,
+  difficulty: Difficulty.HARD,
+  mode: GameMode.FREERIDE,
+  stats: { score: 0, distance, topSpeed: 40, causeOfDeath: 'Hit a tree', time: 10000 },
+  telemetry
+});
+
+const withTelemetry = () => loadRunHistory().filter(run => run.telemetry).map(run => run.distance);
+
+test('telemetry packs small and unpacks to the same run', () => {
+  const { telemetry } = ski(3, Difficulty.EASY, 300);
+  const packed = packTelemetry(telemetry);
+  assert.ok(packed.data.length < 100000, `${packed.data.length} chars`);
+  const unpacked = unpackTelemetry(packed)!;
+  assert.equal(getTelemetryTicks(unpacked), getTelemetryTicks(telemetry));
+  assert.deepEqual(packTelemetry(unpacked), packed);
+
+  assert.equal(unpackTelemetry({ ...packed, data: packed.data.slice(0, -8) }), null);
+  assert.equal(unpackTelemetry({ ...packed, version: TELEMETRY_VERSION + 1 }), null);
+});
+
+test('only the newest runs keep their telemetry', () => {
+  storage.clear();
+  storage.quota = Infinity;
+  [1, 2, 3, 4].forEach(distance => record(distance, telemetryOf(200000)));
+  record(5);
+  assert.deepEqual(loadRunHistory().map(run => run.distance), [1, 2, 3, 4, 5]);
+  assert.deepEqual(withTelemetry(), [3, 4]);
+});
+
+test('a full browser sheds telemetry oldest first and never fails the run', t => {
+  const logged = t.mock.method(console, 'error', () => {});
+  storage.clear();
+  storage.quota = 300000;
+  record(1, telemetryOf(200000));
+  record(2, telemetryOf(200000));
+  assert.deepEqual(withTelemetry(), [2]);
+  assert.equal(logged.mock.callCount(), 0);
+
+  // No room even for the runs alone: the history isn't saved, but the run still is
+  storage.quota = 100;
+  assert.equal(record(3).distance, 3);
+  assert.equal(logged.mock.callCount(), 1);
+  assert.deepEqual(loadRunHistory().map(run => run.distance), [1, 2]);
+});
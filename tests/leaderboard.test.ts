@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode, LeaderboardEntry } from '../types';
+import { createReplay } from '../engine/replay';
+import {
+  LeaderboardQuery, BoardKind, loadLeaderboardPage, findPlayerRank, submitToLeaderboard, syncLeaderboardQueue
+} from '../services/leaderboardService';
+import { memoryStorage } from './storage';
+import { trail, ski, submissionFor } from './skier';
+
+// --- Leaderboard Checks ---
+// With no Supabase project configured the service keeps its board in
+// localStorage and verifies runs in-process.
+
+const storage = memoryStorage();
+
+const now = new Date().toISOString();
+
+const entry = (id: string, fields: Partial<LeaderboardEntry>): LeaderboardEntry => ({
+  id, name: id.toUpperCase(), time: 60000, date: '', createdAt: now,
+  difficulty: Difficulty.HARD, mode: GameMode.FREERIDE, distance: trail.length, trail: trail.id, ...fields
+});
+
+const query = (board: BoardKind, fields: Partial<LeaderboardQuery> = {}): LeaderboardQuery =>
+  ({ trailId: trail.id, difficulty: Difficulty.HARD, board, window: 'all', offset: 0, limit: 10, ...fields });
+
+const idsOn = async (q: LeaderboardQuery) => (await loadLeaderboardPage(q)).entries.map(e => e.id);
+
+const seedBoard = () => {
+  storage.clear();
+  storage.setItem('nileMileLeaderboard', JSON.stringify([
+    entry('quick', { time: 50000, score: 900 }),
+    entry('steady', { time: 70000, score: 2000 }),
+    entry('crash-far', { time: 40000, distance: 9000, score: 100 }),
+    entry('crash-near', { time: 20000, distance: 3000 }),
+    entry('crash-near-slow', { time: 30000, distance: 3000 }),
+    entry('gates', { mode: GameMode.SLALOM, time: 80000 }),
+    entry('gates-dq', { mode: GameMode.SLALOM, distance: 2000 }),
+    entry('easy', { difficulty: Difficulty.EASY, time: 10000 }),
+    entry('elsewhere', { trail: 'cleopatra', time: 10000 }),
+    // Saved before trails, difficulties, distances and timestamps were stored
+    { id: 'legacy', name: 'OLD', time: 65000, date: '1/1/2024' }
+  ]));
+};
+
+test('each run ranks on the boards it belongs to', async () => {
+  seedBoard();
+  assert.deepEqual(await idsOn(query('fastest')), ['quick', 'legacy', 'steady']);
+  assert.deepEqual(await idsOn(query('furthest')), ['crash-far', 'crash-near', 'crash-near-slow']);
+  assert.deepEqual(await idsOn(query('score')), ['steady', 'quick', 'crash-far']);
+  assert.deepEqual(await idsOn(query('slalom')), ['gates']);
+  assert.deepEqual(await idsOn(query('fastest', { difficulty: Difficulty.EASY })), ['easy']);
+});
+
+test('boards page, filter by time window and find a player', async () => {
+  seedBoard();
+  const page = await loadLeaderboardPage(query('fastest', { offset: 1, limit: 1 }));
+  assert.deepEqual([page.entries.map(e => e.id), page.total], [['legacy'], 3]);
+  // Rows without a timestamp only count toward All Time
+  assert.deepEqual(await idsOn(query('fastest', { window: 'today' })), ['quick', 'steady']);
+
+  assert.deepEqual(await findPlayerRank(query('fastest'), 'STEADY'), {
+    rank: 3, entry: { ...entry('steady', { time: 70000, score: 2000 }), syncStatus: 'local' }
+  });
+  assert.equal(await findPlayerRank(query('slalom'), 'STEADY'), null);
+});
+
+test('queued runs show as pending until a sync verifies them', async () => {
+  storage.clear();
+  const { sim, inputs } = ski(3, Difficulty.EASY, 300);
+  const genuine = submissionFor(createReplay(sim, inputs));
+  const doctored = { ...submissionFor(createReplay(sim, inputs)), name: 'CHEAT', time: 1000 };
+  doctored.replay = { ...doctored.replay, date: new Date(Date.parse(genuine.replay.date) + 1).toISOString() };
+  storage.setItem('nileMileLeaderboardQueue', JSON.stringify([
+    { id: `${genuine.trail}/${genuine.seed}/${genuine.replay.date}`, submission: genuine },
+    { id: `${doctored.trail}/${doctored.seed}/${doctored.replay.date}`, submission: doctored }
+  ]));
+
+  const easyFastest = query('fastest', { difficulty: Difficulty.EASY });
+  const pending = (await loadLeaderboardPage(easyFastest)).entries;
+  assert.deepEqual(pending.map(e => [e.name, e.syncStatus]), [['CHEAT', 'pending'], ['TEST', 'pending']]);
+  // Already waiting, so it isn't submitted a second time
+  assert.equal((await submitToLeaderboard(genuine)).status, 'queued');
+
+  const report = await syncLeaderboardQueue();
+  assert.deepEqual([report.synced, report.rejected.map(r => r.name), report.remaining], [1, ['CHEAT'], 0]);
+  assert.match(report.rejected[0].reason, /^Reported time/);
+  const synced = (await loadLeaderboardPage(easyFastest)).entries;
+  assert.deepEqual(synced.map(e => [e.name, e.time, e.syncStatus]), [['TEST', genuine.time, 'local']]);
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SkierState, OnlineStanding, INTERPOLATION_DELAY_MS,
+  createRemoteSkier, addSnapshot, getRemoteFrame, getOnlineStandings
+} from '../engine/online';
+
+// --- Online Race Checks ---
+
+const state = (y: number, fields: Partial<SkierState> = {}): SkierState =>
+  ({ x: 0, y, direction: 0, altitude: 0, speed: 10, status: 'running', time: 0, ...fields });
+
+const remote = (id: string, ...states: SkierState[]) => {
+  const skier = createRemoteSkier({ id, name: id.toUpperCase(), skin: 'classic', ready: true });
+  states.forEach((s, i) => addSnapshot(skier, s, i * 100));
+  return skier;
+};
+
+test('standings put finishers first by time, then everyone else by distance', () => {
+  const local: OnlineStanding = { id: null, name: 'YOU', skin: 'classic', state: state(4000) };
+  const standings = getOnlineStandings(local, [
+    remote('silent'),
+    remote('slow', state(10000, { status: 'finished', time: 95000 })),
+    remote('crashed', state(1000), state(6000, { status: 'crashed' })),
+    remote('quick', state(10000, { status: 'finished', time: 90000 }))
+  ]);
+  assert.deepEqual(standings.map(s => s.id), ['quick', 'slow', 'crashed', null, 'silent']);
+  // Ranked on each skier's latest update
+  assert.equal(standings[2].state!.status, 'crashed');
+});
+
+test('remote skiers are drawn a little in the past, between their updates', () => {
+  const skier = remote('ghost', state(0, { x: -10 }), state(100, { x: 10 }));
+  assert.equal(getRemoteFrame(createRemoteSkier({ id: 'none', name: '', skin: '', ready: false }), 500), null);
+  assert.deepEqual(getRemoteFrame(skier, INTERPOLATION_DELAY_MS - 50), state(0, { x: -10 }));
+  assert.deepEqual(getRemoteFrame(skier, INTERPOLATION_DELAY_MS + 25), state(25, { x: -5 }));
+  // Nothing newer: they hold where they were last seen
+  assert.deepEqual(getRemoteFrame(skier, INTERPOLATION_DELAY_MS + 1000), state(100, { x: 10 }));
+});
+
+test('old updates are dropped once they are well behind the drawn moment', () => {
+  const skier = remote('ghost');
+  for (let i = 0; i <= 100; i++) addSnapshot(skier, state(i), i * 100);
+  assert.ok(skier.snapshots.length < 20, `${skier.snapshots.length} kept`);
+  assert.equal(getRemoteFrame(skier, 10000 + INTERPOLATION_DELAY_MS - 50)!.y, 99.5);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode } from '../types';
+import { createRace, stepRace, getChasedSim, rankRacers } from '../engine/race';
+import { trail, skiRace } from './skier';
+
+// --- Race Checks ---
+
+test('the shared yeti goes after whoever is furthest back', () => {
+  const race = createRace(5, Difficulty.HARD, trail, GameMode.FREERIDE, 3);
+  race.sims[0].player.y = 900;
+  race.sims[1].player.y = 400;
+  race.sims[2].player.y = 100;
+  race.sims[2].status = 'crashed';
+  stepRace(race, race.sims.map(() => ({ left: false, right: false, down: false })));
+  assert.equal(getChasedSim(race), race.sims[1]);
+  assert.deepEqual(race.sims.map(sim => sim.yeti), [race.yeti, race.yeti, race.yeti]);
+});
+
+test('finishers rank by time ahead of everyone else by distance', () => {
+  assert.deepEqual(rankRacers([
+    { status: 'crashed', time: 0, distance: 5000 },
+    { status: 'finished', time: 90000, distance: 10000 },
+    { status: 'running', time: 0, distance: 7000 },
+    { status: 'finished', time: 80000, distance: 10000 }
+  ]), [3, 1, 2, 0]);
+});
+
+test('each skier in a race logs only the ticks they skied', () => {
+  const { race, logs } = skiRace(11, 3000);
+  race.sims.forEach((sim, seat) => {
+    const logged = logs[seat].reduce((sum, n, i) => (i % 2 === 1 ? sum + n : sum), 0);
+    assert.equal(logged, sim.tick);
+  });
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Obstacle, ObstacleType, Player } from '../types';
+import { ScoreState, createScoreState, updateScore, awardYetiEscape, BRAKE_ANGLE } from '../engine/scoring';
+
+// --- Scoring Checks ---
+
+const TOP_SPEED = 10;
+
+const skier = (y: number, direction = 0, speed = 5): Player =>
+  ({ x: 0, y, speed, direction, state: 'skiing', altitude: 0, verticalSpeed: 0 });
+
+const obstacle = (id: number, type: ObstacleType, x: number, y: number): Obstacle =>
+  ({ id, type, x, y, width: 40, height: 60 });
+
+// One tick skied from y - 10 to y, steering with turn
+const skiPast = (score: ScoreState, tick: number, nearby: Obstacle[], player = skier(tick * 10), turn = 0) =>
+  updateScore(score, { player, previousY: player.y - 10, nearby, turn, topSpeed: TOP_SPEED, tick });
+
+const nearMiss = (tick: number) => [obstacle(tick, ObstacleType.TREE, 30, tick * 10 - 5)];
+
+test('shaving a tree is a near miss and threading two obstacles is a gap', () => {
+  const score = createScoreState();
+  // Trunk 30 out clears the skis by 19; the rock 40 out on the other side clears by 22
+  const { awards } = skiPast(score, 1, [
+    obstacle(1, ObstacleType.TREE, 30, 5),
+    obstacle(2, ObstacleType.ROCK, -40, 4)
+  ]);
+  assert.deepEqual(awards.map(a => [a.kind, a.points]), [['NEAR_MISS', 50], ['GAP', 100]]);
+  assert.equal(score.combo, 2);
+
+  assert.deepEqual(skiPast(score, 2, [obstacle(3, ObstacleType.TREE, 40, 15)]).awards, []);
+  assert.deepEqual(skiPast(score, 3, [obstacle(4, ObstacleType.RAMP, 0, 25)]).awards, []);
+});
+
+test('the multiplier steps up every third hit and tops out at x5', () => {
+  const score = createScoreState();
+  const multipliers = [];
+  for (let tick = 1; tick <= 15; tick++) {
+    skiPast(score, tick, nearMiss(tick));
+    multipliers.push(score.multiplier);
+  }
+  assert.deepEqual(multipliers, [1, 1, 2, 2, 2, 3, 3, 3, 4, 4, 4, 5, 5, 5, 5]);
+  assert.equal(skiPast(score, 16, nearMiss(16)).awards[0].points, 250);
+});
+
+test('braking or wobbling throws the combo away', () => {
+  const braked = createScoreState();
+  skiPast(braked, 1, nearMiss(1));
+  assert.equal(skiPast(braked, 2, [], skier(20, BRAKE_ANGLE)).comboBroken, true);
+  assert.equal(braked.combo, 0);
+  assert.equal(braked.multiplier, 1);
+
+  const wobbled = createScoreState();
+  skiPast(wobbled, 1, nearMiss(1));
+  const turns = [-1, 1, -1, 1].map((turn, i) => skiPast(wobbled, i + 2, [], skier((i + 2) * 10), turn));
+  assert.deepEqual(turns.map(t => t.comboBroken), [false, false, false, true]);
+
+  // Slow steering changes are just skiing
+  const carved = createScoreState();
+  skiPast(carved, 1, nearMiss(1));
+  for (let i = 0; i < 4; i++) skiPast(carved, 2 + i * 30, [], skier(20), i % 2 ? 1 : -1);
+  assert.equal(carved.combo, 1);
+});
+
+test('holding top speed and outrunning the yeti score points', () => {
+  const score = createScoreState();
+  let speedPoints = 0;
+  for (let tick = 1; tick <= 120; tick++) {
+    speedPoints += skiPast(score, tick, [], skier(tick * 10, 0, TOP_SPEED)).awards.reduce((sum, a) => sum + a.points, 0);
+  }
+  assert.equal(speedPoints, 20);
+  skiPast(score, 121, [], skier(1210, 0, 1));
+  assert.equal(score.speedTicks, 0);
+
+  assert.equal(awardYetiEscape(score, 123.7, skier(0))!.points, 123);
+  assert.equal(awardYetiEscape(score, -5, skier(0)), null);
+  assert.deepEqual(score.breakdown, { NEAR_MISS: 0, GAP: 0, SPEED: 20, YETI_ESCAPE: 123 });
+  assert.equal(score.total, 143);
+});
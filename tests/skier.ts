@@ -0,0 +1,70 @@
+import { Difficulty, GameMode } from '../types';
+import { TRAILS } from '../trails';
+import { createSimulation, stepSimulation, InputSnapshot, SimState } from '../engine/simulation';
+import { TrailDefinition, getTrackOffset } from '../engine/trail';
+import { Replay, recordInput } from '../engine/replay';
+import { createRace, stepRace, isRaceOver } from '../engine/race';
+import { RunSubmission } from '../engine/verify';
+import { Telemetry, createTelemetry, recordTelemetry } from '../engine/telemetry';
+
+// --- Test Skier ---
+// The simulation is deterministic and runs headless, so whole runs can be
+// skied in tests by a simple bot that chases the trail's line.
+
+export const trail = TRAILS[0];
+
+export interface SkiedRun {
+  sim: SimState;
+  inputs: number[];
+  telemetry: Telemetry;
+}
+
+// Which way the bot leans to reach the centerline `lookahead` ft further down
+export const chaseLine = (sim: SimState, lookahead: number): InputSnapshot => {
+  const target = getTrackOffset(sim.trail, sim.player.y + lookahead);
+  const want = Math.max(-1, Math.min(1, (target - sim.player.x) / 150));
+  return {
+    left: want < sim.player.direction - 0.1,
+    right: want > sim.player.direction + 0.1,
+    down: sim.tick % 300 < 100
+  };
+};
+
+export const ski = (
+  seed: number, difficulty: Difficulty, lookahead: number,
+  mode: GameMode = GameMode.FREERIDE, on: TrailDefinition = trail
+): SkiedRun => {
+  const sim = createSimulation(seed, difficulty, on, mode);
+  const inputs: number[] = [];
+  const telemetry = createTelemetry();
+  while (sim.status === 'running' && sim.tick < 20000) {
+    const input = chaseLine(sim, lookahead);
+    recordInput(inputs, input);
+    recordTelemetry(telemetry, sim, input);
+    stepSimulation(sim, input);
+  }
+  return { sim, inputs, telemetry };
+};
+
+// Two bots on one course; the second looks less far ahead and so skis a different line
+export const skiRace = (seed: number, ticks: number) => {
+  const race = createRace(seed, Difficulty.HARD, trail, GameMode.FREERIDE, 2);
+  const logs: number[][] = [[], []];
+  for (let i = 0; i < ticks && !isRaceOver(race); i++) {
+    stepRace(race, race.sims.map((sim, seat) => chaseLine(sim, seat === 0 ? 300 : 150)), (seat, input) => {
+      recordInput(logs[seat], input);
+    });
+  }
+  return { race, logs };
+};
+
+export const submissionFor = (replay: Replay): RunSubmission => ({
+  name: 'TEST',
+  trail: replay.trailId,
+  difficulty: replay.difficulty,
+  time: replay.result.time,
+  distance: replay.result.distance,
+  score: replay.result.score,
+  seed: replay.seed,
+  replay
+});
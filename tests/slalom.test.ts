@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, GameMode, Player } from '../types';
+import { getElapsedTime } from '../engine/simulation';
+import { createReplay } from '../engine/replay';
+import { createSlalomState, passGates, getGatePenalty, MISSED_GATE_PENALTY_MS } from '../engine/slalom';
+import { verifySubmission } from '../engine/verify';
+import { trail, ski, submissionFor } from './skier';
+
+// --- Slalom Checks ---
+
+test('a gate is judged where the skier crossed its line', () => {
+  const slalom = createSlalomState(trail);
+  const [first, second] = slalom.gates;
+  const at = (x: number, y: number) => ({ x, y } as Player);
+
+  // Through the middle of the first gate, judged partway through the tick
+  assert.deepEqual(passGates(slalom, { x: first.x - 40, y: first.y - 10 }, at(first.x + 40, first.y + 10)).map(g => g.result), ['cleared']);
+  // Wide of the second
+  assert.deepEqual(passGates(slalom, { x: second.x + 200, y: second.y - 10 }, at(second.x + 200, second.y + 10)).map(g => g.result), ['missed']);
+  assert.deepEqual(passGates(slalom, at(second.x, second.y + 10), at(second.x, second.y + 20)), []);
+  assert.equal(slalom.cleared, 1);
+  assert.equal(slalom.missed, 1);
+  assert.equal(getGatePenalty(slalom), MISSED_GATE_PENALTY_MS);
+});
+
+test('missed gates add to an EASY run time, and the verifier holds to it', () => {
+  const { sim, inputs } = ski(3, Difficulty.EASY, 300, GameMode.SLALOM);
+  assert.equal(sim.status, 'finished');
+  assert.ok(sim.slalom!.missed > 0);
+  const replay = createReplay(sim, inputs);
+  assert.equal(replay.result.time, Math.round(getElapsedTime(sim) + sim.slalom!.missed * MISSED_GATE_PENALTY_MS));
+
+  assert.equal(verifySubmission(submissionFor(replay)).accepted, true);
+  // Leaving the penalty off the reported time doesn't get past it
+  assert.equal(verifySubmission({ ...submissionFor(replay), time: Math.round(getElapsedTime(sim)) }).accepted, false);
+});
+
+test('a missed gate disqualifies a PRO run, which is never ranked', () => {
+  const { sim, inputs } = ski(3, Difficulty.HARD, 300, GameMode.SLALOM);
+  assert.equal(sim.status, 'crashed');
+  assert.equal(sim.causeOfDeath, 'Disqualified: missed gate 1');
+  assert.deepEqual(verifySubmission(submissionFor(createReplay(sim, inputs))), {
+    accepted: false, reason: 'Slalom runs only count when they reach the finish'
+  });
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty } from '../types';
+import { TrailDefinition } from '../engine/trail';
+import { getElapsedTime } from '../engine/simulation';
+import { getCheckpoints, recordSplits, getSplitDelta, getSectionTimes } from '../engine/splits';
+import { trail, ski } from './skier';
+
+// --- Split Checks ---
+
+const ofLength = (length: number) => ({ ...trail, length } as TrailDefinition);
+
+test('trails split into sections of about 5000 feet, never fewer than three', () => {
+  assert.deepEqual(getCheckpoints(ofLength(3000)), [1000, 2000]);
+  assert.deepEqual(getCheckpoints(ofLength(20000)), [5000, 10000, 15000]);
+  assert.deepEqual(getCheckpoints(ofLength(22000)), [5500, 11000, 16500]);
+});
+
+test('a split is taken on the tick a checkpoint is crossed', () => {
+  const splits: number[] = [];
+  const checkpoints = [100, 200];
+  recordSplits(splits, checkpoints, 90, 99, 1000);
+  recordSplits(splits, checkpoints, 99, 100, 1100);
+  recordSplits(splits, checkpoints, 100, 150, 1200);
+  assert.deepEqual(splits, [1100]);
+  // A jump clean over both takes them on the same tick
+  recordSplits(splits, [50, 100, 200], 0, 300, 2000);
+  assert.deepEqual(splits, [1100, 2000, 2000]);
+});
+
+test('deltas against the best and section times come from cumulative splits', () => {
+  assert.equal(getSplitDelta([1000, 2500], [1200, 2400], 0), -200);
+  assert.equal(getSplitDelta([1000, 2500], [1200, 2400], 1), 100);
+  assert.equal(getSplitDelta([1000], [1200, 2400], 1), null);
+  assert.equal(getSplitDelta([1000], null, 0), null);
+  assert.deepEqual(getSectionTimes([1000, 2500, 3100]), [1000, 1500, 600]);
+});
+
+test('a finished run has a split at every checkpoint and the finish', () => {
+  const { sim } = ski(3, Difficulty.EASY, 300);
+  assert.equal(sim.status, 'finished');
+  assert.equal(sim.splits.length, getCheckpoints(trail).length + 1);
+  assert.equal(sim.splits[sim.splits.length - 1], getElapsedTime(sim));
+  assert.ok(getSectionTimes(sim.splits).every(time => time > 0));
+});
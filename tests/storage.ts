@@ -0,0 +1,19 @@
+// --- In-Memory localStorage ---
+// Node has no localStorage, and the services read it whenever they're called.
+// quota caps the characters any one key can hold, to test a full browser.
+
+export const memoryStorage = () => {
+  const items = new Map<string, string>();
+  const storage = {
+    quota: Infinity,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > storage.quota) throw new Error('QuotaExceededError');
+      items.set(key, String(value));
+    },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+  (globalThis as { localStorage?: unknown }).localStorage = storage;
+  return storage;
+};
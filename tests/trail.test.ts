@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TrailValidationError, validateTrail, parseTrail, getTrackOffset, getTrackWidth } from '../engine/trail';
+import { TRAILS } from '../trails';
+import { trail } from './skier';
+
+// --- Trail Checks ---
+
+const copy = (): Record<string, any> => JSON.parse(JSON.stringify(trail));
+
+test('the built-in trails are valid', () => {
+  for (const builtIn of TRAILS) assert.deepEqual(validateTrail(builtIn), [], builtIn.id);
+});
+
+test('every problem with a trail file is reported at once', () => {
+  const broken = copy();
+  broken.name = '';
+  broken.lodge = { y: broken.length - 1 };
+  broken.yetiStartDistance = { EASY: -5, HARD: null };
+  broken.width = [{ y: 0, width: 100 }, { y: 0, width: 0 }];
+  broken.hazardZones = [{ from: 500, to: 100, density: 2, rockChance: 0.5 }];
+  broken.obstacles = [{ type: 'YETI', x: 0, y: 'far' }];
+  assert.deepEqual(validateTrail(broken), [
+    'name must be a non-empty string',
+    `lodge.y (${broken.length - 1}) must be at or past the finish line (${broken.length})`,
+    'yetiStartDistance.EASY must be a distance or null',
+    'width[1].y (0) must be greater than width[0].y (0)',
+    'width[1].width must be a positive number',
+    'hazardZones[0] needs numeric from < to',
+    'hazardZones[0].density must be between 0 and 1',
+    'obstacles[0].type must be one of TREE, ROCK, STUMP, RAMP, MOGULS',
+    'obstacles[0] needs numeric x and y'
+  ]);
+});
+
+test('anything but a trail object is turned away', () => {
+  assert.deepEqual(validateTrail(null), ['Trail must be a JSON object']);
+  assert.deepEqual(validateTrail([trail]), ['Trail must be a JSON object']);
+  const noProfiles = copy();
+  delete noProfiles.centerline;
+  noProfiles.pitch = [];
+  assert.deepEqual(validateTrail(noProfiles), ['centerline must be a non-empty array', 'pitch must be a non-empty array']);
+});
+
+test('parsing a bad trail throws with its source and errors', () => {
+  const broken = copy();
+  broken.length = 0;
+  assert.throws(() => parseTrail(broken, 'broken.json'), (error: unknown) =>
+    error instanceof TrailValidationError && error.source === 'broken.json'
+    && error.errors[0] === 'length must be a positive number');
+  assert.equal(parseTrail(copy(), 'ok.json').id, trail.id);
+});
+
+test('the centerline passes through its points and profiles hold flat past the ends', () => {
+  const [first, second] = trail.centerline;
+  const last = trail.centerline[trail.centerline.length - 1];
+  assert.equal(getTrackOffset(trail, second.y), second.x);
+  assert.equal(getTrackOffset(trail, first.y - 1000), first.x);
+  assert.equal(getTrackOffset(trail, last.y + 1000), last.x);
+
+  const narrowing = { ...trail, width: [{ y: 0, width: 600 }, { y: 1000, width: 400 }] };
+  assert.equal(getTrackWidth(narrowing, 250), 550);
+  assert.equal(getTrackWidth(narrowing, 5000), 400);
+});
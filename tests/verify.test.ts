@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty } from '../types';
+import { STEP_MS } from '../engine/simulation';
+import { Replay, MAX_TICKS, createReplay, encodeInput, validateReplay } from '../engine/replay';
+import { VerificationResult, verifySubmission } from '../engine/verify';
+import { ski, skiRace, submissionFor } from './skier';
+
+// --- Verifier Checks ---
+
+const reasonOf = (result: VerificationResult) => (result.accepted === false ? result.reason : '');
+
+test('the verifier accepts a genuine run', () => {
+  for (const [difficulty, lookahead] of [[Difficulty.EASY, 300], [Difficulty.HARD, 300], [Difficulty.HARD, -200]] as const) {
+    const { sim, inputs } = ski(4321, difficulty, lookahead);
+    const replay = createReplay(sim, inputs);
+    const result = verifySubmission(submissionFor(replay));
+    assert.deepEqual(result, {
+      accepted: true, time: replay.result.time, distance: replay.result.distance, score: replay.result.score
+    });
+    // The leaderboard stores whole ms
+    assert.ok(result.accepted && Number.isInteger(result.time));
+  }
+
+  // Runs queued before times were rounded still match
+  const { sim, inputs } = ski(4321, Difficulty.EASY, 300);
+  const replay = createReplay(sim, inputs);
+  const unrounded = verifySubmission({ ...submissionFor(replay), time: sim.tick * STEP_MS });
+  assert.deepEqual(unrounded, verifySubmission(submissionFor(replay)));
+});
+
+test('the verifier rejects a tampered run', () => {
+  const { sim, inputs } = ski(4321, Difficulty.EASY, 300);
+  const replay = createReplay(sim, inputs);
+
+  const faster = verifySubmission({ ...submissionFor(replay), time: replay.result.time - 1000 });
+  assert.equal(faster.accepted, false);
+
+  const richer = verifySubmission({ ...submissionFor(replay), score: (replay.result.score ?? 0) + 500 });
+  assert.equal(richer.accepted, false);
+
+  // Different steering over the same ticks no longer adds up to the reported result
+  const left = encodeInput({ left: true, right: false, down: false });
+  const steered = { ...replay, inputs: replay.inputs.map((n, i) => (i % 2 === 0 ? left : n)) };
+  assert.match(reasonOf(verifySubmission(submissionFor(steered))), /does not (match|end)/);
+
+  const otherCourse = verifySubmission({ ...submissionFor(replay), seed: replay.seed + 1 });
+  assert.equal(otherCourse.accepted, false);
+});
+
+test('input logs must cover exactly the run, before anything expands them', () => {
+  const { sim, inputs } = ski(4321, Difficulty.EASY, 300);
+  const replay = createReplay(sim, inputs);
+  const started = Date.now();
+
+  // A few bytes claiming a hundred million ticks of input
+  const bomb: Replay = { ...replay, ticks: 10, inputs: [0, 100000000] };
+  assert.match(reasonOf(verifySubmission(submissionFor(bomb))), /does not match the run length/);
+
+  const short: Replay = { ...replay, inputs: [...replay.inputs.slice(0, -1), replay.inputs[replay.inputs.length - 1] - 1] };
+  assert.match(validateReplay(short) ?? '', /does not match the run length/);
+
+  const endless: Replay = { ...replay, ticks: MAX_TICKS + 1, inputs: [0, MAX_TICKS + 1] };
+  assert.equal(validateReplay(endless), 'Replay is too long');
+
+  const fractional: Replay = { ...replay, ticks: 10.5 };
+  assert.equal(validateReplay(fractional), 'Replay has an invalid length');
+
+  const rivalBomb: Replay = { ...replay, race: { seat: 0, rivals: [[0, 100000000]] } };
+  assert.equal(validateReplay(rivalBomb), 'Replay race log is corrupt');
+
+  assert.ok(Date.now() - started < 1000, 'rejected without re-simulating');
+});
+
+test('split-screen race runs are not ranked', () => {
+  const { race, logs } = skiRace(11, 3000);
+  const real = createReplay(race.sims[0], logs[0], [], { seat: 0, rivals: [logs[1]] });
+  assert.equal(validateReplay(real), null);
+  assert.equal(reasonOf(verifySubmission(submissionFor(real))), 'Split-screen race runs are not ranked');
+
+  // Nor can a solo run make up a rival trailing behind to keep the yeti busy
+  const { sim, inputs } = ski(4321, Difficulty.HARD, 300);
+  const decoy = createReplay(sim, inputs, [], { seat: 0, rivals: [[encodeInput({ left: true, right: false, down: false }), 10]] });
+  assert.equal(reasonOf(verifySubmission(submissionFor(decoy))), 'Split-screen race runs are not ranked');
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Difficulty, Obstacle, ObstacleType, Player } from '../types';
+import { createSpatialIndex, indexObstacle } from '../engine/collision';
+import { createYeti, spawnYeti, stepYeti, getYetiGap, SPAWN_GAP } from '../engine/yeti';
+
+// --- Yeti Checks ---
+
+const skier = (x: number, y: number, speed = 8): Player =>
+  ({ x, y, speed, direction: 0, state: 'skiing', altitude: 0, verticalSpeed: 0 });
+
+const indexOf = (...obstacles: Obstacle[]) => {
+  const index = createSpatialIndex();
+  obstacles.forEach(obs => indexObstacle(index, obs));
+  return index;
+};
+
+test('the yeti wakes up behind the skier and runs faster the further back it is', () => {
+  const yeti = createYeti();
+  const player = skier(50, 1000);
+  assert.equal(getYetiGap(yeti, player), null);
+  spawnYeti(yeti, player);
+  assert.equal(getYetiGap(yeti, player), SPAWN_GAP);
+  assert.equal(yeti.x, 50);
+
+  assert.equal(stepYeti(yeti, player, indexOf(), Difficulty.EASY), null);
+  assert.equal(yeti.behavior, 'stalking');
+  assert.ok(Math.abs(yeti.speed - 8.3) < 1e-9);
+});
+
+test('a lunge commits to where the skier was, then leaves the yeti winded', () => {
+  const yeti = createYeti();
+  const player = skier(50, 1000);
+  spawnYeti(yeti, player);
+  yeti.y = 900;
+  const index = indexOf();
+
+  assert.equal(stepYeti(yeti, player, index, Difficulty.EASY), 'LUNGE');
+  assert.equal(yeti.behavior, 'lunging');
+  assert.equal(yeti.speed, player.speed + 4);
+
+  // A late swerve doesn't pull it off line
+  player.x = -100;
+  for (let i = 0; i < 29; i++) {
+    player.y = yeti.y + 300;
+    stepYeti(yeti, player, index, Difficulty.EASY);
+  }
+  assert.equal(yeti.behavior, 'lunging');
+  assert.equal(yeti.x, 50);
+
+  player.y = yeti.y + 300;
+  stepYeti(yeti, player, index, Difficulty.EASY);
+  assert.equal(yeti.behavior, 'stalking');
+  assert.equal(yeti.cooldown, 120);
+  assert.ok(Math.abs(yeti.speed - 6.1) < 1e-9);
+
+  // Can't lunge again until it gets its breath back
+  player.y = yeti.y + 100;
+  assert.equal(stepYeti(yeti, player, index, Difficulty.EASY), null);
+  assert.equal(yeti.behavior, 'stalking');
+});
+
+test('running into a rock knocks the yeti down for a while', () => {
+  const yeti = createYeti();
+  const player = skier(0, 1000);
+  spawnYeti(yeti, player);
+  yeti.y = 100;
+  const index = indexOf({ id: 1, type: ObstacleType.ROCK, x: 0, y: 110, width: 30, height: 20 });
+
+  assert.equal(stepYeti(yeti, player, index, Difficulty.HARD), 'STUMBLE');
+  assert.equal(yeti.behavior, 'stumbling');
+  for (let i = 0; i < 49; i++) stepYeti(yeti, player, index, Difficulty.HARD);
+  assert.equal(yeti.behavior, 'stumbling');
+  assert.equal(yeti.speed, 2);
+
+  assert.equal(stepYeti(yeti, player, index, Difficulty.HARD), null);
+  assert.equal(yeti.behavior, 'stalking');
+  assert.equal(yeti.cooldown, 0);
+});
+
+test('the yeti steers around trees on the side nearer the skier', () => {
+  const tree: Obstacle = { id: 1, type: ObstacleType.TREE, x: 0, y: 200, width: 40, height: 60 };
+  const run = (playerX: number, ...obstacles: Obstacle[]) => {
+    const yeti = createYeti();
+    spawnYeti(yeti, skier(0, 900));
+    stepYeti(yeti, skier(playerX, 900), indexOf(...obstacles), Difficulty.EASY);
+    return yeti.x;
+  };
+  assert.equal(run(10), 0.5);
+  assert.equal(run(10, tree), 2.5);
+  assert.equal(run(-10, tree), -2.5);
+  // Ramps aren't in its way
+  assert.equal(run(10, { ...tree, type: ObstacleType.RAMP }), 0.5);
+});
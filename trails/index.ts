@@ -0,0 +1,30 @@
+import { TrailDefinition, parseTrail } from '../engine/trail';
+import nileMile from './nile-mile.json';
+import cleopatra from './cleopatra.json';
+import raceway from './raceway.json';
+
+// Every trail file is validated as it loads, so a broken definition fails
+// loudly at startup instead of producing a strange course mid-run.
+export const TRAILS: TrailDefinition[] = [
+  parseTrail(nileMile, 'nile-mile.json'),
+  parseTrail(cleopatra, 'cleopatra.json'),
+  parseTrail(raceway, 'raceway.json'),
+];
+
+export const DEFAULT_TRAIL = TRAILS[0];
+
+// Trails built in the course editor this session. They can be skied and
+// replayed locally but never shadow a built-in trail.
+const customTrails = new Map<string, TrailDefinition>();
+
+export const isBuiltInTrail = (id: string): boolean => TRAILS.some(trail => trail.id === id);
+
+export const registerCustomTrail = (trail: TrailDefinition) => {
+  if (isBuiltInTrail(trail.id)) {
+    throw new Error(`Trail id "${trail.id}" is taken by a built-in trail`);
+  }
+  customTrails.set(trail.id, trail);
+};
+
+export const getTrail = (id: string): TrailDefinition | null =>
+  TRAILS.find(trail => trail.id === id) ?? customTrails.get(id) ?? null;
@@ -1,10 +1,22 @@
+import type { Replay } from './engine/replay';
+import type { ScoreBreakdown } from './engine/scoring';
+
 export enum GameState {
   MENU = 'MENU',
   COUNTDOWN = 'COUNTDOWN',
   PLAYING = 'PLAYING',
   GAME_OVER = 'GAME_OVER',
   VICTORY = 'VICTORY',
-  PAUSED = 'PAUSED'
+  PAUSED = 'PAUSED',
+  REPLAY = 'REPLAY',
+  EDITOR = 'EDITOR',
+  SETTINGS = 'SETTINGS',
+  LEADERBOARD = 'LEADERBOARD',
+  STATS = 'STATS',
+  ACHIEVEMENTS = 'ACHIEVEMENTS',
+  RACE_OVER = 'RACE_OVER',
+  LOBBY = 'LOBBY',
+  ANALYSIS = 'ANALYSIS'
 }
 
 export enum Difficulty {
@@ -12,18 +24,28 @@ export enum Difficulty {
   HARD = 'HARD'
 }
 
+// FREERIDE: reach the lodge any way you can; SLALOM: ski through every gate on the way
+export enum GameMode {
+  FREERIDE = 'FREERIDE',
+  SLALOM = 'SLALOM'
+}
+
 export interface Player {
   x: number; // Horizontal position
   y: number; // Vertical position (distance traveled)
   speed: number;
   direction: number; // -1 (left) to 1 (right)
   state: 'skiing' | 'crashed' | 'jumping';
+  altitude: number; // Height above the snow while jumping
+  verticalSpeed: number;
 }
 
 export enum ObstacleType {
   TREE = 'TREE',
   ROCK = 'ROCK',
   STUMP = 'STUMP',
+  RAMP = 'RAMP',
+  MOGULS = 'MOGULS',
   YETI = 'YETI'
 }
 
@@ -36,18 +58,43 @@ export interface Obstacle {
   height: number;
 }
 
+// Colors the skier is drawn in
+export interface SkierSkin {
+  id: string;
+  name: string;
+  suit: string;
+  skis: string;
+}
+
 export interface GameStats {
   score: number;
   distance: number;
   topSpeed: number;
   causeOfDeath: string | null;
   time?: number; // Time taken in ms
+  breakdown?: ScoreBreakdown; // Where the score came from
+  gatesCleared?: number; // Slalom runs only
+  gatesMissed?: number;
+  gatePenalty?: number; // ms added to the time for missed gates
+  splits?: number[]; // Elapsed ms at each checkpoint, then the finish
 }
 
+// synced: stored on the shared board; pending: queued offline, not yet verified;
+// local: this device's board (no Supabase configured)
+export type SyncStatus = 'synced' | 'pending' | 'local';
+
 export interface LeaderboardEntry {
+  id?: string;
   name: string;
   time: number;
   date: string;
+  createdAt?: string; // ISO timestamp, used for the Today / This Week filters
   difficulty?: string;
+  mode?: string; // Missing on runs from before slalom, which were all freeride
   distance?: number;
+  score?: number; // Missing on runs from before scoring
+  trail?: string; // Trail id; the board is ranked per trail
+  seed?: number; // Course seed, regenerates the exact obstacle field
+  replay?: Replay; // Full input log, lets others race this run as a ghost
+  syncStatus?: SyncStatus;
 }
\ No newline at end of file
@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
     readonly VITE_SUPABASE_URL: string;
     readonly VITE_SUPABASE_ANON_KEY: string;
+    readonly VITE_VERIFY_URL?: string;
+    readonly VITE_RACE_SERVER_URL?: string;
 }
 
 interface ImportMeta {